@@ -8,6 +8,8 @@ import { EditableTitle } from './components/EditableTitle';
 import { HelpPanel } from './components/HelpPanel';
 import { UserCursors } from './components/UserCursors';
 import { CollaborationStatus } from './components/CollaborationStatus';
+import { LayoutProgress } from './components/LayoutProgress';
+import { PresentationMode } from './components/PresentationMode';
 // import { CollaborationDebug } from './components/CollaborationDebug';
 import { useCanvasStore } from './store/canvasStore';
 import { useCollaborationStore } from './stores/collaborationStore';
@@ -16,6 +18,9 @@ import { Toaster } from './components/ui/sonner';
 import { toast } from 'sonner@2.0.3';
 import { NodeSearchDialog } from './components/NodeSearchDialog';
 import { AISuggestionsPanel } from './components/AISuggestionsPanel';
+import { readCanvasClipboard, writeCanvasClipboard } from './utils/clipboard';
+import { textToHtml } from './utils/html';
+import { indentedTextToFragment } from './utils/indentedText';
 
 export default function App() {
   // Debug: Log the current URL and path for debugging routing issues
@@ -45,7 +50,9 @@ export default function App() {
     getStorageInfo,
     setNodes,
     setConnections,
-    setGroups
+    setGroups,
+    presentation,
+    storageFullCount
   } = useCanvasStore();
 
   const {
@@ -102,66 +109,32 @@ export default function App() {
   // Auto-save periodically and on page unload
   useEffect(() => {
     let autoSaveToastId: string | number | undefined;
-    let quotaErrorCount = 0;
     
-    const performAutoSave = () => {
-      try {
-        autoSave();
-        setLastAutoSave(new Date());
-        quotaErrorCount = 0; // Reset error count on successful save
-        
-        // Show subtle auto-save notification (less frequently to reduce performance impact)
-        if (autoSaveToastId) {
-          toast.dismiss(autoSaveToastId);
-        }
-        // Only show auto-save toast every 5th save to reduce noise
-        if (Math.random() < 0.2) {
-          autoSaveToastId = toast.success('Auto-saved', { 
-            duration: 1500,
-            style: { 
-              opacity: 0.7,
-              fontSize: '12px'
-            }
-          });
-        }
-      } catch (error) {
-        if (error instanceof Error && error.name === 'QuotaExceededError') {
-          quotaErrorCount++;
-          
-          if (quotaErrorCount === 1) {
-            // First time - show helpful message
-            toast.error('Storage space full! Auto-save optimized. Consider exporting your canvas.', {
-              duration: 8000,
-              action: {
-                label: 'Export Now',
-                onClick: () => handleSave()
-              }
-            });
-          } else if (quotaErrorCount >= 3) {
-            // Multiple failures - show more urgent message
-            toast.error('Critical: Unable to auto-save! Please export your work immediately.', {
-              duration: 15000,
-              action: {
-                label: 'Export Canvas',
-                onClick: () => handleSave()
-              }
-            });
+    const performAutoSave = async () => {
+      if (!(await autoSave())) return;
+      setLastAutoSave(new Date());
+      
+      // Show subtle auto-save notification (less frequently to reduce performance impact)
+      if (autoSaveToastId) {
+        toast.dismiss(autoSaveToastId);
+      }
+      // Only show auto-save toast every 5th save to reduce noise
+      if (Math.random() < 0.2) {
+        autoSaveToastId = toast.success('Auto-saved', { 
+          duration: 1500,
+          style: { 
+            opacity: 0.7,
+            fontSize: '12px'
           }
-        } else {
-          console.error('Auto-save failed:', error);
-        }
+        });
       }
     };
     
     const autoSaveInterval = setInterval(performAutoSave, 30000); // Auto-save every 30 seconds
 
     const handleBeforeUnload = () => {
-      try {
-        autoSave();
-      } catch (error) {
-        // Silent failure on page unload - user is already leaving
-        console.warn('Auto-save failed on page unload:', error);
-      }
+      // The page may close before the write finishes, so don't wait on it
+      autoSave();
     };
 
     if (typeof window !== 'undefined' && window.addEventListener) {
@@ -177,26 +150,49 @@ export default function App() {
         toast.dismiss(autoSaveToastId);
       }
     };
-  }, [autoSave, handleSave]);
+  }, [autoSave]);
+
+  // Warn when saves fail because browser storage is full, from any save
+  useEffect(() => {
+    if (storageFullCount === 1) {
+      // First time - show helpful message
+      toast.error('Storage space full! Free up browser storage or export your canvas.', {
+        duration: 8000,
+        action: {
+          label: 'Export Now',
+          onClick: () => handleSave()
+        }
+      });
+    } else if (storageFullCount === 3) {
+      // Multiple failures - show more urgent message
+      toast.error('Critical: Unable to auto-save! Please export your work immediately.', {
+        duration: 15000,
+        action: {
+          label: 'Export Canvas',
+          onClick: () => handleSave()
+        }
+      });
+    }
+  }, [storageFullCount, handleSave]);
 
   // Load auto-save on app start and perform storage maintenance
   useEffect(() => {
     // Wrap in setTimeout to avoid blocking initial render
-    setTimeout(() => {
+    setTimeout(async () => {
       try {
-        const didLoadAutoSave = loadAutoSave();
+        const didLoadAutoSave = await loadAutoSave();
         if (didLoadAutoSave) {
           toast.success('Previous work restored from auto-save');
         }
         
         // Cleanup storage on app start (async)
-        setTimeout(() => {
+        setTimeout(async () => {
           try {
-            cleanupStorage();
+            await cleanupStorage();
             
             // Check storage usage and warn if high (non-blocking)
-            const storageInfo = getStorageInfo();
-            const usagePercent = (storageInfo.used / storageInfo.total) * 100;
+            const storageInfo = await getStorageInfo();
+            const usagePercent = storageInfo.total > 0 ? (storageInfo.used / storageInfo.total) * 100 : 0;
             
             if (usagePercent > 80) {
               toast.warning(`Storage ${usagePercent.toFixed(0)}% full. Consider exporting your work.`, {
@@ -303,6 +299,119 @@ export default function App() {
     }
   }, [openGroupDialog]);
 
+  // Clipboard: Ctrl+C / Ctrl+X / Ctrl+V on nodes, through the browser's copy, cut and paste events
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const handlePointerMove = (e: MouseEvent) => {
+      pointerRef.current = { x: e.clientX, y: e.clientY };
+    };
+
+    // Leave copy/paste alone while editing text or when text on the page is selected
+    const isEditingText = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return element?.tagName === 'INPUT' ||
+             element?.tagName === 'TEXTAREA' ||
+             element?.isContentEditable === true;
+    };
+    const hasTextSelection = () => !!window.getSelection()?.toString();
+
+    // Paste goes to the cursor, or the middle of the screen when the cursor was never on the page
+    const getPastePosition = () => {
+      const { transform } = useCanvasStore.getState();
+      const screen = pointerRef.current || { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+      return {
+        x: (screen.x - transform.x) / transform.scale,
+        y: (screen.y - transform.y) / transform.scale,
+      };
+    };
+
+    const copySelection = (e: ClipboardEvent) => {
+      const fragment = useCanvasStore.getState().getSelectedFragment();
+      if (!fragment || !e.clipboardData) return null;
+
+      e.preventDefault();
+      writeCanvasClipboard(e.clipboardData, fragment);
+      return fragment;
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || hasTextSelection()) return;
+      try {
+        const fragment = copySelection(e);
+        if (fragment) {
+          toast.success(fragment.nodes.length === 1 ? 'Node copied' : `${fragment.nodes.length} nodes copied`);
+        }
+      } catch (error) {
+        console.warn('Copy failed:', error);
+      }
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || hasTextSelection()) return;
+      try {
+        const fragment = copySelection(e);
+        if (fragment) {
+          useCanvasStore.getState().deleteNodes(fragment.nodes.map(node => node.id));
+          toast.success(fragment.nodes.length === 1 ? 'Node cut' : `${fragment.nodes.length} nodes cut`);
+        }
+      } catch (error) {
+        console.warn('Cut failed:', error);
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingText(e.target) || !e.clipboardData) return;
+      try {
+        const content = readCanvasClipboard(e.clipboardData);
+        if (!content) return;
+
+        e.preventDefault();
+        const { pasteNodes, pasteText } = useCanvasStore.getState();
+        const position = getPastePosition();
+
+        if (content.kind === 'canvas') {
+          const report = pasteNodes(content.data, position);
+          if (!report.success) {
+            toast.error('Could not paste nodes from the clipboard');
+          }
+        } else {
+          const html = content.kind === 'html' ? content.html : textToHtml(content.text);
+          const nodeId = pasteText(html, position);
+          // Outlines still paste as one node, with an offer to turn them into a mind map.
+          // Rich text from documents and web pages brings its outline as the plain text version.
+          const tree = indentedTextToFragment(content.text);
+          if (tree) {
+            toast.info(`The pasted text has ${tree.nodes.length} lines in an outline`, {
+              duration: 8000,
+              action: {
+                label: 'Make mind map',
+                onClick: () => {
+                  // Only replace the pasted node while it is still the untouched paste
+                  const pasted = useCanvasStore.getState().nodes.find(node => node.id === nodeId);
+                  useCanvasStore.getState().pasteOutline(tree, position, pasted?.content.value === html ? nodeId : undefined);
+                },
+              },
+            });
+          }
+        }
+      } catch (error) {
+        console.warn('Paste failed:', error);
+      }
+    };
+
+    window.addEventListener('mousemove', handlePointerMove);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('mousemove', handlePointerMove);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
   // Global keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -361,6 +470,17 @@ export default function App() {
               handleDuplicateNode(); // Ctrl+D for duplicate node
               break;
           }
+        } else if (e.altKey) {
+          switch (e.key) {
+            case 'ArrowLeft':
+              e.preventDefault();
+              useCanvasStore.getState().viewportBack(); // Alt+Left for previous view
+              break;
+            case 'ArrowRight':
+              e.preventDefault();
+              useCanvasStore.getState().viewportForward(); // Alt+Right for next view
+              break;
+          }
         } else {
           switch (e.key.toLowerCase()) {
             case 'n':
@@ -405,26 +525,36 @@ export default function App() {
       {/* Real-time collaboration user cursors */}
       <UserCursors containerRef={canvasContainerRef} />
       
-      {/* Collaboration status indicator */}
-      <CollaborationStatus />
+      {/* Slideshow over the canvas; the app chrome is hidden while it runs */}
+      <PresentationMode />
       
-      {/* Conditional rendering based on mobile detection */}
-      {isMobile ? (
-        <>
-          <MobileToolbar />
-          <MobileActionMenu />
-        </>
-      ) : (
+      {!presentation && (
         <>
-          <Toolbar />
-          <EditableTitle />
-          <DesktopChatButton />
+          {/* Collaboration status indicator */}
+          <CollaborationStatus />
+          
+          {/* Auto-organize progress */}
+          <LayoutProgress />
+          
+          {/* Conditional rendering based on mobile detection */}
+          {isMobile ? (
+            <>
+              <MobileToolbar />
+              <MobileActionMenu />
+            </>
+          ) : (
+            <>
+              <Toolbar />
+              <EditableTitle />
+              <DesktopChatButton />
+            </>
+          )}
+          
+          {!isMobile && <HelpPanel />}
+          <NodeSearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
+          <AISuggestionsPanel />
         </>
       )}
-      
-      {!isMobile && <HelpPanel />}
-      <NodeSearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
-      <AISuggestionsPanel />
       {/* <CollaborationDebug /> */}
       <Toaster position={isMobile ? "top-center" : "bottom-right"} />
     </div>
@@ -4,7 +4,7 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
-import { Loader2, Check, X, Lightbulb, Link, Type, Brain, Info } from 'lucide-react';
+import { Loader2, Check, X, Lightbulb, Link, Type, Brain, Info, Focus } from 'lucide-react';
 import { ScrollArea } from './ui/scroll-area';
 import { Alert, AlertDescription } from './ui/alert';
 import type { ConnectionSuggestion } from '../services/aiService';
@@ -15,7 +15,8 @@ export function AISuggestionsPanel() {
     clearAISuggestions,
     applyConnectionSuggestion,
     dismissConnectionSuggestion,
-    nodes
+    getNodeById,
+    zoomToNodes
   } = useCanvasStore();
 
   const { connections, groupSummary, groupNames, isLoading, error } = aiSuggestions;
@@ -40,7 +41,7 @@ export function AISuggestionsPanel() {
   }
 
   const getNodeTitle = (nodeId: string) => {
-    const node = nodes.find(n => n.id === nodeId);
+    const node = getNodeById(nodeId);
     return node?.content.title || node?.content.value || 'Untitled Node';
   };
 
@@ -52,6 +53,10 @@ export function AISuggestionsPanel() {
     dismissConnectionSuggestion(suggestion);
   };
 
+  const handleShowConnection = (suggestion: ConnectionSuggestion) => {
+    zoomToNodes([suggestion.nodeId1, suggestion.nodeId2]);
+  };
+
   return (
     <Card className="fixed top-20 right-4 w-80 max-h-[calc(100vh-6rem)] z-50 shadow-lg border-2 flex flex-col">
       <CardHeader className="pb-3 flex-shrink-0">
@@ -188,6 +193,15 @@ export function AISuggestionsPanel() {
                               {Math.round(suggestion.confidence * 100)}% confidence
                             </Badge>
                             <div className="flex gap-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                onClick={() => handleShowConnection(suggestion)}
+                                title="Show on canvas"
+                              >
+                                <Focus className="w-3 h-3 text-blue-600" />
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { useCanvasStore } from '../store/canvasStore';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Plus, Copy, Edit2, Trash2, Check, X, LayoutGrid } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface CanvasLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function CanvasLibraryDialog({ open, onOpenChange }: CanvasLibraryDialogProps) {
+  const {
+    canvasId,
+    canvasLibrary,
+    refreshCanvasLibrary,
+    openCanvas,
+    createCanvas,
+    renameCanvas,
+    duplicateCanvas,
+    deleteCanvas,
+  } = useCanvasStore();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Listen for close all dialogs event
+  useEffect(() => {
+    const handleCloseAllDialogs = () => {
+      onOpenChange(false);
+    };
+
+    window.addEventListener('closeAllDialogs', handleCloseAllDialogs);
+    return () => window.removeEventListener('closeAllDialogs', handleCloseAllDialogs);
+  }, [onOpenChange]);
+
+  // Pick up thumbnails and names saved since the list was last read
+  useEffect(() => {
+    if (open) {
+      refreshCanvasLibrary();
+    } else {
+      setEditingId(null);
+      setConfirmDeleteId(null);
+    }
+  }, [open, refreshCanvasLibrary]);
+
+  // Run a library action, keeping the dialog from firing a second one meanwhile
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast.error(errorMessage, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = (id: string) => {
+    if (id === canvasId) {
+      onOpenChange(false);
+      return;
+    }
+    runAction(async () => {
+      const opened = await openCanvas(id);
+      if (!opened) throw new Error(`Canvas ${id} not found`);
+      onOpenChange(false);
+    }, 'Failed to open canvas');
+  };
+
+  const handleCreate = () => {
+    runAction(async () => {
+      await createCanvas();
+      onOpenChange(false);
+      toast.success('New canvas created');
+    }, 'Failed to create canvas');
+  };
+
+  const handleStartRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const handleSaveRename = (id: string) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name) return;
+    runAction(() => renameCanvas(id, name), 'Failed to rename canvas');
+  };
+
+  const handleDuplicate = (id: string) => {
+    runAction(async () => {
+      const duplicateId = await duplicateCanvas(id);
+      if (!duplicateId) throw new Error(`Canvas ${id} could not be duplicated`);
+      toast.success('Canvas duplicated');
+    }, 'Failed to duplicate canvas');
+  };
+
+  const handleDelete = (id: string) => {
+    setConfirmDeleteId(null);
+    runAction(async () => {
+      await deleteCanvas(id);
+      toast.success('Canvas deleted');
+    }, 'Failed to delete canvas');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutGrid className="w-5 h-5" />
+            Canvas Library
+          </DialogTitle>
+          <DialogDescription>
+            All canvases stored in this browser. Changes are saved automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {canvasLibrary.length} {canvasLibrary.length === 1 ? 'canvas' : 'canvases'}
+          </span>
+          <Button onClick={handleCreate} size="sm" disabled={isBusy}>
+            <Plus className="w-4 h-4 mr-1" />
+            New Canvas
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[420px] pr-2">
+          {canvasLibrary.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-12">
+              No saved canvases yet. Your current canvas will appear here after its first auto-save.
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {canvasLibrary.map(canvas => {
+                const isCurrent = canvas.id === canvasId;
+                return (
+                  <div
+                    key={canvas.id}
+                    className={`group rounded-lg border overflow-hidden bg-white dark:bg-gray-800 ${
+                      isCurrent ? 'border-blue-500 ring-2 ring-blue-200 dark:ring-blue-900' : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <button
+                      onClick={() => handleOpen(canvas.id)}
+                      disabled={isBusy}
+                      className="block w-full aspect-[8/5] bg-gray-50 dark:bg-gray-900 hover:opacity-90 transition-opacity"
+                      title={isCurrent ? 'Currently open' : `Open ${canvas.name}`}
+                    >
+                      {canvas.thumbnail ? (
+                        <img src={canvas.thumbnail} alt={canvas.name} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-xs text-gray-400">
+                          Empty canvas
+                        </div>
+                      )}
+                    </button>
+
+                    <div className="p-2 space-y-1">
+                      {editingId === canvas.id ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleSaveRename(canvas.id);
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="h-7 text-sm"
+                            autoFocus
+                          />
+                          <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => handleSaveRename(canvas.id)}>
+                            <Check className="w-3 h-3" />
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setEditingId(null)}>
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-1">
+                          <span className="text-sm font-medium truncate flex-1" title={canvas.name}>
+                            {canvas.name}
+                          </span>
+                          {isCurrent && (
+                            <Badge variant="secondary" className="text-xs">Open</Badge>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="text-xs text-gray-500">
+                        {canvas.nodeCount} nodes · Opened {formatDate(canvas.lastOpenedAt)}
+                      </div>
+
+                      {confirmDeleteId === canvas.id ? (
+                        <div className="flex items-center justify-between gap-1">
+                          <span className="text-xs text-red-600">Delete this canvas?</span>
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="destructive" className="h-6 px-2 text-xs" onClick={() => handleDelete(canvas.id)}>
+                              Delete
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => setConfirmDeleteId(null)}>
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0"
+                            title="Rename"
+                            disabled={isBusy}
+                            onClick={() => handleStartRename(canvas.id, canvas.name)}
+                          >
+                            <Edit2 className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0"
+                            title="Duplicate"
+                            disabled={isBusy}
+                            onClick={() => handleDuplicate(canvas.id)}
+                          >
+                            <Copy className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                            title="Delete"
+                            disabled={isBusy}
+                            onClick={() => setConfirmDeleteId(canvas.id)}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
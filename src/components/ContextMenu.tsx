@@ -2,7 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { useCanvasStore } from '../store/canvasStore';
 import { GroupDialog } from './GroupDialog';
 import { NodeSearchDialog } from './NodeSearchDialog';
-import { Type, Image, Link, Trash2, Plus, Eraser, UserX, Search, Video, MessageCircle, Copy, Tag, Sparkles, Zap } from 'lucide-react';
+import { Type, Image, Link, Trash2, Plus, Eraser, UserX, Search, Video, MessageCircle, Copy, Tag, Sparkles, Zap, Network, GitFork, Orbit } from 'lucide-react';
 
 interface ContextMenuProps {
   x: number;
@@ -32,7 +32,8 @@ export function ContextMenu({ x, y, nodeId, canvasPosition, onClose }: ContextMe
     summarizeGroup,
     summarizeNodes,
     suggestConnections,
-    suggestGroupNames
+    suggestGroupNames,
+    autoOrganizeNodes
   } = useCanvasStore();
   const menuRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ x, y });
@@ -246,6 +247,13 @@ export function ContextMenu({ x, y, nodeId, canvasPosition, onClose }: ContextMe
     }
   };
 
+  const handleLayoutFromNode = (layout: 'mindmap' | 'tree' | 'radial') => {
+    if (selectedNode) {
+      autoOrganizeNodes(layout, selectedNode.id);
+      onClose();
+    }
+  };
+
   const handleSummarizeGroup = () => {
     if (selectedNode && selectedNode.groupId) {
       summarizeGroup(selectedNode.groupId);
@@ -452,6 +460,34 @@ export function ContextMenu({ x, y, nodeId, canvasPosition, onClose }: ContextMe
 
           <hr className="my-2" />
 
+          {/* Layout */}
+          <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+            Layout
+          </div>
+          <button
+            onClick={() => handleLayoutFromNode('mindmap')}
+            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm flex items-center gap-2 text-gray-900 dark:text-gray-100"
+          >
+            <Network size={16} className="text-blue-500" />
+            Mind Map from Here
+          </button>
+          <button
+            onClick={() => handleLayoutFromNode('tree')}
+            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm flex items-center gap-2 text-gray-900 dark:text-gray-100"
+          >
+            <GitFork size={16} className="text-blue-500" />
+            Org Chart from Here
+          </button>
+          <button
+            onClick={() => handleLayoutFromNode('radial')}
+            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm flex items-center gap-2 text-gray-900 dark:text-gray-100"
+          >
+            <Orbit size={16} className="text-blue-500" />
+            Radial from Here
+          </button>
+
+          <hr className="my-2" />
+
           {/* Actions */}
           <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
             Actions
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { CanvasFragment } from '../store/canvasMerge';
+import {
+  CSV_FIELD_LABELS,
+  csvToFragment,
+  guessCsvMapping,
+  readCsvTable,
+  type CsvField,
+  type CsvMapping,
+} from '../utils/csv';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  text: string;
+  onImport: (fragment: CanvasFragment) => void;
+}
+
+const NODE_FIELDS: CsvField[] = ['title', 'body', 'tags', 'group', 'color', 'createdAt'];
+const NO_COLUMN = 'none';
+const PREVIEW_ROWS = 5;
+
+export function CsvImportDialog({ open, onOpenChange, fileName, text, onImport }: CsvImportDialogProps) {
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [arrangement, setArrangement] = useState<'grid' | 'cluster'>('grid');
+  const [clusterColumn, setClusterColumn] = useState(0);
+
+  // Listen for close all dialogs event
+  useEffect(() => {
+    const handleCloseAllDialogs = () => {
+      onOpenChange(false);
+    };
+
+    window.addEventListener('closeAllDialogs', handleCloseAllDialogs);
+    return () => window.removeEventListener('closeAllDialogs', handleCloseAllDialogs);
+  }, [onOpenChange]);
+
+  // Tab-separated files can hold commas in every cell, so their delimiter isn't guessed
+  const { table, error } = useMemo(() => {
+    try {
+      const delimiter = fileName.toLowerCase().endsWith('.tsv') ? '\t' : undefined;
+      return { table: readCsvTable(text, { hasHeader, delimiter }), error: null };
+    } catch (e) {
+      return { table: null, error: e instanceof Error ? e.message : 'Could not read the file' };
+    }
+  }, [text, fileName, hasHeader]);
+
+  // Start every newly read table from a guess based on its column names
+  useEffect(() => {
+    if (!table) return;
+    const guess = guessCsvMapping(table.headers);
+    setMapping(guess);
+    setClusterColumn(guess.group ?? 0);
+  }, [table]);
+
+  const setColumn = (field: CsvField, value: string) => {
+    setMapping(current => ({ ...current, [field]: value === NO_COLUMN ? undefined : Number(value) }));
+  };
+
+  const canImport = !!table && table.rows.length > 0 && (mapping.title !== undefined || mapping.body !== undefined);
+
+  const handleImport = () => {
+    if (!table || !canImport) return;
+    onImport(csvToFragment(table, mapping, arrangement === 'cluster'
+      ? { type: 'cluster', column: clusterColumn }
+      : { type: 'grid' }));
+  };
+
+  const columnSelect = (field: CsvField) => (
+    <div key={field} className="space-y-1">
+      <Label htmlFor={`csv-column-${field}`} className="text-sm">{CSV_FIELD_LABELS[field]}</Label>
+      <Select value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])} onValueChange={(value) => setColumn(field, value)}>
+        <SelectTrigger id={`csv-column-${field}`} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_COLUMN}>None</SelectItem>
+          {table?.headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Every row of {fileName} becomes a node. Choose which columns fill each part of the nodes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="csv-has-header"
+              checked={hasHeader}
+              onCheckedChange={(checked) => setHasHeader(checked === true)}
+            />
+            <Label htmlFor="csv-has-header" className="font-normal">First row holds column names</Label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {table && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {NODE_FIELDS.map(columnSelect)}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Connections</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  A row connects to the rows whose ID its "connects to" cell lists, separated by commas. Without an ID column, rows are matched by title.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {columnSelect('id')}
+                  {columnSelect('linksTo')}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Arrangement</p>
+                <RadioGroup
+                  value={arrangement}
+                  onValueChange={(value) => setArrangement(value as 'grid' | 'cluster')}
+                  className="gap-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="grid" id="csv-arrange-grid" />
+                    <Label htmlFor="csv-arrange-grid" className="font-normal">Grid</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="cluster" id="csv-arrange-cluster" />
+                    <Label htmlFor="csv-arrange-cluster" className="font-normal">Cluster rows with the same</Label>
+                    <Select
+                      value={String(clusterColumn)}
+                      onValueChange={(value) => setClusterColumn(Number(value))}
+                      disabled={arrangement !== 'cluster'}
+                    >
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {table.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-sm font-medium">
+                  Preview ({table.rows.length} {table.rows.length === 1 ? 'row' : 'rows'})
+                </p>
+                <div className="overflow-x-auto border rounded">
+                  <table className="text-xs w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        {table.headers.map((header, index) => (
+                          <th key={index} className="px-2 py-1 text-left font-medium whitespace-nowrap">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t">
+                          {table.headers.map((_, index) => (
+                            <td key={index} className="px-2 py-1 max-w-[12rem] truncate">{row[index]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={!canImport}>
+              Import {table ? `${table.rows.length} ${table.rows.length === 1 ? 'node' : 'nodes'}` : ''}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
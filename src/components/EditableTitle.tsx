@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useCanvasStore } from '../store/canvasStore';
+import { ChevronDown } from 'lucide-react';
 
 export function EditableTitle() {
   const { canvasName, setCanvasName } = useCanvasStore();
@@ -44,8 +45,13 @@ export function EditableTitle() {
     setTempName(e.target.value);
   };
 
+  const handleOpenLibrary = () => {
+    // The library dialog lives in the Toolbar
+    window.dispatchEvent(new CustomEvent('openCanvasLibrary'));
+  };
+
   return (
-    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
+    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg flex items-center gap-1">
       {isEditing ? (
         <input
           ref={inputRef}
@@ -66,6 +72,13 @@ export function EditableTitle() {
           {canvasName}
         </h1>
       )}
+      <button
+        onClick={handleOpenLibrary}
+        className="p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100/50 dark:text-gray-400 dark:hover:text-gray-100 dark:hover:bg-gray-700/50 transition-colors"
+        title="Switch canvas"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { Frame } from '../store/canvasStore';
+
+interface FrameOutlineProps {
+  frame: Frame;
+  index: number;
+  scale: number;
+}
+
+/**
+ * Dashed outline of a presentation frame with its slide number and name.
+ * Line width and label size are divided by the zoom level so they stay the
+ * same size on screen.
+ */
+export const FrameOutline = React.memo(function FrameOutline({ frame, index, scale }: FrameOutlineProps) {
+  return (
+    <div
+      className="absolute pointer-events-none border-dashed border-violet-500/70 rounded-sm"
+      data-export-ignore
+      style={{
+        left: frame.x,
+        top: frame.y,
+        width: frame.width,
+        height: frame.height,
+        borderWidth: 2 / scale,
+      }}
+    >
+      <div
+        className="absolute left-0 whitespace-nowrap font-medium text-violet-600 dark:text-violet-400"
+        style={{ bottom: '100%', fontSize: 12 / scale, marginBottom: 4 / scale }}
+      >
+        {index + 1}. {frame.name}
+      </div>
+    </div>
+  );
+});
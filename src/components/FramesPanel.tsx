@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { useCanvasStore } from '../store/canvasStore';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Presentation, SquareDashed, Users, FileDown, Play, ChevronUp, ChevronDown, Focus, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { exportFramesToPdf } from '../utils/slideExport';
+
+interface FramesPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FramesPanel({ open, onOpenChange }: FramesPanelProps) {
+  const {
+    canvasName,
+    frames,
+    groups,
+    updateFrame,
+    deleteFrame,
+    moveFrame,
+    zoomToFrame,
+    setDrawingFrame,
+    addFramesFromGroups,
+    startPresentation,
+  } = useCanvasStore();
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Listen for close all dialogs event
+  useEffect(() => {
+    const handleCloseAllDialogs = () => {
+      onOpenChange(false);
+    };
+
+    window.addEventListener('closeAllDialogs', handleCloseAllDialogs);
+    return () => window.removeEventListener('closeAllDialogs', handleCloseAllDialogs);
+  }, [onOpenChange]);
+
+  const handleDrawFrame = () => {
+    setDrawingFrame(true);
+    onOpenChange(false);
+  };
+
+  const handleFramesFromGroups = () => {
+    const count = addFramesFromGroups();
+    if (count === 0) {
+      toast.info('No groups with nodes to make frames from');
+    } else {
+      toast.success(`${count} ${count === 1 ? 'frame' : 'frames'} added from groups`);
+    }
+  };
+
+  const handleShowFrame = (id: string) => {
+    zoomToFrame(id);
+    onOpenChange(false);
+  };
+
+  const handlePresent = (frameIndex = 0) => {
+    onOpenChange(false);
+    startPresentation(frameIndex);
+  };
+
+  const handleExportPdf = async () => {
+    setIsExporting(true);
+    const toastId = toast.loading(`Exporting ${frames.length} slides...`);
+    try {
+      await exportFramesToPdf(canvasName.replace(/[^a-zA-Z0-9]/g, '_') || 'presentation', (done, total) => {
+        toast.loading(`Exporting slide ${done} of ${total}...`, { id: toastId });
+      });
+      toast.success('Presentation PDF saved to Downloads folder!', { id: toastId });
+    } catch (error) {
+      console.error('Slide export failed:', error);
+      toast.error(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { id: toastId });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Presentation className="w-5 h-5" />
+            Presentation
+          </DialogTitle>
+          <DialogDescription>
+            Frames are shown one after another when presenting. Draw them on the canvas or create one around each group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleDrawFrame} size="sm" variant="outline">
+            <SquareDashed className="w-4 h-4 mr-1" />
+            Draw Frame
+          </Button>
+          <Button onClick={handleFramesFromGroups} size="sm" variant="outline" disabled={groups.length === 0}>
+            <Users className="w-4 h-4 mr-1" />
+            Frames from Groups
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[300px] pr-2">
+          {frames.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-12">
+              No frames yet.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {frames.map((frame, index) => (
+                <div key={frame.id} className="flex items-center gap-1">
+                  <span className="w-6 text-sm text-gray-500 text-right mr-1">{index + 1}.</span>
+                  <Input
+                    value={frame.name}
+                    onChange={(e) => updateFrame(frame.id, { name: e.target.value })}
+                    className="text-sm h-8 flex-1"
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => moveFrame(frame.id, index - 1)}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => moveFrame(frame.id, index + 1)}
+                    disabled={index === frames.length - 1}
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleShowFrame(frame.id)}
+                    title="Show on canvas"
+                  >
+                    <Focus className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handlePresent(index)}
+                    title="Present from this frame"
+                  >
+                    <Play className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => deleteFrame(frame.id)}
+                    title="Delete frame"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex gap-2 justify-end">
+          <Button onClick={handleExportPdf} variant="outline" disabled={frames.length === 0 || isExporting}>
+            {isExporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileDown className="w-4 h-4 mr-1" />}
+            Export PDF
+          </Button>
+          <Button onClick={() => handlePresent()} disabled={frames.length === 0}>
+            <Play className="w-4 h-4 mr-1" />
+            Present
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,9 @@ export function HelpPanel() {
         { keys: ['G'], description: 'Add new group' },
         { keys: ['Delete'], description: 'Delete selected node(s)' },
         { keys: ['Ctrl', 'D'], description: 'Duplicate selected node' },
+        { keys: ['Ctrl', 'C'], description: 'Copy selected node(s)' },
+        { keys: ['Ctrl', 'X'], description: 'Cut selected node(s)' },
+        { keys: ['Ctrl', 'V'], description: 'Paste nodes or text at cursor (outlines can become a mind map)' },
       ]
     },
     {
@@ -34,6 +37,8 @@ export function HelpPanel() {
       items: [
         { keys: ['Ctrl', 'F'], description: 'Search nodes' },
         { keys: ['Ctrl', 'G'], description: 'Group selected nodes' },
+        { keys: ['Alt', '←'], description: 'Go back to the previous view' },
+        { keys: ['Alt', '→'], description: 'Go forward to the next view' },
       ]
     }
   ];
@@ -86,6 +91,7 @@ export function HelpPanel() {
       icon: <Wand2 className="w-4 h-4" />,
       items: [
         'Auto-Organize: Force-directed layout algorithm',
+        'Presentations: Step through frames fullscreen, or export them as PDF slides',
         'Auto-Save: Progress saved every 30 seconds',
         'Search: Find nodes by content or tags',
         'Dark/Light Theme: Adaptive interface',
@@ -151,6 +151,8 @@ export function ImageMasonry({ images, onImagesChange, nodeWidth = 200 }: ImageM
                                 src={image}
                                 alt={`Image ${index + 1}`}
                                 className="w-full h-auto rounded shadow-sm"
+                                loading="lazy"
+                                decoding="async"
                             />
                             <button
                                 onClick={(e) => {
@@ -1,17 +1,31 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { useCanvasStore } from '../store/canvasStore';
 import { useIsMobile } from './ui/use-mobile';
 import { CanvasNode } from './CanvasNode';
+import { NodeCard } from './NodeCard';
+import { Minimap } from './Minimap';
+import { FrameOutline } from './FrameOutline';
 import { Connection } from './Connection';
 import { ContextMenu } from './ContextMenu';
 import { MultiSelectContextMenu } from './MultiSelectContextMenu';
 import { MobileRichTextEditor } from './MobileRichTextEditor';
-import { Maximize2, Plus, Minus, Undo, Redo } from 'lucide-react';
+import { Maximize2, Plus, Minus, Undo, Redo, ArrowLeft, ArrowRight } from 'lucide-react';
+import { textToHtml } from '../utils/html';
+import { getVisibleBounds, nodeRect, rectsIntersect, unionRects } from '../utils/viewport';
+
+// Nodes within this many screen pixels of the viewport stay mounted, so panning doesn't show pop-in
+const CULLING_OVERSCAN = 400;
+// Below this zoom level nodes render as simplified cards
+const CARD_ZOOM_THRESHOLD = 0.4;
+// Dropping a connection this many screen pixels from a node still connects to it
+const CONNECTION_SNAP_DISTANCE = 48;
+// Smallest frame, in screen pixels, that a drag on the canvas creates
+const MIN_FRAME_SIZE = 20;
 
 export function InfiniteCanvas() {
   const {
-    nodes,
     connections,
+    groups,
     transform,
     selectedNodeId,
     selectedNodeIds,
@@ -27,6 +41,12 @@ export function InfiniteCanvas() {
     fitToScreen,
     zoomIn,
     zoomOut,
+    viewportSize,
+    setViewportSize,
+    viewportHistory,
+    viewportBack,
+    viewportForward,
+    zoomToNodes,
     startSelectionBox,
     updateSelectionBox,
     endSelectionBox,
@@ -35,6 +55,14 @@ export function InfiniteCanvas() {
     undo,
     redo,
     history,
+    getNodeById,
+    getNodesInRect,
+    findNearestNode,
+    frames,
+    isDrawingFrame,
+    presentation,
+    addFrame,
+    setDrawingFrame,
   } = useCanvasStore();
 
   const isMobile = useIsMobile();
@@ -47,6 +75,7 @@ export function InfiniteCanvas() {
   const [isSelecting, setIsSelecting] = useState(false);
   const [connectingFromPoint, setConnectingFromPoint] = useState<string>('center');
   const [previewConnection, setPreviewConnection] = useState<{ x: number; y: number } | null>(null);
+  const [frameDraft, setFrameDraft] = useState<{ startX: number; startY: number; endX: number; endY: number } | null>(null);
   
   // Mobile-specific state
   const [isLongPressing, setIsLongPressing] = useState(false);
@@ -141,11 +170,23 @@ export function InfiniteCanvas() {
     }
   }, [transform, setTransform]);
 
+  // Node a connection being drawn would attach to when dropped at this canvas position
+  const findSnapTarget = (canvasPos: { x: number; y: number }) =>
+    connectingFromNodeId
+      ? findNearestNode(canvasPos, CONNECTION_SNAP_DISTANCE / transform.scale, [connectingFromNodeId])
+      : null;
+
   // Handle mouse events
   const handleMouseDown = (e: React.MouseEvent) => {
     setContextMenu(null);
     setMultiSelectContextMenu(null);
 
+    if (isDrawingFrame && e.button === 0) {
+      const canvasPos = screenToCanvas(e.clientX, e.clientY);
+      setFrameDraft({ startX: canvasPos.x, startY: canvasPos.y, endX: canvasPos.x, endY: canvasPos.y });
+      return;
+    }
+
     if (e.button === 1 || (e.button === 0 && e.altKey)) {
       // Middle mouse or Alt+left mouse for panning
       e.preventDefault();
@@ -167,8 +208,13 @@ export function InfiniteCanvas() {
         }
       }
     } else if (e.button === 0 && isConnecting) {
-      // If in connecting mode and clicking on empty space, cancel connection
+      // If in connecting mode and clicking on empty space, connect to a node close by or cancel
       if (e.target === canvasRef.current || (e.target as HTMLElement).classList.contains('canvas-background')) {
+        const snapTarget = findSnapTarget(screenToCanvas(e.clientX, e.clientY));
+        if (snapTarget) {
+          handleCompleteConnection(snapTarget.id);
+          return;
+        }
         setConnecting(false);
         setConnectingFromPoint('center');
         setPreviewConnection(null);
@@ -177,6 +223,12 @@ export function InfiniteCanvas() {
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (frameDraft) {
+      const canvasPos = screenToCanvas(e.clientX, e.clientY);
+      setFrameDraft({ ...frameDraft, endX: canvasPos.x, endY: canvasPos.y });
+      return;
+    }
+
     if (isPanning) {
       setTransform({
         x: e.clientX - panStart.x,
@@ -191,11 +243,33 @@ export function InfiniteCanvas() {
 
     if (isConnecting && connectingFromNodeId) {
       const canvasPos = screenToCanvas(e.clientX, e.clientY);
-      setPreviewConnection(canvasPos);
+      const sourceNode = getNodeById(connectingFromNodeId);
+      const snapTarget = findSnapTarget(canvasPos);
+      // Snap the preview onto the node the connection would be dropped on
+      setPreviewConnection(sourceNode && snapTarget
+        ? getConnectionPoint(snapTarget, getBestTargetConnectionPoint(sourceNode, snapTarget, connectingFromPoint))
+        : canvasPos);
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+    if (frameDraft) {
+      const width = Math.abs(frameDraft.endX - frameDraft.startX);
+      const height = Math.abs(frameDraft.endY - frameDraft.startY);
+      // A click without dragging doesn't make a frame
+      if (width * transform.scale >= MIN_FRAME_SIZE && height * transform.scale >= MIN_FRAME_SIZE) {
+        addFrame({
+          x: Math.min(frameDraft.startX, frameDraft.endX),
+          y: Math.min(frameDraft.startY, frameDraft.endY),
+          width,
+          height,
+        });
+      }
+      setFrameDraft(null);
+      setDrawingFrame(false);
+      return;
+    }
+
     if (isPanning) {
       setIsPanning(false);
     }
@@ -259,10 +333,11 @@ export function InfiniteCanvas() {
     setConnectingFromPoint(connectionPoint);
   };
 
-  const handleCompleteConnection = (targetNodeId: string) => {
+  // Stable while not connecting, so zoomed-out node cards don't re-render as the canvas pans
+  const handleCompleteConnection = useCallback((targetNodeId: string) => {
     if (isConnecting && connectingFromNodeId && connectingFromNodeId !== targetNodeId) {
-      const sourceNode = nodes.find(n => n.id === connectingFromNodeId);
-      const targetNode = nodes.find(n => n.id === targetNodeId);
+      const sourceNode = getNodeById(connectingFromNodeId);
+      const targetNode = getNodeById(targetNodeId);
 
       if (sourceNode && targetNode) {
         const targetPoint = getBestTargetConnectionPoint(sourceNode, targetNode, connectingFromPoint);
@@ -273,7 +348,7 @@ export function InfiniteCanvas() {
       setConnectingFromPoint('center');
       setPreviewConnection(null);
     }
-  };
+  }, [isConnecting, connectingFromNodeId, connectingFromPoint, getNodeById, getBestTargetConnectionPoint, addConnection, setConnecting]);
 
   const handleNodeClick = (nodeId: string) => {
     if (isConnecting && connectingFromNodeId && connectingFromNodeId !== nodeId) {
@@ -305,7 +380,8 @@ export function InfiniteCanvas() {
     e.preventDefault();
     const canvasPos = screenToCanvas(e.clientX, e.clientY);
     
-    // Handle different types of dropped content
+    // Handle different types of dropped content. Each drop creates its node with
+    // the content in one action, so a single undo removes it.
     if (e.dataTransfer.files.length > 0) {
       // Handle file drops (images)
       const file = e.dataTransfer.files[0];
@@ -313,19 +389,11 @@ export function InfiniteCanvas() {
         const reader = new FileReader();
         reader.onload = (event) => {
           const imageUrl = event.target?.result as string;
-          addNode(canvasPos.x, canvasPos.y);
-          // Update the newly created node with image content
-          const newNodes = useCanvasStore.getState().nodes;
-          const newNode = newNodes[newNodes.length - 1];
-          if (newNode) {
-            useCanvasStore.getState().updateNode(newNode.id, {
-              content: {
-                type: 'image',
-                value: imageUrl,
-                title: file.name.replace(/\.[^/.]+$/, "")
-              }
-            });
-          }
+          addNode(canvasPos.x, canvasPos.y, {
+            type: 'image',
+            value: imageUrl,
+            title: file.name.replace(/\.[^/.]+$/, "")
+          });
         };
         reader.readAsDataURL(file);
       }
@@ -341,48 +409,27 @@ export function InfiniteCanvas() {
           const url = droppedText.startsWith('http') ? droppedText : `https://${droppedText}`;
           const domain = new URL(url).hostname.replace('www.', '');
           
-          addNode(canvasPos.x, canvasPos.y);
-          const newNodes = useCanvasStore.getState().nodes;
-          const newNode = newNodes[newNodes.length - 1];
-          if (newNode) {
-            useCanvasStore.getState().updateNode(newNode.id, {
-              content: {
-                type: 'link',
-                value: url,
-                title: domain,
-                links: [{ url: url, title: domain }]
-              }
-            });
-          }
+          addNode(canvasPos.x, canvasPos.y, {
+            type: 'link',
+            value: url,
+            title: domain,
+            links: [{ url: url, title: domain }]
+          });
         } catch {
           // If URL parsing fails, treat as text
-          addNode(canvasPos.x, canvasPos.y);
-          const newNodes = useCanvasStore.getState().nodes;
-          const newNode = newNodes[newNodes.length - 1];
-          if (newNode) {
-            useCanvasStore.getState().updateNode(newNode.id, {
-              content: {
-                type: 'text',
-                value: droppedText,
-                title: droppedText.substring(0, 50) + (droppedText.length > 50 ? '...' : '')
-              }
-            });
-          }
+          addNode(canvasPos.x, canvasPos.y, {
+            type: 'text',
+            value: textToHtml(droppedText),
+            title: droppedText.substring(0, 50) + (droppedText.length > 50 ? '...' : '')
+          });
         }
       } else {
         // Regular text
-        addNode(canvasPos.x, canvasPos.y);
-        const newNodes = useCanvasStore.getState().nodes;
-        const newNode = newNodes[newNodes.length - 1];
-        if (newNode) {
-          useCanvasStore.getState().updateNode(newNode.id, {
-            content: {
-              type: 'text',
-              value: droppedText,
-              title: droppedText.substring(0, 50) + (droppedText.length > 50 ? '...' : '')
-            }
-          });
-        }
+        addNode(canvasPos.x, canvasPos.y, {
+          type: 'text',
+          value: textToHtml(droppedText), // Text nodes hold HTML, so dropped markup stays text
+          title: droppedText.substring(0, 50) + (droppedText.length > 50 ? '...' : '')
+        });
       }
     }
   };
@@ -518,6 +565,20 @@ export function InfiniteCanvas() {
     }
   }, [handleWheel]);
 
+  // Track the canvas size for viewport culling and camera moves
+  useEffect(() => {
+    const updateViewportSize = () => {
+      const canvas = canvasRef.current;
+      if (canvas) {
+        setViewportSize({ width: canvas.clientWidth, height: canvas.clientHeight });
+      }
+    };
+
+    updateViewportSize();
+    window.addEventListener('resize', updateViewportSize);
+    return () => window.removeEventListener('resize', updateViewportSize);
+  }, [setViewportSize]);
+
   // Handle ESC key to cancel connection
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -526,11 +587,15 @@ export function InfiniteCanvas() {
         setConnectingFromPoint('center');
         setPreviewConnection(null);
       }
+      if (e.key === 'Escape' && isDrawingFrame) {
+        setFrameDraft(null);
+        setDrawingFrame(false);
+      }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isConnecting, setConnecting]);
+  }, [isConnecting, setConnecting, isDrawingFrame, setDrawingFrame]);
 
   // Listen for multi-select context menu events from keyboard shortcuts
   useEffect(() => {
@@ -559,6 +624,11 @@ export function InfiniteCanvas() {
           setHighlightedGroup(null);
         } else {
           setHighlightedGroup(groupId);
+          // Bring the whole group into view
+          const memberIds = useCanvasStore.getState().nodes
+            .filter(node => node.groupId === groupId)
+            .map(node => node.id);
+          zoomToNodes(memberIds);
         }
         
         // Auto-clear highlight after 5 seconds
@@ -570,15 +640,40 @@ export function InfiniteCanvas() {
 
     window.addEventListener('highlightGroup', handleHighlightGroup);
     return () => window.removeEventListener('highlightGroup', handleHighlightGroup);
-  }, [highlightedGroupId, setHighlightedGroup]);
+  }, [highlightedGroupId, setHighlightedGroup, zoomToNodes]);
+
+  const groupColors = useMemo(() => new Map(groups.map(group => [group.id, group.color])), [groups]);
+
+  // Only mount nodes and connections near the viewport. Selected nodes always stay
+  // mounted so a drag, resize or edit survives them leaving the screen.
+  const visibleBounds = getVisibleBounds(transform, viewportSize, CULLING_OVERSCAN);
+  const nodesInView = getNodesInRect(visibleBounds);
+  const inView = new Set(nodesInView.map(node => node.id));
+  const pinnedIds = new Set([selectedNodeId, ...selectedNodeIds, connectingFromNodeId]);
+  const visibleNodes = [...nodesInView];
+  pinnedIds.forEach(id => {
+    const node = id && !inView.has(id) ? getNodeById(id) : undefined;
+    if (node) visibleNodes.push(node);
+  });
+  const visibleConnections = connections
+    .map(connection => ({
+      connection,
+      fromNode: getNodeById(connection.fromNodeId),
+      toNode: getNodeById(connection.toNodeId),
+    }))
+    .filter(({ fromNode, toNode }) =>
+      fromNode && toNode && rectsIntersect(unionRects(nodeRect(fromNode), nodeRect(toNode)), visibleBounds)
+    );
+  const showCards = transform.scale < CARD_ZOOM_THRESHOLD;
 
   return (
     <>
       <div
         ref={canvasRef}
         data-infinite-canvas
+        data-canvas-viewport
         className="w-full h-full overflow-hidden bg-gray-50 dark:bg-[#1B1D1E] cursor-grab relative"
-        style={{ cursor: isPanning ? 'grabbing' : isConnecting ? 'crosshair' : 'grab' }}
+        style={{ cursor: isPanning ? 'grabbing' : isConnecting || isDrawingFrame ? 'crosshair' : 'grab' }}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -621,29 +716,43 @@ export function InfiniteCanvas() {
             height: '100%'
           }}
         >
+          {/* Presentation frames */}
+          {!presentation && frames.map((frame, index) => (
+            rectsIntersect(nodeRect(frame), visibleBounds) && (
+              <FrameOutline key={frame.id} frame={frame} index={index} scale={transform.scale} />
+            )
+          ))}
+
+          {/* Frame being drawn */}
+          {frameDraft && (
+            <div
+              className="absolute border-dashed border-violet-500 bg-violet-500/10 pointer-events-none"
+              style={{
+                left: Math.min(frameDraft.startX, frameDraft.endX),
+                top: Math.min(frameDraft.startY, frameDraft.endY),
+                width: Math.abs(frameDraft.endX - frameDraft.startX),
+                height: Math.abs(frameDraft.endY - frameDraft.startY),
+                borderWidth: 2 / transform.scale,
+              }}
+            />
+          )}
+
           {/* Render connections */}
-          {connections.map(connection => {
-            const fromNode = nodes.find(n => n.id === connection.fromNodeId);
-            const toNode = nodes.find(n => n.id === connection.toNodeId);
-            
-            if (!fromNode || !toNode) return null;
-            
-            return (
-              <Connection
-                key={connection.id}
-                connection={connection}
-                fromNode={fromNode}
-                toNode={toNode}
-                transform={transform}
-              />
-            );
-          })}
+          {visibleConnections.map(({ connection, fromNode, toNode }) => (
+            <Connection
+              key={connection.id}
+              connection={connection}
+              fromNode={fromNode!}
+              toNode={toNode!}
+              transform={transform}
+            />
+          ))}
 
           {/* Render preview connection line while in connecting mode */}
           {isConnecting && connectingFromNodeId && previewConnection && (
             <svg className="absolute inset-0 pointer-events-none" style={{ width: '100%', height: '100%', overflow: 'visible' }}>
               {(() => {
-                const fromNode = nodes.find(n => n.id === connectingFromNodeId);
+                const fromNode = getNodeById(connectingFromNodeId);
                 if (!fromNode) return null;
                 
                 const startPoint = getConnectionPoint(fromNode, connectingFromPoint);
@@ -705,10 +814,11 @@ export function InfiniteCanvas() {
           )}
 
           {/* Render nodes */}
-          {nodes.map(node => {
+          {visibleNodes.map(node => {
             // Calculate highlight effect
             const isHighlighted = highlightedGroupId && node.groupId === highlightedGroupId;
             const shouldDim = highlightedGroupId && node.groupId !== highlightedGroupId;
+            const isSelected = node.id === selectedNodeId || selectedNodeIds.includes(node.id);
             
             return (
               <div 
@@ -722,15 +832,25 @@ export function InfiniteCanvas() {
                   filter: isHighlighted ? 'drop-shadow(0 0 12px rgba(59, 130, 246, 0.6))' : 'none',
                 }}
               >
-                <CanvasNode
-                  node={node}
-                  isSelected={node.id === selectedNodeId || selectedNodeIds.includes(node.id)}
-                  transform={transform}
-                  onStartConnection={handleStartConnection}
-                  onCompleteConnection={handleCompleteConnection}
-                  isConnectionTarget={isConnecting && connectingFromNodeId !== node.id}
-                  isConnecting={isConnecting}
-                />
+                {showCards && !isSelected ? (
+                  <NodeCard
+                    node={node}
+                    groupColor={node.groupId ? groupColors.get(node.groupId) : undefined}
+                    scale={transform.scale}
+                    onCompleteConnection={handleCompleteConnection}
+                    isConnectionTarget={isConnecting && connectingFromNodeId !== node.id}
+                  />
+                ) : (
+                  <CanvasNode
+                    node={node}
+                    isSelected={isSelected}
+                    transform={transform}
+                    onStartConnection={handleStartConnection}
+                    onCompleteConnection={handleCompleteConnection}
+                    isConnectionTarget={isConnecting && connectingFromNodeId !== node.id}
+                    isConnecting={isConnecting}
+                  />
+                )}
               </div>
             );
           })}
@@ -750,8 +870,8 @@ export function InfiniteCanvas() {
         </div>
 
         {/* Zoom and Fit Controls - Desktop only */}
-        {!isMobile && (
-          <div className="absolute top-4 left-4 flex flex-col gap-2">
+        {!isMobile && !presentation && (
+          <div className="absolute top-4 left-4 flex flex-col gap-2" data-export-ignore>
             <button
               onClick={handleFitToScreen}
               className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg p-2 shadow-lg hover:bg-white dark:hover:bg-gray-700 transition-colors text-gray-900 dark:text-gray-100"
@@ -773,12 +893,31 @@ export function InfiniteCanvas() {
             >
               <Minus size={18} />
             </button>
+            <button
+              onClick={viewportBack}
+              disabled={viewportHistory.past.length === 0}
+              className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg p-2 shadow-lg hover:bg-white dark:hover:bg-gray-700 transition-colors text-gray-900 dark:text-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Previous View (Alt+←)"
+            >
+              <ArrowLeft size={18} />
+            </button>
+            <button
+              onClick={viewportForward}
+              disabled={viewportHistory.future.length === 0}
+              className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg p-2 shadow-lg hover:bg-white dark:hover:bg-gray-700 transition-colors text-gray-900 dark:text-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Next View (Alt+→)"
+            >
+              <ArrowRight size={18} />
+            </button>
           </div>
         )}
 
+        {/* Minimap - Desktop only */}
+        {!isMobile && !presentation && <Minimap />}
+
         {/* Mobile Undo/Redo Controls - Top left */}
-        {isMobile && (
-          <div className="absolute top-4 left-4 flex gap-2">
+        {isMobile && !presentation && (
+          <div className="absolute top-4 left-4 flex gap-2" data-export-ignore>
             <button
               onClick={undo}
               disabled={history.past.length === 0}
@@ -802,7 +941,7 @@ export function InfiniteCanvas() {
 
         {/* Connection mode indicator */}
         {isConnecting && (
-          <div className="absolute top-18 left-1/2 transform -translate-x-1/2 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg">
+          <div className="absolute top-18 left-1/2 transform -translate-x-1/2 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg" data-export-ignore>
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
               Connection Mode Active - Click target node to connect
@@ -810,6 +949,16 @@ export function InfiniteCanvas() {
           </div>
         )}
 
+        {/* Frame drawing indicator */}
+        {isDrawingFrame && (
+          <div className="absolute top-18 left-1/2 transform -translate-x-1/2 bg-violet-500 text-white px-4 py-2 rounded-lg shadow-lg pointer-events-none" data-export-ignore>
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+              Drag to draw a frame - ESC to cancel
+            </div>
+          </div>
+        )}
+
 
       </div>
 
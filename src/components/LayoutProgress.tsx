@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { useCanvasStore } from '../store/canvasStore';
+import { LAYOUT_LABELS } from '../store/layout';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { Loader2, X } from 'lucide-react';
+
+export function LayoutProgress() {
+  const { layoutProgress, cancelLayout } = useCanvasStore();
+  const isRunning = layoutProgress !== null;
+
+  // Escape cancels the running layout and puts the nodes back
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        cancelLayout();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isRunning, cancelLayout]);
+
+  if (!layoutProgress) return null;
+
+  return (
+    <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 z-50">
+      <div className="flex items-center gap-3 bg-white dark:bg-gray-800 border rounded-lg px-3 py-2 shadow-lg min-w-[280px]">
+        <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+        <div className="flex-1 space-y-1">
+          <div className="text-xs text-gray-600 dark:text-gray-300">
+            Arranging {layoutProgress.nodeCount} nodes ({LAYOUT_LABELS[layoutProgress.layout]})
+          </div>
+          <Progress value={Math.round(layoutProgress.progress * 100)} className="h-1.5" />
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          onClick={cancelLayout}
+          title="Cancel (Esc)"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
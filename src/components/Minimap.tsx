@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useCanvasStore } from '../store/canvasStore';
+import { getVisibleBounds, unionRects, type Rect } from '../utils/viewport';
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 8; // Pixels kept free around the drawing
+const DEFAULT_NODE_COLOR = '#9ca3af';
+
+// Placement of the canvas area on the minimap
+interface MinimapProjection {
+  bounds: Rect;
+  scale: number; // Minimap pixels per canvas unit
+  offsetX: number;
+  offsetY: number;
+}
+
+const projectBounds = (bounds: Rect): MinimapProjection => {
+  const width = Math.max(1, bounds.maxX - bounds.minX);
+  const height = Math.max(1, bounds.maxY - bounds.minY);
+  const scale = Math.min(
+    (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / width,
+    (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / height,
+  );
+  return {
+    bounds,
+    scale,
+    offsetX: (MINIMAP_WIDTH - width * scale) / 2,
+    offsetY: (MINIMAP_HEIGHT - height * scale) / 2,
+  };
+};
+
+/**
+ * Overview of the whole board in the corner of the canvas. Nodes are drawn in
+ * their group colors on a <canvas>, so large boards stay cheap to redraw, and
+ * the current viewport is a rectangle that can be clicked or dragged to pan.
+ */
+export function Minimap() {
+  const { nodes, groups, transform, viewportSize, setTransform } = useCanvasStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // While dragging, the map keeps its scale so the viewport moves under the pointer instead of the map shifting
+  const frozenProjection = useRef<MinimapProjection | null>(null);
+  const dragOffset = useRef<{ x: number; y: number } | null>(null);
+
+  const nodeBounds = useMemo(() => {
+    if (nodes.length === 0) return null;
+    return nodes.reduce<Rect>((bounds, node) => ({
+      minX: Math.min(bounds.minX, node.x),
+      minY: Math.min(bounds.minY, node.y),
+      maxX: Math.max(bounds.maxX, node.x + node.width),
+      maxY: Math.max(bounds.maxY, node.y + node.height),
+    }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+  }, [nodes]);
+
+  const viewport = getVisibleBounds(transform, viewportSize);
+  const projection = frozenProjection.current ??
+    projectBounds(nodeBounds ? unionRects(nodeBounds, viewport) : viewport);
+
+  const groupColors = useMemo(() => new Map(groups.map(group => [group.id, group.color])), [groups]);
+
+  // Redraw once per animation frame at most
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = MINIMAP_WIDTH * pixelRatio;
+      canvas.height = MINIMAP_HEIGHT * pixelRatio;
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      context.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+      const { bounds, scale, offsetX, offsetY } = projection;
+      const toMapX = (x: number) => offsetX + (x - bounds.minX) * scale;
+      const toMapY = (y: number) => offsetY + (y - bounds.minY) * scale;
+
+      nodes.forEach(node => {
+        context.fillStyle = (node.groupId && groupColors.get(node.groupId)) || DEFAULT_NODE_COLOR;
+        context.fillRect(
+          toMapX(node.x),
+          toMapY(node.y),
+          Math.max(1.5, node.width * scale),
+          Math.max(1.5, node.height * scale),
+        );
+      });
+
+      const viewX = toMapX(viewport.minX);
+      const viewY = toMapY(viewport.minY);
+      const viewWidth = (viewport.maxX - viewport.minX) * scale;
+      const viewHeight = (viewport.maxY - viewport.minY) * scale;
+      context.fillStyle = 'rgba(59, 130, 246, 0.12)';
+      context.fillRect(viewX, viewY, viewWidth, viewHeight);
+      context.strokeStyle = '#3b82f6';
+      context.lineWidth = 1.5;
+      context.strokeRect(viewX, viewY, viewWidth, viewHeight);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  // Canvas position under a pointer event
+  const toCanvasPoint = (e: React.PointerEvent, { bounds, scale, offsetX, offsetY }: MinimapProjection) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: bounds.minX + (e.clientX - rect.left - offsetX) / scale,
+      y: bounds.minY + (e.clientY - rect.top - offsetY) / scale,
+    };
+  };
+
+  // Pan so the viewport's top-left corner lands on the given canvas position
+  const moveViewportTo = (x: number, y: number) => {
+    setTransform({ x: -x * transform.scale, y: -y * transform.scale });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    frozenProjection.current = projection;
+
+    const point = toCanvasPoint(e, projection);
+    const insideViewport = point.x >= viewport.minX && point.x <= viewport.maxX &&
+                           point.y >= viewport.minY && point.y <= viewport.maxY;
+
+    if (insideViewport) {
+      // Grab the viewport where it was clicked
+      dragOffset.current = { x: point.x - viewport.minX, y: point.y - viewport.minY };
+    } else {
+      // Jump so the viewport is centered on the click, then keep dragging from its center
+      dragOffset.current = { x: (viewport.maxX - viewport.minX) / 2, y: (viewport.maxY - viewport.minY) / 2 };
+      moveViewportTo(point.x - dragOffset.current.x, point.y - dragOffset.current.y);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragOffset.current || !frozenProjection.current) return;
+    const point = toCanvasPoint(e, frozenProjection.current);
+    moveViewportTo(point.x - dragOffset.current.x, point.y - dragOffset.current.y);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    dragOffset.current = null;
+    frozenProjection.current = null;
+  };
+
+  return (
+    <div
+      data-export-ignore
+      className="absolute bottom-4 right-24 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.stopPropagation()}
+    >
+      <canvas
+        ref={canvasRef}
+        style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT, touchAction: 'none' }}
+        className="block cursor-pointer"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        title="Minimap: click or drag to move around"
+      />
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Save, FolderOpen, Upload, Settings, ChevronDown, ChevronRight, Edit2, C
 import { GroupDialog } from './GroupDialog';
 import { SettingsPanel } from './SettingsPanel';
 import { toast } from 'sonner@2.0.3';
+import { summarizeImportReport, type CanvasImportReport } from '../store/canvasSchema';
 
 export function MobileToolbar() {
   const {
@@ -97,10 +98,24 @@ export function MobileToolbar() {
     }
   };
 
+  const showImportReport = (report: CanvasImportReport, source: string) => {
+    if (!report.success) {
+      toast.error(`Import failed: ${summarizeImportReport(report)}`);
+    } else if (report.issues.length > 0) {
+      console.warn(`Issues while importing ${source}:`, report.issues);
+      toast.warning(summarizeImportReport(report), { duration: 8000 });
+    } else {
+      toast.success(`Canvas imported from ${source}`);
+    }
+  };
+
   const handleImport = () => {
     if (importData.trim()) {
-      importCanvas(importData);
-      setImportData('');
+      const report = importCanvas(importData);
+      showImportReport(report, 'pasted JSON');
+      if (report.success) {
+        setImportData('');
+      }
     }
   };
 
@@ -113,14 +128,9 @@ export function MobileToolbar() {
     if (file && file.type === 'application/json') {
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          JSON.parse(content);
-          importCanvas(content);
-          toast.success(`Canvas imported from ${file.name}`);
-        } catch (error) {
-          toast.error('Invalid JSON file. Please select a valid canvas export file.');
-        }
+        const content = e.target?.result as string;
+        // importCanvas validates the file and reports what was wrong with it
+        showImportReport(importCanvas(content), file.name);
       };
       reader.readAsText(file);
     } else {
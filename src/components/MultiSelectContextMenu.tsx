@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Users, UserX, Trash2, Plus, Sparkles, Zap } from 'lucide-react';
+import { Users, UserX, Trash2, Plus, Sparkles, Zap, LayoutGrid, Network, GitFork, Orbit, Atom, Focus } from 'lucide-react';
 import { useCanvasStore } from '../store/canvasStore';
+import type { LayoutType } from '../store/layout';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Input } from './ui/input';
@@ -22,7 +23,9 @@ export function MultiSelectContextMenu({ x, y, selectedNodeIds, onClose }: Multi
     deleteNodes, 
     addGroup,
     summarizeGroup,
-    suggestGroupNames 
+    suggestGroupNames,
+    autoOrganizeNodes,
+    zoomToNodes
   } = useCanvasStore();
   
   const [showNewGroupDialog, setShowNewGroupDialog] = useState(false);
@@ -75,6 +78,24 @@ export function MultiSelectContextMenu({ x, y, selectedNodeIds, onClose }: Multi
     onClose();
   };
 
+  const handleZoomToSelection = () => {
+    zoomToNodes(selectedNodeIds);
+    onClose();
+  };
+
+  const handleLayout = (layout: LayoutType) => {
+    autoOrganizeNodes(layout);
+    onClose();
+  };
+
+  const layouts: { type: LayoutType; label: string; icon: typeof LayoutGrid }[] = [
+    { type: 'grid', label: 'Grid', icon: LayoutGrid },
+    { type: 'mindmap', label: 'Mind Map', icon: Network },
+    { type: 'tree', label: 'Org Chart', icon: GitFork },
+    { type: 'radial', label: 'Radial', icon: Orbit },
+    { type: 'force', label: 'Force-directed', icon: Atom },
+  ];
+
   const colors = [
     '#3b82f6', // Blue
     '#f87171', // Red/Coral
@@ -219,6 +240,31 @@ export function MultiSelectContextMenu({ x, y, selectedNodeIds, onClose }: Multi
 
         <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
 
+        {/* Layouts */}
+        <div className="px-2 py-1 text-sm text-gray-600 dark:text-gray-300">
+          Arrange as:
+        </div>
+        {layouts.map(({ type, label, icon: Icon }) => (
+          <button
+            key={type}
+            onClick={() => handleLayout(type)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-left text-gray-900 dark:text-gray-100"
+          >
+            <Icon className="w-4 h-4 text-blue-500" />
+            {label}
+          </button>
+        ))}
+
+        <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
+
+        <button
+          onClick={handleZoomToSelection}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-left text-gray-900 dark:text-gray-100"
+        >
+          <Focus className="w-4 h-4" />
+          Zoom to Selection
+        </button>
+
         {/* Delete nodes */}
         <button
           onClick={handleDeleteNodes}
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { Node, useCanvasStore } from '../store/canvasStore';
+import { htmlToText } from '../utils/html';
+import { Image, Link, Video, MessageCircle } from 'lucide-react';
+
+interface NodeCardProps {
+  node: Node;
+  groupColor?: string;
+  scale: number;
+  onCompleteConnection: (nodeId: string) => void;
+  isConnectionTarget: boolean;
+}
+
+/**
+ * Simplified stand-in for CanvasNode when the canvas is zoomed far out: a
+ * colored card with the node's title or the start of its text. No editor or
+ * media are mounted, so thousands of cards stay cheap to pan. Cards can still
+ * be dragged and connected to; clicks, taps and the context menu are handled
+ * by the canvas around them, and selecting a card shows the full node.
+ */
+export const NodeCard = React.memo(function NodeCard({ node, groupColor, scale, onCompleteConnection, isConnectionTarget }: NodeCardProps) {
+  const updateNode = useCanvasStore(state => state.updateNode);
+
+  const label = useMemo(() => {
+    if (node.content.title) return node.content.title;
+    if (node.content.type === 'text') return htmlToText(node.content.value).slice(0, 120);
+    if (node.content.type === 'link') return node.content.links?.[0]?.title || node.content.value;
+    return '';
+  }, [node.content]);
+
+  const Icon = node.content.type === 'image' ? Image
+    : node.content.type === 'video' ? Video
+    : node.content.type === 'link' ? Link
+    : null;
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isConnectionTarget) {
+      e.preventDefault();
+      e.stopPropagation();
+      onCompleteConnection(node.id);
+      return;
+    }
+    // Other buttons and Alt pan the canvas
+    if (e.button !== 0 || e.altKey) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    const dragStart = { x: e.clientX - node.x * scale, y: e.clientY - node.y * scale };
+    const handleMouseMove = (event: MouseEvent) => {
+      updateNode(node.id, { x: (event.clientX - dragStart.x) / scale, y: (event.clientY - dragStart.y) / scale });
+    };
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // White is the default fill, which follows the theme like full nodes do
+  const hasFill = node.color && node.color.toLowerCase() !== '#ffffff';
+
+  return (
+    <div
+      className={`absolute rounded-lg border-2 shadow-sm overflow-hidden p-3 select-none ${
+        hasFill ? '' : 'bg-white dark:bg-gray-800'
+      } ${isConnectionTarget ? 'ring-2 ring-blue-400 ring-opacity-50 cursor-pointer' : 'cursor-move'}`}
+      style={{
+        left: node.x,
+        top: node.y,
+        width: node.width,
+        height: node.height,
+        borderColor: groupColor || '#d1d5db',
+        ...(hasFill ? { backgroundColor: node.color } : {}),
+      }}
+      onMouseDown={handleMouseDown}
+    >
+      {Icon && <Icon className="w-10 h-10 text-gray-400 mb-2" />}
+      <div className="text-2xl font-medium leading-tight text-gray-900 dark:text-gray-100 line-clamp-3 break-words">
+        {label}
+      </div>
+      {node.comment && (
+        <MessageCircle className="absolute bottom-2 right-2 w-6 h-6 text-gray-400" />
+      )}
+    </div>
+  );
+});
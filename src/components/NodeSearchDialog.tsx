@@ -14,7 +14,7 @@ interface NodeSearchDialogProps {
 }
 
 export function NodeSearchDialog({ open, onOpenChange }: NodeSearchDialogProps) {
-  const { nodes, setViewport, selectNode, clearSelection } = useCanvasStore();
+  const { nodes, centerOnNode, selectNode, clearSelection } = useCanvasStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDate, setSelectedDate] = useState<string>('');
 
@@ -90,11 +90,7 @@ export function NodeSearchDialog({ open, onOpenChange }: NodeSearchDialogProps)
     selectNode(node.id);
     
     // Center the viewport on the node
-    setViewport({
-      x: -node.x + window.innerWidth / 2,
-      y: -node.y + window.innerHeight / 2,
-      scale: 1
-    });
+    centerOnNode(node.id, { scale: 1 });
     
     // Close the dialog
     onOpenChange(false);
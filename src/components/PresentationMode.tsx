@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useCanvasStore } from '../store/canvasStore';
+import { Button } from './ui/button';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+// The slide controls hide after the pointer has been still this long
+const CONTROLS_HIDE_DELAY = 2500;
+
+/**
+ * Fullscreen slideshow over the canvas. It steps through the frames with the
+ * camera, blocks editing while it runs and takes over the keyboard, so the
+ * app's shortcuts don't fire on top of the slides.
+ */
+export function PresentationMode() {
+  const { presentation, frames, viewportSize, goToFrame, stopPresentation } = useCanvasStore();
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isPresenting = presentation !== null;
+  const frameIndex = presentation?.frameIndex ?? 0;
+
+  // Go fullscreen for the duration, and end the presentation when fullscreen is left
+  useEffect(() => {
+    if (!isPresenting) return;
+
+    let ended = false;
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) stopPresentation();
+    };
+
+    document.documentElement.requestFullscreen?.()
+      .then(() => {
+        if (!ended) document.addEventListener('fullscreenchange', handleFullscreenChange);
+      })
+      .catch(() => {
+        // Fullscreen can be refused; the slides still fill the window
+      });
+
+    return () => {
+      ended = true;
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, [isPresenting, stopPresentation]);
+
+  // Refit the current frame when the screen size changes, e.g. on entering fullscreen
+  useEffect(() => {
+    if (isPresenting) goToFrame(useCanvasStore.getState().presentation!.frameIndex);
+  }, [isPresenting, viewportSize.width, viewportSize.height, goToFrame]);
+
+  useEffect(() => {
+    if (!isPresenting) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Capture phase, so no other shortcut sees the key while presenting
+      e.stopPropagation();
+      const current = useCanvasStore.getState().presentation?.frameIndex ?? 0;
+
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+          e.preventDefault();
+          goToFrame(current + 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+          e.preventDefault();
+          goToFrame(current - 1);
+          break;
+        case 'Home':
+          e.preventDefault();
+          goToFrame(0);
+          break;
+        case 'End':
+          e.preventDefault();
+          goToFrame(Number.MAX_SAFE_INTEGER);
+          break;
+        case 'Escape':
+          e.preventDefault();
+          stopPresentation();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isPresenting, goToFrame, stopPresentation]);
+
+  useEffect(() => () => {
+    if (hideTimer.current) clearTimeout(hideTimer.current);
+  }, []);
+
+  if (!presentation) return null;
+
+  const showControls = () => {
+    setControlsVisible(true);
+    if (hideTimer.current) clearTimeout(hideTimer.current);
+    hideTimer.current = setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_DELAY);
+  };
+
+  const frame = frames[frameIndex];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] cursor-pointer"
+      onMouseMove={showControls}
+      onClick={() => goToFrame(frameIndex + 1)}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        goToFrame(frameIndex - 1);
+      }}
+    >
+      <div
+        className={`absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-gray-900/80 text-white rounded-full px-3 py-1.5 shadow-lg transition-opacity duration-300 cursor-default ${controlsVisible ? 'opacity-100' : 'opacity-0'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0 text-white hover:bg-white/20 hover:text-white"
+          onClick={() => goToFrame(frameIndex - 1)}
+          disabled={frameIndex === 0}
+          title="Previous (←)"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-sm tabular-nums min-w-[3rem] text-center">
+          {frameIndex + 1} / {frames.length}
+        </span>
+        {frame && <span className="text-sm text-white/80 max-w-[240px] truncate">{frame.name}</span>}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0 text-white hover:bg-white/20 hover:text-white"
+          onClick={() => goToFrame(frameIndex + 1)}
+          disabled={frameIndex === frames.length - 1}
+          title="Next (→)"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <div className="w-px h-4 bg-white/30" />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0 text-white hover:bg-white/20 hover:text-white"
+          onClick={stopPresentation}
+          title="End presentation (Esc)"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,12 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Settings, User, Palette, Monitor, Sun, Moon, Save, ChevronUp, ChevronDown } from 'lucide-react';
+import { Settings, User, Palette, Monitor, Sun, Moon, Save, ChevronUp, ChevronDown, History } from 'lucide-react';
 import { useCanvasStore } from '../store/canvasStore';
 import { toast } from 'sonner@2.0.3';
 
 export function SettingsPanel() {
-  const { settings, updateSettings, setTheme } = useCanvasStore();
+  const { settings, updateSettings, setTheme, setHistoryLimit } = useCanvasStore();
   
   const [tempProfile, setTempProfile] = useState({
     username: settings.profile.username,
@@ -29,6 +29,13 @@ export function SettingsPanel() {
     toast.success('Profile updated successfully');
   };
 
+  const handleHistoryLimitChange = (value: string) => {
+    setHistoryLimit(Number(value));
+    toast.success(`Undo history limited to ${value} steps`);
+  };
+
+  const historyLimitOptions = ['25', '50', '100', '200', '500'];
+
   const themeOptions = [
     { value: 'light', label: 'Light', icon: <Sun className="w-4 h-4" /> },
     { value: 'dark', label: 'Dark', icon: <Moon className="w-4 h-4" /> },
@@ -94,6 +101,36 @@ export function SettingsPanel() {
               </div>
             </div>
 
+            {/* Editing Settings Section */}
+            <div>
+              <h3 className="font-medium text-base mb-3 flex items-center gap-2">
+                <div className="w-6 h-6 bg-orange-100 rounded-full flex items-center justify-center">
+                  <History className="w-3 h-3 text-orange-600" />
+                </div>
+                Editing
+              </h3>
+              <div className="space-y-3 ml-8">
+                <div className="space-y-2">
+                  <Label htmlFor="history-limit-select">Undo History</Label>
+                  <Select value={String(settings.historyLimit)} onValueChange={handleHistoryLimitChange}>
+                    <SelectTrigger id="history-limit-select" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {historyLimitOptions.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option} steps
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Older steps are discarded once the limit is reached
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Profile Settings Section */}
             <div>
               <h3 className="font-medium text-base mb-3 flex items-center gap-2">
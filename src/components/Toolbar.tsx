@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { useCanvasStore } from '../store/canvasStore';
+import { useCanvasStore, type ExportContent, type ExportScope } from '../store/canvasStore';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 
@@ -7,15 +7,63 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
-import { Save, FolderOpen, Plus, Palette, Undo, Redo, Upload, Settings, Search, Edit2, Check, X, Zap, Users } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Checkbox } from './ui/checkbox';
+import { Save, FolderOpen, Plus, Palette, Undo, Redo, Upload, Settings, Search, Edit2, Check, X, Zap, Users, LayoutGrid, Presentation, FolderTree } from 'lucide-react';
 import { GroupDialog } from './GroupDialog';
 import { SettingsPanel } from './SettingsPanel';
 import { NodeSearchDialog } from './NodeSearchDialog';
 import { CollaborationPanel } from './CollaborationPanel';
+import { CanvasLibraryDialog } from './CanvasLibraryDialog';
+import { FramesPanel } from './FramesPanel';
+import { CsvImportDialog } from './CsvImportDialog';
 
 import { toast } from 'sonner@2.0.3';
-import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
+import { summarizeImportReport, type CanvasImportReport } from '../store/canvasSchema';
+import { buildCanvasScene, embedSceneImages } from '../utils/canvasScene';
+import { sceneToSvg, rasterizeSvg } from '../utils/svgExport';
+import { scenesToPdf } from '../utils/pdfExport';
+import { downloadBlob } from '../utils/download';
+import { canvasToMarkdown } from '../utils/markdown';
+import { canvasToOpml } from '../utils/opml';
+import { canvasToFreeMind } from '../utils/freemind';
+import { canvasToJsonCanvas } from '../utils/jsonCanvas';
+import { canvasToDot, canvasToMermaid } from '../utils/diagram';
+import { canvasToHtml } from '../utils/htmlExport';
+import { BUNDLE_EXTENSION, createCanvasBundle, readCanvasBundle } from '../utils/bundle';
+import { readNotesArchive, readNotesFolder, type NoteFile } from '../utils/notes';
+import {
+  IMPORT_FILE_ACCEPT,
+  importFileToCanvasFile,
+  importTextToCanvasFile,
+  isCanvasJson,
+  isNotesArchive,
+  isSpreadsheetFile,
+  notesToCanvasFile,
+  spreadsheetToCanvasFile,
+} from '../utils/importFormats';
+import type { CanvasFragment } from '../store/canvasMerge';
+
+// Scopes are kept as strings for the Select: 'canvas', 'selection', 'viewport' or 'group:<id>'
+const toExportScope = (value: string): ExportScope =>
+  value.startsWith('group:')
+    ? { type: 'group', groupId: value.slice('group:'.length) }
+    : { type: value as 'canvas' | 'selection' | 'viewport' };
+
+// Text formats written straight from the export content
+const TEXT_EXPORTS = {
+  html: { label: 'Interactive HTML page', extension: 'html', mimeType: 'text/html;charset=utf-8', convert: canvasToHtml },
+  jsoncanvas: { label: 'JSON Canvas', extension: 'canvas', mimeType: 'application/json', convert: (_name: string, content: ExportContent) => canvasToJsonCanvas(content) },
+  markdown: { label: 'Markdown outline', extension: 'md', mimeType: 'text/markdown;charset=utf-8', convert: canvasToMarkdown },
+  opml: { label: 'OPML outline', extension: 'opml', mimeType: 'text/x-opml;charset=utf-8', convert: canvasToOpml },
+  freemind: { label: 'FreeMind mind map', extension: 'mm', mimeType: 'application/xml;charset=utf-8', convert: canvasToFreeMind },
+  mermaid: { label: 'Mermaid flowchart', extension: 'mmd', mimeType: 'text/plain;charset=utf-8', convert: canvasToMermaid },
+  dot: { label: 'Graphviz DOT graph', extension: 'dot', mimeType: 'text/vnd.graphviz;charset=utf-8', convert: canvasToDot },
+};
+
+type TextFormat = keyof typeof TEXT_EXPORTS;
+
+const isTextFormat = (format: string): format is TextFormat => Object.hasOwn(TEXT_EXPORTS, format);
 
 export function Toolbar() {
   const {
@@ -26,7 +74,9 @@ export function Toolbar() {
     selectedNodeId,
     selectedNodeIds,
     exportCanvas,
+    getExportContent,
     importCanvas,
+    mergeCanvas,
     newCanvas,
     updateGroup,
     undo,
@@ -39,13 +89,21 @@ export function Toolbar() {
   const [saveAsOpen, setSaveAsOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [collaborationOpen, setCollaborationOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [framesOpen, setFramesOpen] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState<{ fileName: string; text: string } | null>(null);
   const [importData, setImportData] = useState('');
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+  const [matchGroupsByName, setMatchGroupsByName] = useState(true);
   const [saveAsName, setSaveAsName] = useState(canvasName);
-  const [exportFormat, setExportFormat] = useState<'json' | 'png' | 'jpeg' | 'pdf'>('json');
+  const [exportFormat, setExportFormat] = useState<'json' | 'bundle' | TextFormat | 'svg' | 'png' | 'jpeg' | 'pdf'>('json');
+  const [exportScope, setExportScope] = useState('canvas');
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
   const [editingGroupName, setEditingGroupName] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const selectedCount = selectedNodeIds.length > 0 ? selectedNodeIds.length : selectedNodeId ? 1 : 0;
 
   // Listen for close all dialogs event
   useEffect(() => {
@@ -54,352 +112,142 @@ export function Toolbar() {
       setSaveAsOpen(false);
       setCollaborationOpen(false);
       setSearchOpen(false);
+      setLibraryOpen(false);
+      setFramesOpen(false);
     };
 
     window.addEventListener('closeAllDialogs', handleCloseAllDialogs);
     return () => window.removeEventListener('closeAllDialogs', handleCloseAllDialogs);
   }, []);
 
+  // The canvas title opens the library through this event
+  useEffect(() => {
+    const handleOpenCanvasLibrary = () => setLibraryOpen(true);
+
+    window.addEventListener('openCanvasLibrary', handleOpenCanvasLibrary);
+    return () => window.removeEventListener('openCanvasLibrary', handleOpenCanvasLibrary);
+  }, []);
+
   const handleExport = () => {
     setSaveAsName(canvasName); // Pre-fill with current canvas name
+    setExportScope(selectedCount > 0 ? 'selection' : 'canvas');
     setSaveAsOpen(true);
   };
 
   const handleSaveAsConfirm = async () => {
     const filename = saveAsName.replace(/[^a-zA-Z0-9]/g, '_');
+    const scope = toExportScope(exportScope);
+    
+    if (getExportContent(scope).nodes.length === 0) {
+      toast.info(scope.type === 'canvas' ? 'The canvas is empty, there is nothing to export' : 'There are no nodes in the chosen scope');
+      return;
+    }
     
     if (exportFormat === 'json') {
-      const data = exportCanvas();
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${filename}.json`;
-      a.style.display = 'none';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const data = exportCanvas(scope);
+      downloadBlob(new Blob([data], { type: 'application/json' }), `${filename}.json`);
       toast.success('JSON data backup saved to Downloads folder!', {
         description: `File: ${filename}.json`
       });
+    } else if (exportFormat === 'bundle') {
+      const toastId = toast.loading('Packing media files...');
+      try {
+        const bundle = await createCanvasBundle(exportCanvas(scope));
+        downloadBlob(bundle, `${filename}.${BUNDLE_EXTENSION}`);
+        toast.success('IdeaScape bundle saved to Downloads folder!', {
+          id: toastId,
+          description: `File: ${filename}.${BUNDLE_EXTENSION}`
+        });
+      } catch (error) {
+        console.error('Bundle export failed:', error);
+        toast.error(`Bundle export failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { id: toastId });
+        return;
+      }
+    } else if (isTextFormat(exportFormat)) {
+      const { label, extension, mimeType, convert } = TEXT_EXPORTS[exportFormat];
+      try {
+        const text = await convert(canvasName, getExportContent(scope));
+        downloadBlob(new Blob([text], { type: mimeType }), `${filename}.${extension}`);
+        toast.success(`${label} saved to Downloads folder!`, {
+          description: `File: ${filename}.${extension}`
+        });
+      } catch (error) {
+        console.error(`${label} export failed:`, error);
+        toast.error(`${label} export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return;
+      }
     } else {
-      await handleCanvasExport(filename, exportFormat);
+      await handleCanvasExport(filename, exportFormat, scope);
     }
     
     setSaveAsOpen(false);
   };
 
-  const handleCanvasExport = async (filename: string, format: 'png' | 'jpeg' | 'pdf') => {
+  // Visual exports are drawn from the canvas data, not captured from the screen,
+  // so they include everything in scope at any zoom and stay sharp.
+  const handleCanvasExport = async (filename: string, format: 'svg' | 'png' | 'jpeg' | 'pdf', scope: ExportScope) => {
+    const toastId = toast.loading(`Preparing ${format.toUpperCase()} export...`);
     try {
-      toast.info(`Preparing ${format.toUpperCase()} export...`, { 
-        duration: 2000,
-        description: 'This may take a few seconds...'
-      });
-      
-      // Find the canvas container
-      const canvasContainer = document.querySelector('[data-infinite-canvas]') as HTMLElement;
-      if (!canvasContainer) {
-        throw new Error('Canvas container not found');
-      }
-      
-      // Get current viewport to restore later
-      const { transform, fitToScreen, setTransform } = useCanvasStore.getState();
-      const originalTransform = { ...transform };
-      
-      // For PNG/JPEG screenshots, hide all UI elements and fit to screen
-      let uiElements: HTMLElement[] = [];
-      if (format === 'png' || format === 'jpeg') {
-        // Find all UI elements to hide
-        const selectors = [
-          '.absolute.top-4.right-4', // Desktop Toolbar
-          '.absolute.top-4.left-4', // EditableTitle
-          '.fixed.bottom-4.left-4', // HelpPanel
-          '.fixed.top-4.left-4', // Mobile Toolbar
-          '.fixed.bottom-4.right-4', // Mobile Action Menu
-          '.fixed.bottom-4.left-4', // Mobile Undo/Redo
-          '.fixed.bottom-16.right-4', // Any other mobile elements
-          '.fixed', // Catch any other fixed positioned elements
-          '[data-sonner-toaster]' // Toast notifications
-        ];
-        
-        selectors.forEach(selector => {
-          const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
-          elements.forEach(element => {
-            // Skip the canvas container itself
-            if (!element.contains(canvasContainer) && element !== canvasContainer) {
-              uiElements.push(element);
-              element.style.opacity = '0';
-              element.style.pointerEvents = 'none';
-            }
-          });
-        });
-        
-        // Wait for UI to hide
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      // Fit to screen for export
-      const canvasRect = canvasContainer.getBoundingClientRect();
-      fitToScreen({ width: canvasRect.width, height: canvasRect.height });
-      
-      // Wait for the fit-to-screen to complete
-      await new Promise(resolve => setTimeout(resolve, 600));
-      
-      // Debug: Log canvas container info
-      console.log('Canvas container found:', canvasContainer);
-      console.log('Canvas container dimensions:', {
-        width: canvasContainer.offsetWidth,
-        height: canvasContainer.offsetHeight
-      });
-      
-      // Capture the canvas with clean options for screenshot
-      const canvas = await html2canvas(canvasContainer, {
-        backgroundColor: '#f3f4f6',
-        scale: 1.5, // Slightly lower scale for better compatibility
-        useCORS: true,
-        allowTaint: true,
-        foreignObjectRendering: true,
-        removeContainer: false,
-        logging: false, // Reduce console noise
-        onclone: (clonedDoc) => {
-          // Remove any remaining UI elements from the cloned document
-          const uiSelectors = [
-            '.fixed', '.absolute', '[data-sonner-toaster]', 
-            '.z-50', '.z-40', '.z-30', '.pointer-events-none'
-          ];
-          uiSelectors.forEach(selector => {
-            const elements = clonedDoc.querySelectorAll(selector);
-            elements.forEach(el => el.remove());
-          });
-        },
-        ignoreElements: (element) => {
-          // Skip problematic elements and any remaining UI
-          const classList = element.classList;
-          return classList.contains('pointer-events-none') || 
-                 element.tagName === 'SCRIPT' ||
-                 element.tagName === 'STYLE' ||
-                 element.hasAttribute('data-sonner-toaster') ||
-                 classList.contains('fixed') ||
-                 classList.contains('absolute') ||
-                 classList.contains('z-50') ||
-                 classList.contains('z-40');
-        }
-      });
-      
-      // Debug: Log canvas capture info
-      console.log('Canvas captured:', {
-        width: canvas.width,
-        height: canvas.height,
-        hasData: canvas.toDataURL().length > 1000
-      });
-      
-      // Restore original transform
-      setTransform(originalTransform);
-      
-      // Restore UI elements visibility
-      if (format === 'png' || format === 'jpeg') {
-        uiElements.forEach(element => {
-          element.style.opacity = '';
-          element.style.pointerEvents = '';
-        });
-      }
-      
+      const content = getExportContent(scope);
+      const scene = await embedSceneImages(buildCanvasScene(content.nodes, content.connections, content.groups, { area: content.area }));
+
       if (format === 'pdf') {
-        const imgData = canvas.toDataURL('image/jpeg', 0.95);
-        const imgWidth = canvas.width;
-        const imgHeight = canvas.height;
-        
-        // Calculate PDF dimensions (A4 aspect ratio)
-        const pdfWidth = 210; // A4 width in mm
-        const pdfHeight = (imgHeight * pdfWidth) / imgWidth;
-        
-        const pdf = new jsPDF({
-          orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-          unit: 'mm',
-          format: [pdfWidth, Math.min(pdfHeight, 297)], // Max A4 height
-        });
-        
-        pdf.addImage(imgData, 'JPEG', 0, 0, pdfWidth, Math.min(pdfHeight, 297));
+        const pdf = await scenesToPdf([scene]);
         pdf.save(`${filename}.pdf`);
-        toast.success(`PDF document saved to Downloads folder!`, {
-          description: `File: ${filename}.pdf`
-        });
-        return; // Return early to avoid the generic success message
       } else {
-        // Export as PNG or JPEG
-        const quality = format === 'jpeg' ? 0.95 : 1;
-        const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-        
-        // Create download function with multiple fallback methods
-        const downloadImage = (dataUrl: string) => {
-          try {
-            // Method 1: Standard download link approach
-            const a = document.createElement('a');
-            a.href = dataUrl;
-            a.download = `${filename}.${format}`;
-            a.style.display = 'none';
-            
-            // Add to DOM
-            document.body.appendChild(a);
-            
-            // Try different click methods for better browser compatibility
-            try {
-              // Method 1a: Standard click
-              a.click();
-            } catch (clickError) {
-              // Method 1b: Dispatch click event
-              const clickEvent = new MouseEvent('click', {
-                view: window,
-                bubbles: true,
-                cancelable: true
-              });
-              a.dispatchEvent(clickEvent);
-            }
-            
-            // Clean up after delay
-            setTimeout(() => {
-              try {
-                document.body.removeChild(a);
-                if (dataUrl.startsWith('blob:')) {
-                  URL.revokeObjectURL(dataUrl);
-                }
-              } catch (cleanupError) {
-                console.warn('Cleanup failed:', cleanupError);
-              }
-            }, 1000);
-            
-            // Try opening in new window as fallback (user can right-click save)
-            setTimeout(() => {
-              try {
-                const newWindow = window.open(dataUrl, '_blank');
-                if (!newWindow) {
-                  // If popup blocked, show instructions
-                  toast.warning('Download may be blocked by popup blocker', {
-                    description: 'Right-click the image and select "Save image as..." to download manually.',
-                    duration: 8000
-                  });
-                }
-              } catch (windowError) {
-                console.warn('Popup fallback failed:', windowError);
-              }
-            }, 2000);
-            
-            return true;
-          } catch (downloadError) {
-            console.error('Download failed:', downloadError);
-            // Final fallback: try to open the data URL directly
-            try {
-              window.open(dataUrl, '_blank');
-              toast.info('Download failed, opened in new tab', {
-                description: 'Right-click the image and select "Save image as..." to download.',
-                duration: 8000
-              });
-              return true;
-            } catch (finalError) {
-              console.error('All download methods failed:', finalError);
-              return false;
-            }
-          }
-        };
-
-        try {
-          // First try blob method for better file handling
-          canvas.toBlob((blob) => {
-            if (blob) {
-              console.log(`✅ Blob created successfully: ${blob.size} bytes`);
-              const url = URL.createObjectURL(blob);
-              console.log(`✅ Blob URL created: ${url.substring(0, 50)}...`);
-              
-              const success = downloadImage(url);
-              console.log(`${success ? '✅' : '❌'} Download attempt completed`);
-              
-              if (!success) {
-                console.error('❌ All download methods failed');
-                toast.error('Download failed. Please try again or check browser settings.', {
-                  description: 'Your browser may be blocking downloads. Check security settings.',
-                  duration: 8000
-                });
-              }
-            } else {
-              console.warn('⚠️ Blob creation failed, trying dataURL method');
-              const dataUrl = canvas.toDataURL(mimeType, quality);
-              console.log(`✅ DataURL created: ${dataUrl.length} characters`);
-              downloadImage(dataUrl);
-            }
-          }, mimeType, quality);
-        } catch (blobError) {
-          console.warn('⚠️ Blob method failed, using dataURL fallback:', blobError);
-          const dataUrl = canvas.toDataURL(mimeType, quality);
-          console.log(`✅ DataURL fallback created: ${dataUrl.length} characters`);
-          downloadImage(dataUrl);
-        }
+        const svg = sceneToSvg(scene);
+        const { minX, minY, maxX, maxY } = scene.bounds;
+        const blob = format === 'svg'
+          ? new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
+          : await rasterizeSvg(svg, maxX - minX, maxY - minY, format);
+        downloadBlob(blob, `${filename}.${format}`);
       }
-      
-      if (format === 'png' || format === 'jpeg') {
-        toast.success(`${format.toUpperCase()} export completed!`, {
-          description: `File: ${filename}.${format} - Check your Downloads folder`,
-          duration: 5000,
-          action: {
-            label: 'Need Help?',
-            onClick: () => {
-              toast.info('Download Troubleshooting', {
-                description: 'If the download didn\'t start: 1) Check Downloads folder 2) Allow downloads in browser settings 3) Disable popup blockers',
-                duration: 10000
-              });
-            }
-          }
-        });
-        
-        // Show additional help after a delay
-        setTimeout(() => {
-          const hasUserInteracted = document.hasFocus();
-          if (hasUserInteracted) {
-            toast.info('💡 Download Tip', {
-              description: 'If downloads are blocked, we\'ll open the image in a new tab. Right-click and "Save image as..."',
-              duration: 6000
-            });
-          }
-        }, 4000);
-      } else {
-        toast.success(`Canvas exported as ${format.toUpperCase()}`);
-      }
-      
+
+      toast.success(`${format.toUpperCase()} saved to Downloads folder!`, {
+        id: toastId,
+        description: `File: ${filename}.${format}`
+      });
     } catch (error) {
       console.error('Canvas export failed:', error);
-      
-      // Restore UI elements if they were hidden
-      if (format === 'png' || format === 'jpeg') {
-        const selectors = [
-          '.absolute.top-4.right-4',
-          '.absolute.top-4.left-4', 
-          '.fixed.bottom-4.left-4',
-          '.fixed.top-4.left-4',
-          '.fixed.bottom-4.right-4',
-          '.fixed.bottom-4.left-4',
-          '.fixed.bottom-16.right-4',
-          '.fixed',
-          '[data-sonner-toaster]'
-        ];
-        
-        selectors.forEach(selector => {
-          const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
-          elements.forEach(element => {
-            element.style.opacity = '';
-            element.style.pointerEvents = '';
-          });
-        });
-      }
-      
-      toast.error(`Visual export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      setSaveAsOpen(false); // Close the dialog on failure
+      toast.error(`Visual export failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { id: toastId });
+    }
+  };
+
+  const showImportReport = (report: CanvasImportReport, source: string) => {
+    if (!report.success) {
+      toast.error(`Import failed: ${summarizeImportReport(report)}`);
+    } else if (report.issues.length > 0) {
+      console.warn(`Issues while importing ${source}:`, report.issues);
+      toast.warning(summarizeImportReport(report), { duration: 8000 });
+    } else if (importMode === 'merge') {
+      toast.success(`Added ${source} to the current canvas`);
+    } else {
+      toast.success(`Canvas imported from ${source}`);
     }
   };
 
+  // Either replace the board or add the file's content to it, depending on the chosen mode
+  const runImport = (content: string) => {
+    if (importMode === 'merge') return mergeCanvas(content, { matchGroupsByName });
+    const report = importCanvas(content);
+    // Converted files have no saved view, so show what was imported
+    const { nodes: imported, zoomToNodes } = useCanvasStore.getState();
+    if (report.success && !JSON.parse(content).transform) {
+      zoomToNodes(imported.map(node => node.id), 100, { animate: false, recordHistory: false });
+    }
+    return report;
+  };
+
   const handleImport = () => {
-    if (importData.trim()) {
-      importCanvas(importData);
-      setImportData('');
+    if (!importData.trim()) return;
+    try {
+      const report = runImport(importTextToCanvasFile(importData, 'Imported outline'));
+      showImportReport(report, isCanvasJson(importData) ? 'pasted JSON' : 'pasted outline');
+      if (report.success) {
+        setImportData('');
+      }
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -407,30 +255,79 @@ export function Toolbar() {
     fileInputRef.current?.click();
   };
 
+  const handleFolderImport = () => {
+    folderInputRef.current?.click();
+  };
+
+  // Note vaults come as a ZIP archive or a picked folder; either way the notes are read before converting
+  const importNotes = (reading: Promise<NoteFile[]>, source: string) => {
+    reading
+      .then(notes => {
+        const report = runImport(notesToCanvasFile(notes, source));
+        showImportReport(report, source);
+        if (!report.success) return;
+        // Linked notes are drawn together by the force layout, run in the layout worker.
+        // Merged notes are selected already; a replaced canvas holds only the notes.
+        const { nodes: imported, selectMultipleNodes, autoOrganizeNodes } = useCanvasStore.getState();
+        if (importMode === 'replace') selectMultipleNodes(imported.map(node => node.id));
+        autoOrganizeNodes('force');
+      })
+      .catch(error => toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  };
+
+  const handleFolderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? Array.from<File>(event.target.files) : [];
+    if (files.length > 0) {
+      const folder = files[0].webkitRelativePath.split('/')[0] || 'Imported notes';
+      importNotes(readNotesFolder(files), folder);
+    }
+    event.target.value = '';
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'application/json') {
+    if (file?.name.toLowerCase().endsWith(`.${BUNDLE_EXTENSION}`)) {
+      // Bundles are ZIP archives; their media is restored before the canvas is imported
+      readCanvasBundle(file)
+        .then(content => showImportReport(runImport(content), file.name))
+        .catch(error => toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    } else if (file && isNotesArchive(file.name)) {
+      importNotes(readNotesArchive(file), file.name.replace(/\.zip$/i, ''));
+    } else if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
+        if (isSpreadsheetFile(file.name)) {
+          setSpreadsheet({ fileName: file.name, text: e.target?.result as string });
+          return;
+        }
         try {
-          const content = e.target?.result as string;
-          // Validate it's valid JSON
-          JSON.parse(content);
-          importCanvas(content);
-          toast.success(`Canvas imported from ${file.name}`);
+          const content = importFileToCanvasFile(file.name, e.target?.result as string);
+          // importCanvas validates the file and reports what was wrong with it
+          showImportReport(runImport(content), file.name);
         } catch (error) {
-          toast.error('Invalid JSON file. Please select a valid canvas export file.');
+          toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       };
       reader.readAsText(file);
-    } else {
-      toast.error('Please select a JSON file.');
     }
     
     // Reset the input so the same file can be selected again
     event.target.value = '';
   };
 
+  const handleSpreadsheetImport = (fragment: CanvasFragment) => {
+    if (!spreadsheet) return;
+    try {
+      const report = runImport(spreadsheetToCanvasFile(spreadsheet.fileName, fragment));
+      showImportReport(report, spreadsheet.fileName);
+      if (report.success) {
+        setSpreadsheet(null);
+      }
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleEditGroup = (group: any) => {
     setEditingGroupId(group.id);
     setEditingGroupName(group.name);
@@ -494,7 +391,7 @@ export function Toolbar() {
           <Button 
             size="sm" 
             variant="outline"
-            onClick={autoOrganizeNodes}
+            onClick={() => autoOrganizeNodes('force')}
             title="Organize selected nodes using force-directed layout"
           >
             <Zap className="w-4 h-4 mr-1" />
@@ -513,24 +410,54 @@ export function Toolbar() {
             <DialogHeader>
               <DialogTitle>Load Canvas</DialogTitle>
               <DialogDescription>
-                Import a canvas by pasting JSON data or selecting a file from your computer.
+                Import a canvas by pasting JSON data, a JSON Canvas, a Markdown outline, OPML, a FreeMind map or a Mermaid flowchart, or select a JSON, IdeaScape bundle, Obsidian canvas, published HTML, browser bookmarks (.html), Markdown, OPML, FreeMind (.mm), Mermaid (.mmd) or CSV/TSV spreadsheet file from your computer. Markdown note vaults can be imported as a folder or a ZIP archive.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
               <textarea
                 value={importData}
                 onChange={(e) => setImportData(e.target.value)}
-                placeholder="Paste JSON data here..."
+                placeholder="Paste JSON data, a Markdown outline, OPML, a FreeMind map or a Mermaid flowchart here..."
                 className="w-full h-32 p-2 border rounded resize-none"
               />
-              <div className="flex gap-2">
+              <RadioGroup
+                value={importMode}
+                onValueChange={(value) => setImportMode(value as 'replace' | 'merge')}
+                className="gap-2"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="import-mode-replace" />
+                  <Label htmlFor="import-mode-replace" className="font-normal">Replace current canvas</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="merge" id="import-mode-merge" />
+                  <Label htmlFor="import-mode-merge" className="font-normal">Import into current canvas</Label>
+                </div>
+              </RadioGroup>
+              {importMode === 'merge' && (
+                <div className="flex items-center gap-2 ml-6">
+                  <Checkbox
+                    id="match-groups"
+                    checked={matchGroupsByName}
+                    onCheckedChange={(checked) => setMatchGroupsByName(checked === true)}
+                  />
+                  <Label htmlFor="match-groups" className="font-normal text-sm text-gray-600 dark:text-gray-400">
+                    Add to existing groups with the same name
+                  </Label>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
                 <Button onClick={handleImport} disabled={!importData.trim()}>
-                  Import JSON
+                  Import
                 </Button>
                 <Button onClick={handleFileImport} variant="outline">
                   <Upload className="w-4 h-4 mr-1" />
                   From Computer
                 </Button>
+                <Button onClick={handleFolderImport} variant="outline" title="Import a folder of Markdown notes">
+                  <FolderTree className="w-4 h-4 mr-1" />
+                  Notes Folder
+                </Button>
                 <Button onClick={newCanvas} variant="outline">
                   New Canvas
                 </Button>
@@ -539,13 +466,34 @@ export function Toolbar() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json"
+                accept={IMPORT_FILE_ACCEPT}
                 onChange={handleFileChange}
                 className="hidden"
               />
+              <input
+                // React has no prop for picking folders, so the attribute is set directly
+                ref={(input) => {
+                  folderInputRef.current = input;
+                  input?.setAttribute('webkitdirectory', '');
+                }}
+                type="file"
+                multiple
+                onChange={handleFolderChange}
+                className="hidden"
+              />
             </div>
           </DialogContent>
         </Dialog>
+
+        <Button onClick={() => setLibraryOpen(true)} size="sm" variant="outline" title="Canvas Library">
+          <LayoutGrid className="w-4 h-4 mr-1" />
+          Library
+        </Button>
+
+        <Button onClick={() => setFramesOpen(true)} size="sm" variant="outline" title="Presentation frames">
+          <Presentation className="w-4 h-4 mr-1" />
+          Present
+        </Button>
       </div>
 
       {/* Groups section */}
@@ -683,12 +631,7 @@ export function Toolbar() {
           <DialogHeader>
             <DialogTitle>Save As</DialogTitle>
             <DialogDescription>
-              Choose a name and format for your canvas export. PNG/JPEG formats create clean screenshots by hiding UI elements and fitting content to screen.
-              <br /><br />
-              <strong>Download troubleshooting:</strong>
-              <br />• Check your Downloads folder (files save automatically)
-              <br />• Enable downloads in browser settings if blocked
-              <br />• If popup blockers interfere, we'll open images in new tabs for manual saving
+              Choose a name and format for your canvas export. Export the whole canvas, the selection, a group or the current view. SVG and PDF stay sharp at any zoom.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -710,32 +653,45 @@ export function Toolbar() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="json">JSON (Data Backup)</SelectItem>
-                  <SelectItem value="png" disabled>
-                    <div className="flex items-center justify-between w-full">
-                      <span className="text-gray-400">PNG (High Quality Image)</span>
-                      <Badge variant="outline" className="text-xs bg-blue-50 text-blue-600 border-blue-200 ml-2">
-                        Coming Soon
-                      </Badge>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="jpeg" disabled>
-                    <div className="flex items-center justify-between w-full">
-                      <span className="text-gray-400">JPEG (Compressed Image)</span>
-                      <Badge variant="outline" className="text-xs bg-blue-50 text-blue-600 border-blue-200 ml-2">
-                        Coming Soon
-                      </Badge>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="pdf" disabled>
-                    <div className="flex items-center justify-between w-full">
-                      <span className="text-gray-400">PDF (Document)</span>
-                      <Badge variant="outline" className="text-xs bg-blue-50 text-blue-600 border-blue-200 ml-2">
-                        Coming Soon
-                      </Badge>
-                    </div>
+                  <SelectItem value="bundle">IdeaScape Bundle (JSON + Media Files)</SelectItem>
+                  <SelectItem value="html">Publish as HTML (Interactive Page)</SelectItem>
+                  <SelectItem value="jsoncanvas">JSON Canvas (Obsidian, .canvas)</SelectItem>
+                  <SelectItem value="markdown">Markdown (Outline)</SelectItem>
+                  <SelectItem value="opml">OPML (Outline)</SelectItem>
+                  <SelectItem value="freemind">FreeMind (Mind Map, .mm)</SelectItem>
+                  <SelectItem value="mermaid">Mermaid (Flowchart)</SelectItem>
+                  <SelectItem value="dot">Graphviz DOT (Graph)</SelectItem>
+                  <SelectItem value="svg">SVG (Vector Image)</SelectItem>
+                  <SelectItem value="png">PNG (High Quality Image)</SelectItem>
+                  <SelectItem value="jpeg">JPEG (Compressed Image)</SelectItem>
+                  <SelectItem value="pdf">PDF (Vector Document)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="exportScope">Include</Label>
+              <Select value={exportScope} onValueChange={setExportScope}>
+                <SelectTrigger id="exportScope" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="canvas">Entire canvas</SelectItem>
+                  <SelectItem value="selection" disabled={selectedCount === 0}>
+                    Selection{selectedCount > 0 ? ` (${selectedCount} ${selectedCount === 1 ? 'node' : 'nodes'})` : ''}
                   </SelectItem>
+                  <SelectItem value="viewport">Current view</SelectItem>
+                  {groups.map(group => (
+                    <SelectItem key={group.id} value={`group:${group.id}`} disabled={group.nodes.length === 0}>
+                      Group: {group.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {exportScope !== 'canvas' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Only connections between the included nodes are exported.
+                </p>
+              )}
             </div>
             <div className="flex gap-2 justify-end">
               <Button variant="outline" onClick={() => setSaveAsOpen(false)}>
@@ -752,6 +708,23 @@ export function Toolbar() {
         </DialogContent>
       </Dialog>
 
+      {/* Canvas Library Dialog */}
+      <CanvasLibraryDialog open={libraryOpen} onOpenChange={setLibraryOpen} />
+
+      {/* Spreadsheet Column Mapping Dialog */}
+      {spreadsheet && (
+        <CsvImportDialog
+          open
+          onOpenChange={(open) => !open && setSpreadsheet(null)}
+          fileName={spreadsheet.fileName}
+          text={spreadsheet.text}
+          onImport={handleSpreadsheetImport}
+        />
+      )}
+
+      {/* Presentation Frames Dialog */}
+      <FramesPanel open={framesOpen} onOpenChange={setFramesOpen} />
+
       {/* Node Search Dialog */}
       <NodeSearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
 
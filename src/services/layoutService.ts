@@ -0,0 +1,141 @@
+/**
+ * Runs auto-organize layouts in a Web Worker so large selections don't freeze
+ * the canvas. The force-directed layout streams intermediate positions while it
+ * converges; the structured layouts answer in one message. Browsers without
+ * module worker support fall back to computing the layout on the main thread.
+ */
+
+import { computeLayout, type LayoutEdge, type LayoutNode, type LayoutPositions, type LayoutType } from '../store/layout';
+
+export interface LayoutRequest {
+  layout: LayoutType;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  centerNodeId?: string;
+}
+
+export type LayoutWorkerRequest =
+  | ({ type: 'run'; jobId: number } & LayoutRequest)
+  | { type: 'cancel'; jobId: number };
+
+export type LayoutWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: number; positions: LayoutPositions }
+  | { type: 'done'; jobId: number; positions: LayoutPositions }
+  | { type: 'error'; jobId: number; message: string };
+
+// Progress is the share of the simulation's iteration budget used so far (0-1)
+export type LayoutProgressHandler = (progress: number, positions: LayoutPositions) => void;
+
+export interface LayoutJob {
+  result: Promise<LayoutPositions | null>; // null when the job was cancelled
+  cancel: () => void;
+}
+
+interface PendingJob {
+  onProgress?: LayoutProgressHandler;
+  resolve: (positions: LayoutPositions | null) => void;
+  reject: (error: Error) => void;
+}
+
+class LayoutEngine {
+  private worker: Worker | null = null;
+  private workerUnavailable = false;
+  private nextJobId = 1;
+  private jobs = new Map<number, PendingJob>();
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('Layout worker unavailable, organizing on the main thread:', error);
+      this.workerUnavailable = true;
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const message = event.data;
+      const job = this.jobs.get(message.jobId);
+      if (!job) return; // Cancelled meanwhile
+
+      if (message.type === 'progress') {
+        job.onProgress?.(message.progress, message.positions);
+        return;
+      }
+
+      this.jobs.delete(message.jobId);
+      if (message.type === 'done') {
+        job.resolve(message.positions);
+      } else {
+        job.reject(new Error(message.message));
+      }
+    };
+
+    // A crashed worker fails every job it was running; the next job starts a fresh one
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.jobs.forEach(job => job.reject(new Error(event.message || 'Layout worker failed')));
+      this.jobs.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+
+  private post(worker: Worker, message: LayoutWorkerRequest) {
+    worker.postMessage(message);
+  }
+
+  run(request: LayoutRequest, onProgress?: LayoutProgressHandler): LayoutJob {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.runOnMainThread(request);
+    }
+
+    const jobId = this.nextJobId++;
+    const result = new Promise<LayoutPositions | null>((resolve, reject) => {
+      this.jobs.set(jobId, { onProgress, resolve, reject });
+    });
+    this.post(worker, { type: 'run', jobId, ...request });
+
+    return {
+      result,
+      cancel: () => {
+        const job = this.jobs.get(jobId);
+        if (!job) return;
+        this.jobs.delete(jobId);
+        this.post(worker, { type: 'cancel', jobId });
+        job.resolve(null);
+      },
+    };
+  }
+
+  private runOnMainThread(request: LayoutRequest): LayoutJob {
+    let cancelled = false;
+    const result = new Promise<LayoutPositions | null>((resolve, reject) => {
+      // Let the caller finish its own bookkeeping before blocking
+      setTimeout(() => {
+        if (cancelled) {
+          resolve(null);
+          return;
+        }
+        try {
+          resolve(computeLayout(request.layout, request.nodes, request.edges, request.centerNodeId));
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }, 0);
+    });
+
+    return {
+      result,
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+}
+
+export const layoutEngine = new LayoutEngine();
@@ -0,0 +1,81 @@
+/**
+ * Web Worker entry for layoutService. Structured layouts are computed in one
+ * go. The force-directed simulation runs in short slices, posting the current
+ * positions after each slice and yielding so cancel messages can arrive.
+ */
+
+import { computeLayout, createForceSimulation } from '../store/layout';
+import type { LayoutWorkerRequest, LayoutWorkerResponse } from './layoutService';
+
+const worker = self as unknown as Worker;
+
+// Roughly two animation frames of simulation between position updates
+const SLICE_DURATION = 32;
+
+// Force simulations still running; cancelling a job removes it
+const runningJobs = new Set<number>();
+
+const post = (message: LayoutWorkerResponse) => worker.postMessage(message);
+
+const postError = (jobId: number, error: unknown) =>
+  post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+
+const runForceLayout = (request: Extract<LayoutWorkerRequest, { type: 'run' }>) => {
+  const simulation = createForceSimulation(request.nodes, request.edges);
+  runningJobs.add(request.jobId);
+
+  const runSlice = () => {
+    if (!runningJobs.has(request.jobId)) return;
+
+    try {
+      const sliceStart = performance.now();
+      let finished = false;
+      while (!finished && performance.now() - sliceStart < SLICE_DURATION) {
+        finished = simulation.step();
+      }
+
+      if (finished) {
+        runningJobs.delete(request.jobId);
+        post({ type: 'done', jobId: request.jobId, positions: simulation.finish() });
+        return;
+      }
+    } catch (error) {
+      runningJobs.delete(request.jobId);
+      postError(request.jobId, error);
+      return;
+    }
+
+    post({
+      type: 'progress',
+      jobId: request.jobId,
+      progress: simulation.iteration() / simulation.maxIterations,
+      positions: simulation.positions(),
+    });
+    setTimeout(runSlice, 0);
+  };
+
+  runSlice();
+};
+
+worker.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    runningJobs.delete(request.jobId);
+    return;
+  }
+
+  try {
+    if (request.layout === 'force') {
+      runForceLayout(request);
+    } else {
+      post({
+        type: 'done',
+        jobId: request.jobId,
+        positions: computeLayout(request.layout, request.nodes, request.edges, request.centerNodeId),
+      });
+    }
+  } catch (error) {
+    postError(request.jobId, error);
+  }
+};
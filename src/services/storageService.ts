@@ -0,0 +1,670 @@
+/**
+ * IndexedDB persistence for canvases.
+ *
+ * Nodes, connections and groups live in their own object stores, keyed by
+ * canvas ID and entity ID, so an auto-save only writes the entities that
+ * changed since the previous save. Image and video data URLs are moved out of
+ * the node records into a content-addressed `media` store as Blobs, which keeps
+ * node records small and stores each file once no matter how often it is used.
+ */
+
+import type { Node, Connection, NodeGroup, Frame, CanvasTransform } from '../store/canvasStore';
+
+const DB_NAME = 'ideascape';
+const DB_VERSION = 1;
+
+const STORES = {
+  META: 'meta',
+  NODES: 'nodes',
+  CONNECTIONS: 'connections',
+  GROUPS: 'groups',
+  MEDIA: 'media',
+} as const;
+
+// Node content references media blobs with this prefix followed by the content hash
+export const MEDIA_REF_PREFIX = 'idb-media:';
+
+// Key of the single-blob auto-save used before the IndexedDB backend existed
+const LEGACY_AUTOSAVE_KEY = 'mindmap-autosave';
+const UNREADABLE_LEGACY_AUTOSAVE_KEY = 'mindmap-autosave-unreadable';
+
+export interface CanvasSnapshot {
+  canvasName: string;
+  nodes: Node[];
+  connections: Connection[];
+  groups: NodeGroup[];
+  frames?: Frame[];
+  transform: CanvasTransform;
+  settings?: any;
+  thumbnail?: string; // Keeps the previously stored thumbnail when omitted
+  timestamp: number;
+}
+
+// Library entry for a stored canvas, without its contents
+export interface CanvasSummary {
+  id: string;
+  name: string;
+  thumbnail?: string;
+  nodeCount: number;
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number;
+}
+
+export interface StorageEstimate {
+  used: number;
+  available: number;
+  total: number;
+}
+
+interface CanvasMeta {
+  canvasId: string;
+  canvasName: string;
+  transform: CanvasTransform;
+  frames?: Frame[]; // Few and small, so they are kept with the metadata
+  settings?: any;
+  thumbnail?: string;
+  nodeCount?: number;
+  createdAt?: number;
+  lastOpenedAt?: number;
+  timestamp: number;
+}
+
+interface MediaRecord {
+  hash: string;
+  blob: Blob;
+}
+
+// Entity references from the last successful write, used to find what changed
+interface SavedEntities {
+  nodes: Map<string, Node>;
+  connections: Map<string, Connection>;
+  groups: Map<string, NodeGroup>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data || '')], { type: mimeType });
+  }
+
+  const binary = atob(data || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const buffer = await blob.arrayBuffer();
+
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  // crypto.subtle is unavailable outside secure contexts - fall back to FNV-1a
+  const bytes = new Uint8Array(buffer);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${bytes.length}`;
+};
+
+const mediaUrlsOf = (node: Node): string[] =>
+  [node.content?.value, ...(node.content?.images || []), ...(node.content?.videos || [])]
+    .filter((url): url is string => typeof url === 'string');
+
+// Strip view-only flags so they are never persisted
+const toStoredNode = (node: Node): Node => {
+  const { selected, isNew, ...rest } = node;
+  return { ...rest, selected: false };
+};
+
+class CanvasStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private savedEntities = new Map<string, SavedEntities>();
+  private pendingSaves = new Map<string, CanvasSnapshot>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Data URL <-> media reference caches, so unchanged media is never re-hashed or re-read
+  private refsByDataUrl = new Map<string, string>();
+  private dataUrlsByRef = new Map<string, string>();
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!this.isSupported()) {
+          reject(new Error('IndexedDB is not supported in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORES.META)) {
+            db.createObjectStore(STORES.META, { keyPath: 'canvasId' });
+          }
+          [STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS].forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              const store = db.createObjectStore(name, { keyPath: ['canvasId', 'id'] });
+              store.createIndex('canvasId', 'canvasId');
+            }
+          });
+          if (!db.objectStoreNames.contains(STORES.MEDIA)) {
+            db.createObjectStore(STORES.MEDIA, { keyPath: 'hash' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Queue a snapshot for writing. Snapshots queued while a write is running
+   * collapse into one, so bursts of auto-saves only write the latest state.
+   */
+  saveCanvas(canvasId: string, snapshot: CanvasSnapshot): Promise<void> {
+    this.pendingSaves.set(canvasId, snapshot);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.flush(canvasId));
+    return this.writeQueue;
+  }
+
+  private async flush(canvasId: string): Promise<void> {
+    const snapshot = this.pendingSaves.get(canvasId);
+    if (!snapshot) return; // Already written by an earlier flush
+    this.pendingSaves.delete(canvasId);
+    await this.writeSnapshot(canvasId, snapshot);
+  }
+
+  private async writeSnapshot(canvasId: string, snapshot: CanvasSnapshot): Promise<void> {
+    const previous = this.savedEntities.get(canvasId);
+
+    const changedNodes = snapshot.nodes.filter(node => previous?.nodes.get(node.id) !== node);
+    const changedConnections = snapshot.connections.filter(conn => previous?.connections.get(conn.id) !== conn);
+    const changedGroups = snapshot.groups.filter(group => previous?.groups.get(group.id) !== group);
+
+    // Move media into blobs before opening the write transaction (hashing is async)
+    const mediaToStore: MediaRecord[] = [];
+    const newRefs = new Map<string, string>(); // Data URL to media ref, cached once the blobs are written
+    const nodeRecords = await Promise.all(
+      changedNodes.map(node => this.externalizeMedia(toStoredNode(node), mediaToStore, newRefs))
+    );
+
+    const db = await this.open();
+    const transaction = db.transaction(
+      [STORES.META, STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS, STORES.MEDIA],
+      'readwrite'
+    );
+    const done = transactionDone(transaction);
+
+    const metaStore = transaction.objectStore(STORES.META);
+    const existingMeta = await requestToPromise<CanvasMeta | undefined>(metaStore.get(canvasId));
+    const meta: CanvasMeta = {
+      canvasId,
+      canvasName: snapshot.canvasName,
+      transform: snapshot.transform,
+      frames: snapshot.frames ?? existingMeta?.frames,
+      settings: snapshot.settings,
+      thumbnail: snapshot.thumbnail ?? existingMeta?.thumbnail,
+      nodeCount: snapshot.nodes.length,
+      createdAt: existingMeta?.createdAt ?? snapshot.timestamp,
+      lastOpenedAt: existingMeta?.lastOpenedAt ?? snapshot.timestamp,
+      timestamp: snapshot.timestamp,
+    };
+    metaStore.put(meta);
+
+    const mediaStore = transaction.objectStore(STORES.MEDIA);
+    mediaToStore.forEach(record => mediaStore.put(record));
+
+    const nodeStore = transaction.objectStore(STORES.NODES);
+    nodeRecords.forEach(record => nodeStore.put({ ...record, canvasId }));
+    const connectionStore = transaction.objectStore(STORES.CONNECTIONS);
+    changedConnections.forEach(conn => connectionStore.put({ ...conn, canvasId }));
+    const groupStore = transaction.objectStore(STORES.GROUPS);
+    changedGroups.forEach(group => groupStore.put({ ...group, canvasId }));
+
+    if (previous) {
+      const deleteRemoved = <T extends { id: string }>(store: IDBObjectStore, saved: Map<string, T>, current: T[]) => {
+        const currentIds = new Set(current.map(item => item.id));
+        saved.forEach((_, id) => {
+          if (!currentIds.has(id)) store.delete([canvasId, id]);
+        });
+      };
+      deleteRemoved(nodeStore, previous.nodes, snapshot.nodes);
+      deleteRemoved(connectionStore, previous.connections, snapshot.connections);
+      deleteRemoved(groupStore, previous.groups, snapshot.groups);
+    } else {
+      // First write in this session - replace whatever was stored before
+      await this.deleteMissing(transaction, canvasId, snapshot);
+    }
+
+    await done;
+
+    newRefs.forEach((ref, dataUrl) => {
+      this.refsByDataUrl.set(dataUrl, ref);
+      this.dataUrlsByRef.set(ref, dataUrl);
+    });
+    this.savedEntities.set(canvasId, {
+      nodes: new Map(snapshot.nodes.map(node => [node.id, node])),
+      connections: new Map(snapshot.connections.map(conn => [conn.id, conn])),
+      groups: new Map(snapshot.groups.map(group => [group.id, group])),
+    });
+  }
+
+  private async deleteMissing(transaction: IDBTransaction, canvasId: string, snapshot: CanvasSnapshot): Promise<void> {
+    const entries: Array<[string, Array<{ id: string }>]> = [
+      [STORES.NODES, snapshot.nodes],
+      [STORES.CONNECTIONS, snapshot.connections],
+      [STORES.GROUPS, snapshot.groups],
+    ];
+
+    await Promise.all(entries.map(async ([name, items]) => {
+      const store = transaction.objectStore(name);
+      const keys = await requestToPromise(store.index('canvasId').getAllKeys(canvasId));
+      const currentIds = new Set(items.map(item => item.id));
+      keys.forEach(key => {
+        const [, id] = key as [string, string];
+        if (!currentIds.has(id)) store.delete(key);
+      });
+    }));
+  }
+
+  // New refs are only collected here: until the transaction storing their blobs
+  // commits, a later save must not assume the blobs exist
+  private async externalizeMedia(node: Node, mediaToStore: MediaRecord[], newRefs: Map<string, string>): Promise<Node> {
+    const toRef = async (url: string): Promise<string> => {
+      if (!url || !url.startsWith('data:')) return url;
+
+      const cached = this.refsByDataUrl.get(url) ?? newRefs.get(url);
+      if (cached) return cached;
+
+      const blob = dataUrlToBlob(url);
+      const hash = await hashBlob(blob);
+      const ref = `${MEDIA_REF_PREFIX}${hash}`;
+      if (!newRefs.has(url)) mediaToStore.push({ hash, blob });
+      newRefs.set(url, ref);
+      return ref;
+    };
+
+    const content = { ...node.content };
+    content.value = await toRef(content.value);
+    if (content.images) content.images = await Promise.all(content.images.map(toRef));
+    if (content.videos) content.videos = await Promise.all(content.videos.map(toRef));
+
+    return { ...node, content };
+  }
+
+  private async internalizeMedia(node: Node, blobs: Map<string, Blob>): Promise<Node> {
+    const fromRef = async (url: string): Promise<string> => {
+      if (!url || !url.startsWith(MEDIA_REF_PREFIX)) return url;
+
+      const cached = this.dataUrlsByRef.get(url);
+      if (cached) return cached;
+
+      const blob = blobs.get(url.slice(MEDIA_REF_PREFIX.length));
+      if (!blob) {
+        console.warn('Missing media blob for', url);
+        return '';
+      }
+
+      const dataUrl = await blobToDataUrl(blob);
+      this.dataUrlsByRef.set(url, dataUrl);
+      this.refsByDataUrl.set(dataUrl, url);
+      return dataUrl;
+    };
+
+    const content = { ...node.content };
+    content.value = await fromRef(content.value);
+    if (content.images) content.images = (await Promise.all(content.images.map(fromRef))).filter(Boolean);
+    if (content.videos) content.videos = (await Promise.all(content.videos.map(fromRef))).filter(Boolean);
+
+    return { ...node, content };
+  }
+
+  // Read every media blob the given node records reference, in a single transaction
+  private async readMedia(db: IDBDatabase, records: Node[]): Promise<Map<string, Blob>> {
+    const hashes = new Set<string>();
+    records.forEach(record => {
+      mediaUrlsOf(record).forEach(url => {
+        if (url.startsWith(MEDIA_REF_PREFIX) && !this.dataUrlsByRef.has(url)) {
+          hashes.add(url.slice(MEDIA_REF_PREFIX.length));
+        }
+      });
+    });
+
+    const blobs = new Map<string, Blob>();
+    if (hashes.size === 0) return blobs;
+
+    const mediaStore = db.transaction(STORES.MEDIA, 'readonly').objectStore(STORES.MEDIA);
+    const results = await Promise.all(
+      Array.from(hashes, hash => requestToPromise<MediaRecord | undefined>(mediaStore.get(hash)))
+    );
+    results.forEach(record => {
+      if (record) blobs.set(record.hash, record.blob);
+    });
+    return blobs;
+  }
+
+  async loadCanvas(canvasId: string): Promise<CanvasSnapshot | null> {
+    const db = await this.open();
+
+    const readTransaction = db.transaction(
+      [STORES.META, STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS],
+      'readonly'
+    );
+    const meta = await requestToPromise<CanvasMeta | undefined>(
+      readTransaction.objectStore(STORES.META).get(canvasId)
+    );
+    if (!meta) return null;
+
+    const [nodeRecords, connectionRecords, groupRecords] = await Promise.all(
+      [STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS].map(name =>
+        requestToPromise<any[]>(readTransaction.objectStore(name).index('canvasId').getAll(canvasId))
+      )
+    );
+
+    const strip = ({ canvasId: _canvasId, ...rest }: any) => rest;
+
+    // Blobs are fetched up front - the transaction would close while FileReader runs
+    const storedNodes: Node[] = nodeRecords.map(strip);
+    const blobs = await this.readMedia(db, storedNodes);
+    const nodes = await Promise.all(storedNodes.map(node => this.internalizeMedia(node, blobs)));
+
+    const snapshot: CanvasSnapshot = {
+      canvasName: meta.canvasName,
+      nodes,
+      connections: connectionRecords.map(strip),
+      groups: groupRecords.map(strip),
+      frames: meta.frames ?? [],
+      transform: meta.transform,
+      settings: meta.settings,
+      timestamp: meta.timestamp,
+    };
+
+    this.savedEntities.set(canvasId, {
+      nodes: new Map(snapshot.nodes.map(node => [node.id, node])),
+      connections: new Map(snapshot.connections.map(conn => [conn.id, conn])),
+      groups: new Map(snapshot.groups.map(group => [group.id, group])),
+    });
+
+    return snapshot;
+  }
+
+  async listCanvases(): Promise<CanvasSummary[]> {
+    const db = await this.open();
+    const metas = await requestToPromise<CanvasMeta[]>(
+      db.transaction(STORES.META, 'readonly').objectStore(STORES.META).getAll()
+    );
+
+    return metas
+      .map(meta => ({
+        id: meta.canvasId,
+        name: meta.canvasName,
+        thumbnail: meta.thumbnail,
+        nodeCount: meta.nodeCount ?? 0,
+        createdAt: meta.createdAt ?? meta.timestamp,
+        updatedAt: meta.timestamp,
+        lastOpenedAt: meta.lastOpenedAt ?? meta.timestamp,
+      }))
+      .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+  }
+
+  private async updateMeta(canvasId: string, updates: Partial<CanvasMeta>): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORES.META, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(STORES.META);
+
+    const meta = await requestToPromise<CanvasMeta | undefined>(store.get(canvasId));
+    if (meta) {
+      store.put({ ...meta, ...updates, canvasId });
+    }
+    await done;
+  }
+
+  // Record that a canvas was opened, for "recently opened" ordering
+  markOpened(canvasId: string): Promise<void> {
+    return this.updateMeta(canvasId, { lastOpenedAt: Date.now() });
+  }
+
+  renameCanvas(canvasId: string, canvasName: string): Promise<void> {
+    return this.updateMeta(canvasId, { canvasName, timestamp: Date.now() });
+  }
+
+  /**
+   * Copy all records of a stored canvas to a new canvas ID. Media blobs are
+   * content-addressed, so the copy shares them with the original.
+   */
+  async duplicateCanvas(sourceId: string, targetId: string, canvasName: string): Promise<void> {
+    // Make sure queued edits of the source are included
+    await this.writeQueue.catch(() => undefined);
+
+    const db = await this.open();
+    const transaction = db.transaction(
+      [STORES.META, STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS],
+      'readwrite'
+    );
+    const done = transactionDone(transaction);
+
+    const metaStore = transaction.objectStore(STORES.META);
+    const meta = await requestToPromise<CanvasMeta | undefined>(metaStore.get(sourceId));
+    if (!meta) {
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw new Error(`Canvas ${sourceId} not found`);
+    }
+
+    const now = Date.now();
+    metaStore.put({ ...meta, canvasId: targetId, canvasName, createdAt: now, lastOpenedAt: now, timestamp: now });
+
+    await Promise.all([STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS].map(async name => {
+      const store = transaction.objectStore(name);
+      const records = await requestToPromise<any[]>(store.index('canvasId').getAll(sourceId));
+      records.forEach(record => store.put({ ...record, canvasId: targetId }));
+    }));
+
+    await done;
+  }
+
+  async deleteCanvas(canvasId: string): Promise<void> {
+    this.pendingSaves.delete(canvasId);
+    await this.writeQueue.catch(() => undefined);
+
+    const db = await this.open();
+    const transaction = db.transaction(
+      [STORES.META, STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS],
+      'readwrite'
+    );
+    const done = transactionDone(transaction);
+
+    transaction.objectStore(STORES.META).delete(canvasId);
+    await Promise.all([STORES.NODES, STORES.CONNECTIONS, STORES.GROUPS].map(async name => {
+      const store = transaction.objectStore(name);
+      const keys = await requestToPromise(store.index('canvasId').getAllKeys(canvasId));
+      keys.forEach(key => store.delete(key));
+    }));
+
+    await done;
+    this.savedEntities.delete(canvasId);
+  }
+
+  /**
+   * Move a localStorage auto-save from before the IndexedDB backend into the
+   * given canvas slot. The legacy key is only removed once the write succeeded.
+   * A save that can't be read is set aside under another key, so it neither
+   * blocks startup nor gets lost.
+   */
+  async migrateFromLocalStorage(canvasId: string): Promise<boolean> {
+    let saved: string | null = null;
+    try {
+      saved = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+    } catch {
+      return false;
+    }
+    if (!saved) return false;
+
+    const db = await this.open();
+    const existing = await requestToPromise(
+      db.transaction(STORES.META, 'readonly').objectStore(STORES.META).get(canvasId)
+    );
+
+    if (!existing) {
+      let data: any;
+      try {
+        data = JSON.parse(saved);
+      } catch (error) {
+        console.error('Skipping unreadable localStorage auto-save:', error);
+        try {
+          localStorage.setItem(UNREADABLE_LEGACY_AUTOSAVE_KEY, saved);
+          localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+        } catch {
+          // No room for the copy: keep the save where it is and skip it again next time
+        }
+        return false;
+      }
+      const now = new Date();
+      await this.saveCanvas(canvasId, {
+        canvasName: data.canvasName || 'Untitled Canvas',
+        nodes: (data.nodes || []).map((node: any) => ({
+          ...node,
+          selected: false,
+          createdAt: node.createdAt ? new Date(node.createdAt) : now,
+          updatedAt: node.updatedAt ? new Date(node.updatedAt) : now,
+        })),
+        connections: data.connections || [],
+        groups: data.groups || [],
+        transform: data.transform || { x: 0, y: 0, scale: 1 },
+        settings: data.settings,
+        timestamp: data.timestamp || Date.now(),
+      });
+      // The next save should start from what is stored, not from the migrated objects
+      this.savedEntities.delete(canvasId);
+    }
+
+    localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+    return !existing;
+  }
+
+  /**
+   * Store media files that come from outside the app, such as the files of an
+   * imported bundle, and return a data URL for each to use in node content.
+   * The blobs are remembered under their hash, so saving the canvas that uses
+   * them neither hashes nor writes them again.
+   */
+  async restoreMedia(blobs: Blob[]): Promise<string[]> {
+    const records: MediaRecord[] = await Promise.all(blobs.map(async blob => ({ hash: await hashBlob(blob), blob })));
+
+    if (this.isSupported()) {
+      const db = await this.open();
+      const transaction = db.transaction(STORES.MEDIA, 'readwrite');
+      const done = transactionDone(transaction);
+      const mediaStore = transaction.objectStore(STORES.MEDIA);
+      records.forEach(record => mediaStore.put(record));
+      await done;
+    }
+
+    return Promise.all(records.map(async ({ hash, blob }) => {
+      const ref = `${MEDIA_REF_PREFIX}${hash}`;
+      const dataUrl = this.dataUrlsByRef.get(ref) ?? await blobToDataUrl(blob);
+      this.dataUrlsByRef.set(ref, dataUrl);
+      this.refsByDataUrl.set(dataUrl, ref);
+      return dataUrl;
+    }));
+  }
+
+  /**
+   * Delete media blobs no stored node references any more.
+   * Returns the number of blobs removed.
+   */
+  async collectGarbage(): Promise<number> {
+    await this.writeQueue.catch(() => undefined);
+
+    const db = await this.open();
+    const transaction = db.transaction([STORES.NODES, STORES.MEDIA], 'readwrite');
+    const done = transactionDone(transaction);
+
+    const [nodeRecords, mediaKeys] = await Promise.all([
+      requestToPromise<any[]>(transaction.objectStore(STORES.NODES).getAll()),
+      requestToPromise(transaction.objectStore(STORES.MEDIA).getAllKeys()),
+    ]);
+
+    const referenced = new Set<string>();
+    nodeRecords.forEach(record => {
+      mediaUrlsOf(record).forEach(url => {
+        if (url.startsWith(MEDIA_REF_PREFIX)) {
+          referenced.add(url.slice(MEDIA_REF_PREFIX.length));
+        }
+      });
+    });
+
+    const mediaStore = transaction.objectStore(STORES.MEDIA);
+    let removed = 0;
+    mediaKeys.forEach(key => {
+      if (!referenced.has(key as string)) {
+        mediaStore.delete(key);
+        this.dataUrlsByRef.delete(`${MEDIA_REF_PREFIX}${key}`);
+        removed++;
+      }
+    });
+
+    await done;
+    if (removed > 0) {
+      // Dropped refs may still be cached by data URL; rebuild from the surviving entries
+      this.refsByDataUrl = new Map(Array.from(this.dataUrlsByRef, ([ref, dataUrl]) => [dataUrl, ref]));
+    }
+    return removed;
+  }
+
+  // Real quota for the origin, via the StorageManager API when the browser has it
+  async estimate(): Promise<StorageEstimate> {
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { used: usage, available: Math.max(0, quota - usage), total: quota };
+    }
+    return { used: 0, available: 0, total: 0 };
+  }
+}
+
+export const canvasStorage = new CanvasStorage();
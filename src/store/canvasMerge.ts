@@ -0,0 +1,140 @@
+import type { Node, Connection, NodeGroup, Point } from './canvasStore';
+import type { CanvasDocument } from './history';
+
+/**
+ * Merging a set of nodes, connections and groups from another canvas into the
+ * current one. Every incoming entity gets a fresh ID so nothing collides with
+ * what is already on the board, and connections and group memberships are
+ * rewritten to the new IDs.
+ */
+
+export interface CanvasFragment {
+  nodes: Node[];
+  connections: Connection[];
+  groups: NodeGroup[];
+}
+
+export interface MergeOptions {
+  center: Point; // Canvas position the fragment's bounding box is centered on
+  matchGroupsByName?: boolean; // Reuse existing groups with the same name instead of adding new ones
+}
+
+export interface MergeResult {
+  document: CanvasDocument;
+  nodeIds: string[]; // IDs of the inserted nodes
+  createdGroupIds: string[];
+  matchedGroupIds: string[]; // Existing groups that received incoming nodes
+}
+
+let idCounter = 0;
+
+// Date.now() alone repeats when many entities are created in the same millisecond
+export const createEntityId = (prefix: 'node' | 'conn' | 'group' | 'frame') =>
+  `${prefix}-${Date.now()}-${(idCounter++).toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+
+export const getFragmentBounds = (nodes: Node[]) => {
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+  return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY };
+};
+
+const normalizeGroupName = (name: string) => name.trim().toLowerCase();
+
+export const mergeFragment = (
+  target: CanvasDocument,
+  fragment: CanvasFragment,
+  options: MergeOptions,
+): MergeResult => {
+  if (fragment.nodes.length === 0) {
+    return { document: target, nodeIds: [], createdGroupIds: [], matchedGroupIds: [] };
+  }
+
+  const nodeIdMap = new Map(fragment.nodes.map(node => [node.id, createEntityId('node')]));
+
+  // Map incoming groups either onto an existing group with the same name or onto a new group
+  const existingByName = new Map(target.groups.map(group => [normalizeGroupName(group.name), group]));
+  const groupIdMap = new Map<string, string>();
+  const createdGroups: NodeGroup[] = [];
+  const matchedGroupIds = new Set<string>();
+
+  fragment.groups.forEach(group => {
+    const match = options.matchGroupsByName ? existingByName.get(normalizeGroupName(group.name)) : undefined;
+    if (match) {
+      groupIdMap.set(group.id, match.id);
+      matchedGroupIds.add(match.id);
+    } else {
+      const newGroup: NodeGroup = { ...group, id: createEntityId('group'), nodes: [] };
+      groupIdMap.set(group.id, newGroup.id);
+      createdGroups.push(newGroup);
+    }
+  });
+
+  const bounds = getFragmentBounds(fragment.nodes);
+  const dx = options.center.x - (bounds.minX + bounds.width / 2);
+  const dy = options.center.y - (bounds.minY + bounds.height / 2);
+
+  const newNodes: Node[] = fragment.nodes.map(node => {
+    const groupId = node.groupId ? groupIdMap.get(node.groupId) : undefined;
+    return {
+      ...node,
+      id: nodeIdMap.get(node.id)!,
+      x: node.x + dx,
+      y: node.y + dy,
+      groupId,
+      selected: false,
+      isNew: true,
+    };
+  });
+
+  const newConnections: Connection[] = fragment.connections
+    .filter(conn => nodeIdMap.has(conn.fromNodeId) && nodeIdMap.has(conn.toNodeId))
+    .map(conn => ({
+      ...conn,
+      id: createEntityId('conn'),
+      fromNodeId: nodeIdMap.get(conn.fromNodeId)!,
+      toNodeId: nodeIdMap.get(conn.toNodeId)!,
+    }));
+
+  // Group membership follows the nodes' groupId, which is the source of truth after remapping
+  const membersByGroup = new Map<string, string[]>();
+  newNodes.forEach(node => {
+    if (!node.groupId) return;
+    membersByGroup.set(node.groupId, [...(membersByGroup.get(node.groupId) || []), node.id]);
+  });
+
+  const groups = [
+    ...target.groups.map(group => matchedGroupIds.has(group.id)
+      ? { ...group, nodes: [...group.nodes, ...(membersByGroup.get(group.id) || [])] }
+      : group),
+    ...createdGroups.map(group => ({ ...group, nodes: membersByGroup.get(group.id) || [] })),
+  ];
+
+  return {
+    document: {
+      nodes: [...target.nodes, ...newNodes],
+      connections: [...target.connections, ...newConnections],
+      groups,
+      frames: target.frames,
+    },
+    nodeIds: newNodes.map(node => node.id),
+    createdGroupIds: createdGroups.map(group => group.id),
+    matchedGroupIds: Array.from(matchedGroupIds),
+  };
+};
+
+/**
+ * Cut the given nodes out of a document, together with the connections
+ * between them and the groups they belong to (limited to those nodes).
+ */
+export const extractFragment = (document: CanvasDocument, nodeIds: string[]): CanvasFragment => {
+  const ids = new Set(nodeIds);
+  return {
+    nodes: document.nodes.filter(node => ids.has(node.id)),
+    connections: document.connections.filter(conn => ids.has(conn.fromNodeId) && ids.has(conn.toNodeId)),
+    groups: document.groups
+      .filter(group => group.nodes.some(id => ids.has(id)))
+      .map(group => ({ ...group, nodes: group.nodes.filter(id => ids.has(id)) })),
+  };
+};
@@ -0,0 +1,436 @@
+import type { Node, Connection, NodeGroup, Frame, CanvasTransform } from './canvasStore';
+import { isSafeUrl, sanitizeHtml, textToHtml } from '../utils/html';
+
+/**
+ * Versioned canvas file format.
+ *
+ * Every export carries a `schemaVersion`. Files written before versioning was
+ * introduced have no version and are treated as version 1. On import, a file
+ * is upgraded one version at a time through the migration registry below and
+ * then validated, producing a report of everything that was wrong with it.
+ *
+ * When the file format changes: bump CURRENT_SCHEMA_VERSION and register a
+ * migration from the previous version. Never edit an existing migration, as
+ * files in that version may already exist.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Version assumed for files exported before schemaVersion existed
+const LEGACY_SCHEMA_VERSION = 1;
+
+export const NODE_CONTENT_TYPES: Node['content']['type'][] = ['text', 'image', 'link', 'video'];
+
+export interface CanvasFileData {
+  schemaVersion: number;
+  canvasName: string;
+  nodes: Node[];
+  connections: Connection[];
+  groups: NodeGroup[];
+  frames: Frame[];
+  transform: CanvasTransform;
+}
+
+export type CanvasImportIssueCode =
+  | 'invalid-json'
+  | 'invalid-structure'
+  | 'unsupported-version'
+  | 'migration-failed'
+  | 'invalid-node'
+  | 'duplicate-id'
+  | 'invalid-geometry'
+  | 'invalid-field'
+  | 'unknown-content-type'
+  | 'unsafe-link'
+  | 'invalid-date'
+  | 'invalid-connection'
+  | 'dangling-connection'
+  | 'invalid-group'
+  | 'dangling-group-reference'
+  | 'invalid-frame'
+  | 'invalid-transform';
+
+export interface CanvasImportIssue {
+  code: CanvasImportIssueCode;
+  severity: 'error' | 'warning'; // Errors abort the import, warnings were repaired
+  path: string; // Location in the file, e.g. "connections[3].toNodeId"
+  message: string;
+}
+
+export interface CanvasImportReport {
+  success: boolean;
+  schemaVersion: number | null; // Version the file was written in
+  migratedFrom: number | null; // Set when the file needed upgrading
+  issues: CanvasImportIssue[];
+}
+
+export type CanvasImportResult =
+  | { report: CanvasImportReport; data: CanvasFileData }
+  | { report: CanvasImportReport; data: null };
+
+type CanvasMigration = (data: any) => any;
+
+/**
+ * Migration registry, keyed by the version a migration upgrades from.
+ * Each migration receives a file in version N and returns it in version N + 1.
+ */
+const migrations: Record<number, CanvasMigration> = {
+  // 1 -> 2: unversioned exports. Older builds did not record node timestamps
+  // and some wrote groups without a member list.
+  1: (data) => {
+    const now = new Date().toISOString();
+    return {
+      ...data,
+      nodes: Array.isArray(data.nodes)
+        ? data.nodes.map((node: any) => node && typeof node === 'object'
+          ? { ...node, createdAt: node.createdAt ?? now, updatedAt: node.updatedAt ?? node.createdAt ?? now }
+          : node)
+        : data.nodes,
+      groups: Array.isArray(data.groups)
+        ? data.groups.map((group: any) => group && typeof group === 'object'
+          ? { ...group, nodes: group.nodes ?? [] }
+          : group)
+        : data.groups,
+    };
+  },
+  // 2 -> 3: presentation frames were added
+  2: (data) => ({ ...data, frames: data.frames ?? [] }),
+};
+
+export const migrateCanvasData = (data: any, fromVersion: number): any => {
+  let migrated = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration registered from schema version ${version}`);
+    }
+    migrated = { ...migrate(migrated), schemaVersion: version + 1 };
+  }
+  return migrated;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Browsers ignore whitespace and control characters in URLs, so "java\tscript:" is still a script
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+// Links typed without a scheme (example.com) can't run anything and are kept
+const isSafeLink = (url: unknown): url is string => {
+  if (typeof url !== 'string') return false;
+  const compact = url.replace(/[\u0000-\u0020]/g, '');
+  return isSafeUrl(compact) || !URL_SCHEME.test(compact);
+};
+
+// Only the strings of a list; anything but an array is an empty list
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date || typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Validate a file that is already in the current schema version. Problems that
+ * can be repaired (a dangling connection, an unknown content type, a bad date,
+ * an unsafe link, a mistyped tag list) are fixed and reported as warnings; problems that make the
+ * file unusable are reported as errors. Text node HTML is always sanitized.
+ */
+export const validateCanvasData = (data: any): { data: CanvasFileData | null; issues: CanvasImportIssue[] } => {
+  const issues: CanvasImportIssue[] = [];
+  const error = (code: CanvasImportIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: 'error', path, message });
+  const warn = (code: CanvasImportIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: 'warning', path, message });
+
+  if (!isObject(data)) {
+    error('invalid-structure', '', 'File does not contain a canvas object');
+    return { data: null, issues };
+  }
+  if (!Array.isArray(data.nodes)) {
+    error('invalid-structure', 'nodes', 'Canvas has no node list');
+    return { data: null, issues };
+  }
+
+  const now = new Date();
+  const nodeIds = new Set<string>();
+  const nodes: Node[] = [];
+
+  data.nodes.forEach((raw: any, index: number) => {
+    const path = `nodes[${index}]`;
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) {
+      error('invalid-node', path, 'Node has no ID');
+      return;
+    }
+    if (nodeIds.has(raw.id)) {
+      error('duplicate-id', `${path}.id`, `Node ID "${raw.id}" is used more than once`);
+      return;
+    }
+    nodeIds.add(raw.id);
+
+    const geometry = { x: raw.x, y: raw.y, width: raw.width, height: raw.height };
+    const defaults = { x: 0, y: 0, width: 200, height: 120 };
+    (Object.keys(geometry) as Array<keyof typeof geometry>).forEach(key => {
+      if (!isFiniteNumber(geometry[key])) {
+        warn('invalid-geometry', `${path}.${key}`, `Node "${raw.id}" has an invalid ${key}; using ${defaults[key]}`);
+        geometry[key] = defaults[key];
+      }
+    });
+
+    let content = raw.content;
+    if (!isObject(content)) {
+      warn('invalid-node', `${path}.content`, `Node "${raw.id}" has no content; imported as an empty text node`);
+      content = { type: 'text', value: '' };
+    } else if (!NODE_CONTENT_TYPES.includes(content.type)) {
+      warn('unknown-content-type', `${path}.content.type`, `Node "${raw.id}" has unknown content type "${content.type}"; imported as text`);
+      content = { ...content, type: 'text' };
+    }
+    if (typeof content.value !== 'string') {
+      content = { ...content, value: content.value == null ? '' : String(content.value) };
+    }
+
+    // Optional fields are read by the renderers and exporters as they're typed
+    const invalidField = (field: string, repair: string) =>
+      warn('invalid-field', `${path}.${field}`, `Node "${raw.id}" has an invalid "${field}" field; ${repair}`);
+    const fields: Pick<Node, 'tags' | 'comment'> = {};
+    if (raw.tags !== undefined) {
+      fields.tags = stringList(raw.tags);
+      if (!Array.isArray(raw.tags) || fields.tags.length !== raw.tags.length) invalidField('tags', 'only its text tags were kept');
+    }
+    if (raw.comment !== undefined && typeof raw.comment !== 'string') {
+      invalidField('comment', 'it was removed');
+      fields.comment = undefined;
+    }
+    if (content.title !== undefined && typeof content.title !== 'string') {
+      invalidField('content.title', 'it was removed');
+      content = { ...content, title: undefined };
+    }
+    (['images', 'videos'] as const).forEach(key => {
+      if (content[key] === undefined) return;
+      const list = stringList(content[key]);
+      if (!Array.isArray(content[key]) || list.length !== content[key].length) invalidField(`content.${key}`, 'only its text addresses were kept');
+      content = { ...content, [key]: list };
+    });
+    if (content.links !== undefined && !Array.isArray(content.links)) {
+      invalidField('content.links', 'it was removed');
+      content = { ...content, links: [] };
+    }
+
+    // Text is rendered as HTML and links as anchors, so files and clipboards from elsewhere are cleaned
+    if (Array.isArray(content.links)) {
+      const links = content.links.filter((link: any) => isObject(link) && isSafeLink(link.url));
+      if (links.length !== content.links.length) {
+        warn('unsafe-link', `${path}.content.links`, `Node "${raw.id}" had ${content.links.length - links.length} unsafe link(s); they were removed`);
+      }
+      content = { ...content, links };
+    }
+    if (content.type === 'link' && !isSafeLink(content.value)) {
+      if (content.links?.length) {
+        warn('unsafe-link', `${path}.content.value`, `Node "${raw.id}" links to an unsafe address; its first safe link is used instead`);
+        content = { ...content, value: content.links[0].url };
+      } else {
+        warn('unsafe-link', `${path}.content.value`, `Node "${raw.id}" links to an unsafe address; imported as text`);
+        content = { ...content, type: 'text', value: textToHtml(content.value) };
+      }
+    }
+    if (content.type === 'text') {
+      content = { ...content, value: sanitizeHtml(content.value) };
+    }
+
+    const dates = { createdAt: parseDate(raw.createdAt), updatedAt: parseDate(raw.updatedAt) };
+    (Object.keys(dates) as Array<keyof typeof dates>).forEach(key => {
+      if (!dates[key]) {
+        warn('invalid-date', `${path}.${key}`, `Node "${raw.id}" has an invalid ${key} "${raw[key]}"; using the import time`);
+      }
+    });
+
+    nodes.push({
+      ...raw,
+      ...geometry,
+      ...fields,
+      content,
+      color: typeof raw.color === 'string' ? raw.color : '#ffffff',
+      selected: false,
+      isNew: false,
+      createdAt: dates.createdAt ?? now,
+      updatedAt: dates.updatedAt ?? dates.createdAt ?? now,
+    } as Node);
+  });
+
+  const groups: NodeGroup[] = [];
+  const groupIds = new Set<string>();
+  (Array.isArray(data.groups) ? data.groups : []).forEach((raw: any, index: number) => {
+    const path = `groups[${index}]`;
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id || groupIds.has(raw.id)) {
+      warn('invalid-group', path, 'Group has a missing or duplicate ID and was skipped');
+      return;
+    }
+    groupIds.add(raw.id);
+
+    const members = Array.isArray(raw.nodes) ? raw.nodes : [];
+    const validMembers = members.filter((id: any) => nodeIds.has(id));
+    if (validMembers.length !== members.length) {
+      warn('dangling-group-reference', `${path}.nodes`, `Group "${raw.name ?? raw.id}" lists ${members.length - validMembers.length} missing node(s); they were removed`);
+    }
+    groups.push({
+      ...raw,
+      name: typeof raw.name === 'string' ? raw.name : 'Untitled Group',
+      color: typeof raw.color === 'string' ? raw.color : '#3b82f6',
+      nodes: validMembers,
+    } as NodeGroup);
+  });
+
+  nodes.forEach((node, index) => {
+    if (node.groupId && !groupIds.has(node.groupId)) {
+      warn('dangling-group-reference', `nodes[${index}].groupId`, `Node "${node.id}" belongs to missing group "${node.groupId}"; it was ungrouped`);
+      nodes[index] = { ...node, groupId: undefined };
+    }
+  });
+
+  const connections: Connection[] = [];
+  const connectionIds = new Set<string>();
+  (Array.isArray(data.connections) ? data.connections : []).forEach((raw: any, index: number) => {
+    const path = `connections[${index}]`;
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id || connectionIds.has(raw.id)) {
+      warn('invalid-connection', path, 'Connection has a missing or duplicate ID and was skipped');
+      return;
+    }
+
+    const missing = (['fromNodeId', 'toNodeId'] as const).filter(key => !nodeIds.has(raw[key]));
+    if (missing.length > 0) {
+      missing.forEach(key => {
+        warn('dangling-connection', `${path}.${key}`, `Connection "${raw.id}" points to missing node "${raw[key]}" and was skipped`);
+      });
+      return;
+    }
+
+    connectionIds.add(raw.id);
+    connections.push({ ...raw, color: typeof raw.color === 'string' ? raw.color : '#000000' } as Connection);
+  });
+
+  const frames: Frame[] = [];
+  const frameIds = new Set<string>();
+  (Array.isArray(data.frames) ? data.frames : []).forEach((raw: any, index: number) => {
+    const path = `frames[${index}]`;
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id || frameIds.has(raw.id)) {
+      warn('invalid-frame', path, 'Frame has a missing or duplicate ID and was skipped');
+      return;
+    }
+    const { x, y, width, height } = raw;
+    if (![x, y, width, height].every(isFiniteNumber) || width <= 0 || height <= 0) {
+      warn('invalid-frame', path, `Frame "${raw.name ?? raw.id}" has an invalid position or size and was skipped`);
+      return;
+    }
+
+    frameIds.add(raw.id);
+    frames.push({ id: raw.id, name: typeof raw.name === 'string' ? raw.name : 'Untitled Frame', x, y, width, height });
+  });
+
+  let transform: CanvasTransform = { x: 0, y: 0, scale: 1 };
+  if (data.transform !== undefined) {
+    const t = isObject(data.transform) ? data.transform : {};
+    if (isFiniteNumber(t.x) && isFiniteNumber(t.y) && isFiniteNumber(t.scale) && t.scale > 0) {
+      transform = { x: t.x, y: t.y, scale: t.scale };
+    } else {
+      warn('invalid-transform', 'transform', 'Saved viewport is invalid; the view was reset');
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { data: null, issues };
+  }
+
+  return {
+    data: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      canvasName: typeof data.canvasName === 'string' && data.canvasName.trim() ? data.canvasName : 'Untitled Canvas',
+      nodes,
+      connections,
+      groups,
+      frames,
+      transform,
+    },
+    issues,
+  };
+};
+
+/**
+ * Parse, migrate and validate the text of a canvas file.
+ */
+export const parseCanvasFile = (text: string): CanvasImportResult => {
+  const report: CanvasImportReport = { success: false, schemaVersion: null, migratedFrom: null, issues: [] };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    report.issues.push({
+      code: 'invalid-json',
+      severity: 'error',
+      path: '',
+      message: `File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return { report, data: null };
+  }
+
+  const version = isObject(parsed) && parsed.schemaVersion !== undefined ? parsed.schemaVersion : LEGACY_SCHEMA_VERSION;
+  report.schemaVersion = version;
+
+  if (!Number.isInteger(version) || version < LEGACY_SCHEMA_VERSION) {
+    report.issues.push({ code: 'unsupported-version', severity: 'error', path: 'schemaVersion', message: `Unknown schema version "${version}"` });
+    return { report, data: null };
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    report.issues.push({
+      code: 'unsupported-version',
+      severity: 'error',
+      path: 'schemaVersion',
+      message: `File uses schema version ${version}, but this version of IdeaScape only reads up to ${CURRENT_SCHEMA_VERSION}. Please update the app.`,
+    });
+    return { report, data: null };
+  }
+
+  let migrated = parsed;
+  if (version < CURRENT_SCHEMA_VERSION) {
+    try {
+      migrated = migrateCanvasData(parsed, version);
+      report.migratedFrom = version;
+    } catch (error) {
+      report.issues.push({
+        code: 'migration-failed',
+        severity: 'error',
+        path: '',
+        message: `Could not upgrade file from schema version ${version}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return { report, data: null };
+    }
+  }
+
+  const { data, issues } = validateCanvasData(migrated);
+  report.issues.push(...issues);
+  report.success = data !== null;
+  return data ? { report, data } : { report, data: null };
+};
+
+/**
+ * One-line summary of an import report for toasts.
+ */
+export const summarizeImportReport = (report: CanvasImportReport): string => {
+  const errors = report.issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    return errors.length === 1 ? errors[0].message : `${errors[0].message} (and ${errors.length - 1} more errors)`;
+  }
+
+  const warnings = report.issues.filter(issue => issue.severity === 'warning');
+  if (warnings.length === 0) return 'Canvas imported';
+  return warnings.length === 1
+    ? `Imported with 1 problem fixed: ${warnings[0].message}`
+    : `Imported with ${warnings.length} problems fixed, e.g. ${warnings[0].message}`;
+};
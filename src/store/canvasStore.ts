@@ -1,5 +1,24 @@
 import { create } from 'zustand';
 import type { ConnectionSuggestion } from '../services/aiService';
+import {
+  applyHistoryEntry,
+  createHistory,
+  createHistoryEntry,
+  pushHistoryEntry,
+  trimHistory,
+  DEFAULT_HISTORY_LIMIT,
+  type CanvasDocument,
+  type HistoryState,
+} from './history';
+import { parseCanvasFile, CURRENT_SCHEMA_VERSION, type CanvasImportReport } from './canvasSchema';
+import { createEntityId, extractFragment, mergeFragment, type CanvasFragment } from './canvasMerge';
+import { TEXT_NODE_PARAGRAPH_STYLE } from '../utils/html';
+import { canvasStorage, type CanvasSummary } from '../services/storageService';
+import { createCanvasThumbnail } from '../utils/thumbnail';
+import { LAYOUT_LABELS, type LayoutType, type LayoutPositions } from './layout';
+import { layoutEngine } from '../services/layoutService';
+import { SpatialIndex } from './spatialIndex';
+import { nodeRect, unionRects, getVisibleBounds, type Rect, type Size } from '../utils/viewport';
 
 export interface Point {
   x: number;
@@ -46,12 +65,41 @@ export interface NodeGroup {
   nodes: string[];
 }
 
+// Area of the canvas shown as one slide of a presentation
+export interface Frame {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface CanvasTransform {
   x: number;
   y: number;
   scale: number;
 }
 
+export interface ViewportOptions {
+  animate?: boolean; // Glide to the new position (default true)
+  duration?: number; // Animation length in ms
+  recordHistory?: boolean; // Remember the previous position for viewportBack (default true)
+}
+
+// Part of the canvas an export covers
+export type ExportScope =
+  | { type: 'canvas' }
+  | { type: 'selection' }
+  | { type: 'group'; groupId: string }
+  | { type: 'viewport' };
+
+// What an export writes out: the nodes in scope with the connections between them
+export interface ExportContent extends CanvasFragment {
+  frames: Frame[]; // Only the whole canvas carries its presentation frames
+  area?: Rect; // Area to draw, for scopes tied to a place on the canvas
+}
+
 export interface SelectionBox {
   startX: number;
   startY: number;
@@ -61,24 +109,30 @@ export interface SelectionBox {
 }
 
 interface CanvasState {
+  canvasId: string; // Storage ID of the open canvas
   canvasName: string;
+  canvasLibrary: CanvasSummary[]; // All locally stored canvases, most recently opened first
   nodes: Node[];
   connections: Connection[];
   groups: NodeGroup[];
+  frames: Frame[]; // Presentation frames, in slide order
   transform: CanvasTransform;
+  viewportSize: Size; // Screen size of the canvas element
+  // Camera positions to step back and forward through, most recent last
+  viewportHistory: {
+    past: CanvasTransform[];
+    future: CanvasTransform[];
+  };
   selectedNodeId: string | null;
   selectedNodeIds: string[]; // Multi-select support
   selectionBox: SelectionBox;
   isDragging: boolean;
   isConnecting: boolean;
   connectingFromNodeId: string | null;
-  history: {
-    past: Array<{ nodes: Node[]; connections: Connection[]; groups: NodeGroup[] }>;
-    present: { nodes: Node[]; connections: Connection[]; groups: NodeGroup[] };
-    future: Array<{ nodes: Node[]; connections: Connection[]; groups: NodeGroup[] }>;
-  };
+  history: HistoryState;
   settings: {
     theme: 'light' | 'dark' | 'system';
+    historyLimit: number; // Maximum number of undo steps kept in memory
     profile: {
       username: string;
       email: string;
@@ -91,6 +145,23 @@ interface CanvasState {
   // Group highlighting state
   highlightedGroupId: string | null; // Currently highlighted group ID
   
+  // Presentation state
+  isDrawingFrame: boolean; // Dragging on the canvas draws a new frame
+  presentation: {
+    frameIndex: number;
+    returnTransform: CanvasTransform; // View to go back to when the presentation ends
+  } | null;
+  
+  // Running auto-organize layout, while it takes long enough to report progress
+  layoutProgress: {
+    layout: LayoutType;
+    nodeCount: number;
+    progress: number; // 0-1
+  } | null;
+  
+  // Auto-saves in a row that failed because browser storage is full
+  storageFullCount: number;
+  
   // AI suggestions state
   aiSuggestions: {
     connections: ConnectionSuggestion[];
@@ -106,7 +177,7 @@ interface CanvasActions {
   setCanvasName: (name: string) => void;
   
   // Node actions
-  addNode: (x: number, y: number) => void;
+  addNode: (x: number, y: number, content?: Node['content']) => void; // Content defaults to placeholder text
   addNodeAtCenter: () => void; // New method for keyboard shortcut
   duplicateNode: (id: string) => void; // Duplicate node action
   updateNode: (id: string, updates: Partial<Node>) => void;
@@ -134,6 +205,15 @@ interface CanvasActions {
   zoomIn: () => void;
   zoomOut: () => void;
   
+  // Camera actions
+  setViewportSize: (size: Size) => void;
+  setViewport: (transform: Partial<CanvasTransform>, options?: ViewportOptions) => void;
+  zoomToNodes: (ids: string[], padding?: number, options?: ViewportOptions) => void;
+  zoomToSelection: (padding?: number) => void;
+  centerOnNode: (id: string, options?: ViewportOptions & { scale?: number }) => void;
+  viewportBack: () => void;
+  viewportForward: () => void;
+  
   // Canvas actions
   setDragging: (isDragging: boolean) => void;
   setConnecting: (isConnecting: boolean, fromNodeId?: string) => void;
@@ -147,22 +227,44 @@ interface CanvasActions {
   // History actions
   undo: () => void;
   redo: () => void;
-  saveToHistory: () => void;
+  setHistoryLimit: (limit: number) => void;
+  
+  // Canvas library
+  refreshCanvasLibrary: () => Promise<void>;
+  // Both save the open canvas first, and throw when that fails unless told not to save it
+  openCanvas: (canvasId: string, saveCurrent?: boolean) => Promise<boolean>;
+  createCanvas: (name?: string, saveCurrent?: boolean) => Promise<void>;
+  renameCanvas: (canvasId: string, name: string) => Promise<void>;
+  duplicateCanvas: (canvasId: string) => Promise<string | null>;
+  deleteCanvas: (canvasId: string) => Promise<void>;
   
   // Save/Load
-  exportCanvas: () => string;
-  importCanvas: (data: string) => void;
+  getExportContent: (scope?: ExportScope) => ExportContent; // Defaults to the whole canvas
+  exportCanvas: (scope?: ExportScope) => string;
+  importCanvas: (data: string) => CanvasImportReport; // Replaces the canvas unless the report has errors
+  mergeCanvas: (data: string, options?: { matchGroupsByName?: boolean }) => CanvasImportReport; // Adds a canvas file to the current one
+  
+  // Clipboard
+  getSelectedFragment: () => CanvasFragment | null; // Selected nodes with their connections and groups
+  pasteNodes: (data: string, position: Point) => CanvasImportReport; // Inserts copied nodes with fresh IDs
+  pasteText: (html: string, position: Point) => string; // Creates a text node from pasted text or HTML, returning its ID
+  pasteOutline: (fragment: CanvasFragment, position: Point, replaceNodeId?: string) => void; // Inserts nodes made from pasted text, in place of its plain paste
   newCanvas: () => void;
-  autoSave: () => void; // Auto-save to localStorage
-  loadAutoSave: () => boolean; // Load from localStorage
+  autoSave: () => Promise<boolean>; // Auto-save the open canvas to IndexedDB, resolving whether it was saved
+  loadAutoSave: () => Promise<boolean>; // Reopen the last canvas, migrating old localStorage saves
   
   // Settings actions
   updateSettings: (updates: Partial<CanvasState['settings']>) => void;
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   
   // Storage management
-  cleanupStorage: () => void;
-  getStorageInfo: () => { used: number; available: number; total: number };
+  cleanupStorage: () => Promise<void>;
+  getStorageInfo: () => Promise<{ used: number; available: number; total: number }>;
+  
+  // Spatial queries, backed by a quadtree over the nodes
+  getNodeById: (id: string) => Node | undefined;
+  getNodesInRect: (rect: Rect) => Node[]; // Nodes overlapping the area, in drawing order
+  findNearestNode: (point: Point, maxDistance: number, excludeIds?: string[]) => Node | null;
   
   // Search functions
   searchNodesByContent: (query: string) => Node[];
@@ -198,8 +300,21 @@ interface CanvasActions {
   // Group highlighting actions
   setHighlightedGroup: (groupId: string | null) => void;
   
+  // Frame and presentation actions
+  addFrame: (rect: { x: number; y: number; width: number; height: number }, name?: string) => string;
+  addFramesFromGroups: (groupIds?: string[]) => number;
+  updateFrame: (id: string, updates: Partial<Omit<Frame, 'id'>>) => void;
+  deleteFrame: (id: string) => void;
+  moveFrame: (id: string, toIndex: number) => void;
+  zoomToFrame: (id: string, options?: ViewportOptions) => void;
+  setDrawingFrame: (isDrawingFrame: boolean) => void;
+  startPresentation: (frameIndex?: number) => void;
+  stopPresentation: () => void;
+  goToFrame: (frameIndex: number) => void;
+  
   // Layout actions
-  autoOrganizeNodes: (layout: 'grid' | 'mindmap', centerNodeId?: string) => void;
+  autoOrganizeNodes: (layout?: LayoutType, centerNodeId?: string) => void;
+  cancelLayout: () => void;
   
   // Collaboration actions
   setNodes: (nodes: Node[]) => void;
@@ -207,8 +322,39 @@ interface CanvasActions {
   setGroups: (groups: NodeGroup[]) => void;
 }
 
+// Storage ID of the first canvas, which also receives saves migrated from localStorage
+const DEFAULT_CANVAS_ID = 'autosave';
+
+// localStorage key remembering which canvas to reopen on the next visit
+const CURRENT_CANVAS_KEY = 'ideascape_current_canvas';
+
+const rememberCurrentCanvas = (canvasId: string) => {
+  try {
+    localStorage.setItem(CURRENT_CANVAS_KEY, canvasId);
+  } catch (error) {
+    console.warn('Failed to remember current canvas:', error);
+  }
+};
+
+// Thumbnails are redrawn at most this often while a canvas is being edited
+const THUMBNAIL_INTERVAL = 5000;
+let lastThumbnail = { canvasId: '', nodes: null as Node[] | null, renderedAt: 0 };
+
+// Returns undefined when the stored thumbnail is still good enough
+const thumbnailFor = (state: CanvasState): string | undefined => {
+  const now = Date.now();
+  if (lastThumbnail.canvasId === state.canvasId &&
+      (lastThumbnail.nodes === state.nodes || now - lastThumbnail.renderedAt < THUMBNAIL_INTERVAL)) {
+    return undefined;
+  }
+  lastThumbnail = { canvasId: state.canvasId, nodes: state.nodes, renderedAt: now };
+  return createCanvasThumbnail(state.nodes, state.connections, state.groups) ?? '';
+};
+
 const initialState: CanvasState = {
+  canvasId: DEFAULT_CANVAS_ID,
   canvasName: 'Untitled Canvas',
+  canvasLibrary: [],
   nodes: [],
   connections: [],
   groups: [
@@ -216,7 +362,12 @@ const initialState: CanvasState = {
     { id: 'blue', name: 'Blue Group', color: '#3b82f6', nodes: [] },
     { id: 'green', name: 'Green Group', color: '#10b981', nodes: [] },
   ],
+  frames: [],
   transform: { x: 0, y: 0, scale: 1 },
+  viewportSize: typeof window !== 'undefined'
+    ? { width: window.innerWidth, height: window.innerHeight }
+    : { width: 0, height: 0 },
+  viewportHistory: { past: [], future: [] },
   selectedNodeId: null,
   selectedNodeIds: [],
   selectionBox: {
@@ -229,13 +380,10 @@ const initialState: CanvasState = {
   isDragging: false,
   isConnecting: false,
   connectingFromNodeId: null,
-  history: {
-    past: [],
-    present: { nodes: [], connections: [], groups: [] },
-    future: [],
-  },
+  history: createHistory(),
   settings: {
     theme: 'system',
+    historyLimit: DEFAULT_HISTORY_LIMIT,
     profile: {
       username: '',
       email: '',
@@ -244,6 +392,10 @@ const initialState: CanvasState = {
   activeTagFilter: null,
   hiddenNodes: new Set(),
   highlightedGroupId: null,
+  isDrawingFrame: false,
+  presentation: null,
+  layoutProgress: null,
+  storageFullCount: 0,
   aiSuggestions: {
     connections: [],
     groupSummary: null,
@@ -253,6 +405,88 @@ const initialState: CanvasState = {
   },
 };
 
+const documentOf = (state: CanvasState): CanvasDocument => ({
+  nodes: state.nodes,
+  connections: state.connections,
+  groups: state.groups,
+  frames: state.frames,
+});
+
+// Apply document changes and record them as a single undoable history entry
+const withHistory = (
+  state: CanvasState,
+  changes: Partial<CanvasState>,
+  label: string,
+  coalesceKey?: string,
+): Partial<CanvasState> => {
+  const entry = createHistoryEntry(label, documentOf(state), {
+    nodes: changes.nodes ?? state.nodes,
+    connections: changes.connections ?? state.connections,
+    groups: changes.groups ?? state.groups,
+    frames: changes.frames ?? state.frames,
+  }, coalesceKey);
+
+  return entry ? { ...changes, history: pushHistoryEntry(state.history, entry) } : changes;
+};
+
+/**
+ * Lookup structures over the nodes array: an ID map, each node's drawing order
+ * and a quadtree of the node rectangles. They are brought up to date lazily by
+ * diffing against the nodes array they were last built from, so every action
+ * that adds, moves, resizes or deletes nodes is covered without having to
+ * update them itself.
+ */
+const nodeIndex = {
+  nodes: [] as Node[],
+  byId: new Map<string, Node>(),
+  order: new Map<string, number>(),
+  tree: new SpatialIndex(),
+};
+
+const syncNodeIndex = (nodes: Node[]) => {
+  if (nodes === nodeIndex.nodes) return nodeIndex;
+
+  const byId = new Map<string, Node>();
+  const order = new Map<string, number>();
+  nodes.forEach((node, index) => {
+    byId.set(node.id, node);
+    order.set(node.id, index);
+
+    const previous = nodeIndex.byId.get(node.id);
+    if (!previous) {
+      nodeIndex.tree.insert(node.id, nodeRect(node));
+    } else if (previous !== node && (
+      previous.x !== node.x || previous.y !== node.y || previous.width !== node.width || previous.height !== node.height
+    )) {
+      nodeIndex.tree.update(node.id, nodeRect(node));
+    }
+  });
+  nodeIndex.byId.forEach((_, id) => {
+    if (!byId.has(id)) nodeIndex.tree.remove(id);
+  });
+
+  nodeIndex.nodes = nodes;
+  nodeIndex.byId = byId;
+  nodeIndex.order = order;
+  return nodeIndex;
+};
+
+// Drop selected IDs that no longer exist after the document changed underneath the selection
+const pruneSelection = (state: CanvasState, nodes: Node[]): Partial<CanvasState> => {
+  const ids = new Set(nodes.map(node => node.id));
+  return {
+    selectedNodeId: state.selectedNodeId && ids.has(state.selectedNodeId) ? state.selectedNodeId : null,
+    selectedNodeIds: state.selectedNodeIds.filter(id => ids.has(id)),
+  };
+};
+
+// Mark the selected nodes, copying only those whose flag changes so saves don't rewrite every node
+const markSelected = (nodes: Node[], isSelected: (node: Node) => boolean) =>
+  nodes.map(node => {
+    const selected = isSelected(node);
+    return node.selected === selected ? node : { ...node, selected };
+  });
+
 export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) => ({
   ...initialState,
 
@@ -264,27 +498,19 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
   },
 
   clearCanvas: () => {
-    set(state => {
-      const newState = {
-        ...state,
-        nodes: [],
-        connections: [],
-        selectedNodeId: null,
-      };
-      
-      newState.history.past.push(state.history.present);
-      newState.history.present = {
-        nodes: [],
-        connections: [],
-        groups: newState.groups,
-      };
-      newState.history.future = [];
-      
-      return newState;
-    });
+    set(state => withHistory(state, {
+      nodes: [],
+      connections: [],
+      groups: state.groups.map(group => ({ ...group, nodes: [] })),
+      selectedNodeId: null,
+      selectedNodeIds: [],
+    }, 'Clear canvas'));
+    
+    // Auto-save after clearing canvas
+    setTimeout(() => get().autoSave(), 100);
   },
 
-  addNode: (x, y) => {
+  addNode: (x, y, content) => {
     const now = new Date();
     const newNode: Node = {
       id: `node-${Date.now()}`,
@@ -292,7 +518,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       y,
       width: 200,
       height: 120,
-      content: { type: 'text', value: '<p style="font-size: 14px;">Double-click to edit</p>' },
+      content: content ?? { type: 'text', value: '<p style="font-size: 14px;">Double-click to edit</p>' },
       color: '#ffffff',
       selected: false,
       isNew: true, // Mark as new for animation
@@ -300,26 +526,13 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       updatedAt: now,
     };
     
-    set(state => {
-      const newState = { ...state, nodes: [...state.nodes, newNode] };
-      newState.history.past.push(state.history.present);
-      newState.history.present = {
-        nodes: newState.nodes,
-        connections: newState.connections,
-        groups: newState.groups,
-      };
-      newState.history.future = [];
-      
-      // Auto-save after adding node
-      setTimeout(() => get().autoSave(), 100);
-      
-      return newState;
-    });
+    set(state => withHistory(state, { nodes: [...state.nodes, newNode] }, 'Add node'));
+    
+    // Auto-save after adding node
+    setTimeout(() => get().autoSave(), 100);
     
     // Remove the isNew flag after animation duration
-    setTimeout(() => {
-      get().updateNode(newNode.id, { isNew: false });
-    }, 600); // Match animation duration
+    setTimeout(() => clearNewFlag(newNode.id), 600); // Match animation duration
   },
 
   addNodeAtCenter: () => {
@@ -348,31 +561,27 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       updatedAt: now,
     };
     
-    set(state => {
-      const newState = { ...state, nodes: [...state.nodes, newNode] };
-      newState.history.past.push(state.history.present);
-      newState.history.present = {
-        nodes: newState.nodes,
-        connections: newState.connections,
-        groups: newState.groups,
-      };
-      newState.history.future = [];
-      
-      // Auto-save after duplicating node
-      setTimeout(() => get().autoSave(), 100);
-      
-      return newState;
-    });
+    set(state => withHistory(state, {
+      nodes: [...state.nodes, newNode],
+      groups: newNode.groupId
+        ? state.groups.map(group => 
+            group.id === newNode.groupId ? { ...group, nodes: [...group.nodes, newNode.id] } : group
+          )
+        : state.groups,
+    }, 'Duplicate node'));
+    
+    // Auto-save after duplicating node
+    setTimeout(() => get().autoSave(), 100);
     
     // Remove the isNew flag after animation duration
-    setTimeout(() => {
-      get().updateNode(newNode.id, { isNew: false });
-    }, 600);
+    setTimeout(() => clearNewFlag(newNode.id), 600);
   },
 
   updateNode: (id, updates) => {
-    set(state => ({
-      ...state,
+    // Consecutive updates of the same fields (drag moves, resizes, typing) coalesce into one undo step
+    const coalesceKey = `updateNode:${id}:${Object.keys(updates).sort().join(',')}`;
+    
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         node.id === id ? { 
           ...node, 
@@ -380,40 +589,29 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
           updatedAt: new Date() // Update timestamp whenever node is modified
         } : node
       ),
-    }));
+    }, 'Edit node', coalesceKey));
     
     // Auto-save after updating node
     setTimeout(() => get().autoSave(), 500);
   },
 
   deleteNode: (id) => {
-    set(state => {
-      const newState = {
-        ...state,
-        nodes: state.nodes.filter(node => node.id !== id),
-        connections: state.connections.filter(
-          conn => conn.fromNodeId !== id && conn.toNodeId !== id
-        ),
-        groups: state.groups.map(group => ({
-          ...group,
-          nodes: group.nodes.filter(nodeId => nodeId !== id),
-        })),
-        selectedNodeId: state.selectedNodeId === id ? null : state.selectedNodeId,
-      };
-      
-      newState.history.past.push(state.history.present);
-      newState.history.present = {
-        nodes: newState.nodes,
-        connections: newState.connections,
-        groups: newState.groups,
-      };
-      newState.history.future = [];
-      
-      // Auto-save after deleting node
-      setTimeout(() => get().autoSave(), 100);
-      
-      return newState;
-    });
+    set(state => withHistory(state, {
+      nodes: state.nodes.filter(node => node.id !== id),
+      connections: state.connections.filter(
+        conn => conn.fromNodeId !== id && conn.toNodeId !== id
+      ),
+      groups: state.groups.map(group => 
+        group.nodes.includes(id)
+          ? { ...group, nodes: group.nodes.filter(nodeId => nodeId !== id) }
+          : group
+      ),
+      selectedNodeId: state.selectedNodeId === id ? null : state.selectedNodeId,
+      selectedNodeIds: state.selectedNodeIds.filter(nodeId => nodeId !== id),
+    }, 'Delete node'));
+    
+    // Auto-save after deleting node
+    setTimeout(() => get().autoSave(), 100);
   },
 
   selectNode: (id) => {
@@ -421,10 +619,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       ...state,
       selectedNodeId: id,
       selectedNodeIds: id ? [id] : [],
-      nodes: state.nodes.map(node => ({
-        ...node,
-        selected: node.id === id,
-      })),
+      nodes: markSelected(state.nodes, node => node.id === id),
     }));
   },
 
@@ -433,10 +628,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       ...state,
       selectedNodeId: null, // Clear single selection
       selectedNodeIds: ids,
-      nodes: state.nodes.map(node => ({
-        ...node,
-        selected: ids.includes(node.id),
-      })),
+      nodes: markSelected(state.nodes, node => ids.includes(node.id)),
     }));
   },
 
@@ -445,42 +637,29 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       ...state,
       selectedNodeId: null,
       selectedNodeIds: [],
-      nodes: state.nodes.map(node => ({
-        ...node,
-        selected: false,
-      })),
+      nodes: markSelected(state.nodes, () => false),
     }));
   },
 
   deleteNodes: (ids) => {
-    set(state => {
-      const newState = {
-        ...state,
-        nodes: state.nodes.filter(node => !ids.includes(node.id)),
-        connections: state.connections.filter(
-          conn => !ids.includes(conn.fromNodeId) && !ids.includes(conn.toNodeId)
-        ),
-        groups: state.groups.map(group => ({
-          ...group,
-          nodes: group.nodes.filter(nodeId => !ids.includes(nodeId)),
-        })),
-        selectedNodeId: null,
-        selectedNodeIds: [],
-      };
-      
-      newState.history.past.push(state.history.present);
-      newState.history.present = {
-        nodes: newState.nodes,
-        connections: newState.connections,
-        groups: newState.groups,
-      };
-      newState.history.future = [];
-      
-      // Auto-save after deleting nodes
-      setTimeout(() => get().autoSave(), 100);
-      
-      return newState;
-    });
+    const idSet = new Set(ids);
+    
+    set(state => withHistory(state, {
+      nodes: state.nodes.filter(node => !idSet.has(node.id)),
+      connections: state.connections.filter(
+        conn => !idSet.has(conn.fromNodeId) && !idSet.has(conn.toNodeId)
+      ),
+      groups: state.groups.map(group => 
+        group.nodes.some(nodeId => idSet.has(nodeId))
+          ? { ...group, nodes: group.nodes.filter(nodeId => !idSet.has(nodeId)) }
+          : group
+      ),
+      selectedNodeId: null,
+      selectedNodeIds: [],
+    }, `Delete ${ids.length} nodes`));
+    
+    // Auto-save after deleting nodes
+    setTimeout(() => get().autoSave(), 100);
   },
 
   addConnection: (fromNodeId, toNodeId, fromPoint, toPoint) => {
@@ -503,22 +682,20 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       color: '#000000',
     };
 
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       connections: [...state.connections, newConnection],
       isConnecting: false,
       connectingFromNodeId: null,
-    }));
+    }, 'Add connection'));
     
     // Auto-save after adding connection
     setTimeout(() => get().autoSave(), 100);
   },
 
   deleteConnection: (id) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       connections: state.connections.filter(conn => conn.id !== id),
-    }));
+    }, 'Delete connection'));
     
     // Auto-save after deleting connection
     setTimeout(() => get().autoSave(), 100);
@@ -532,34 +709,47 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       nodes: nodeIds,
     };
 
-    set(state => ({
-      ...state,
-      groups: [...state.groups, newGroup],
+    set(state => withHistory(state, {
+      groups: [
+        ...state.groups.map(group => 
+          group.nodes.some(id => nodeIds.includes(id))
+            ? { ...group, nodes: group.nodes.filter(id => !nodeIds.includes(id)) }
+            : group
+        ),
+        newGroup,
+      ],
       nodes: state.nodes.map(node => 
         nodeIds.includes(node.id) 
           ? { ...node, groupId: newGroup.id }
           : node
       ),
-    }));
+    }, 'Add group'));
+    
+    // Auto-save after adding group
+    setTimeout(() => get().autoSave(), 100);
   },
 
   updateGroup: (id, updates) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       groups: state.groups.map(group => 
         group.id === id ? { ...group, ...updates } : group
       ),
-    }));
+    }, 'Edit group', `updateGroup:${id}`));
+    
+    // Auto-save after updating group
+    setTimeout(() => get().autoSave(), 100);
   },
 
   deleteGroup: (id) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       groups: state.groups.filter(group => group.id !== id),
       nodes: state.nodes.map(node => 
         node.groupId === id ? { ...node, groupId: undefined } : node
       ),
-    }));
+    }, 'Delete group'));
+    
+    // Auto-save after deleting group
+    setTimeout(() => get().autoSave(), 100);
   },
 
   assignNodesToGroup: (nodeIds, groupId) => {
@@ -567,8 +757,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       const group = state.groups.find(g => g.id === groupId);
       if (!group) return state;
 
-      return {
-        ...state,
+      return withHistory(state, {
         nodes: state.nodes.map(node => 
           nodeIds.includes(node.id) 
             ? { ...node, groupId: groupId }
@@ -579,8 +768,11 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
             ? { ...g, nodes: [...new Set([...g.nodes, ...nodeIds])] }
             : { ...g, nodes: g.nodes.filter(id => !nodeIds.includes(id)) }
         ),
-      };
+      }, 'Assign nodes to group');
     });
+    
+    // Auto-save after assigning nodes
+    setTimeout(() => get().autoSave(), 100);
   },
 
   addNodeToGroup: (nodeId, groupId) => {
@@ -588,8 +780,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       const group = state.groups.find(g => g.id === groupId);
       if (!group) return state;
 
-      return {
-        ...state,
+      return withHistory(state, {
         nodes: state.nodes.map(node => 
           node.id === nodeId 
             ? { ...node, groupId: groupId }
@@ -600,26 +791,34 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
             ? { ...g, nodes: [...new Set([...g.nodes, nodeId])] }
             : { ...g, nodes: g.nodes.filter(id => id !== nodeId) }
         ),
-      };
+      }, 'Add node to group');
     });
+    
+    // Auto-save after adding node to group
+    setTimeout(() => get().autoSave(), 100);
   },
 
   removeNodesFromGroups: (nodeIds) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         nodeIds.includes(node.id) 
           ? { ...node, groupId: undefined }
           : node
       ),
-      groups: state.groups.map(group => ({
-        ...group,
-        nodes: group.nodes.filter(id => !nodeIds.includes(id)),
-      })),
-    }));
+      groups: state.groups.map(group => 
+        group.nodes.some(id => nodeIds.includes(id))
+          ? { ...group, nodes: group.nodes.filter(id => !nodeIds.includes(id)) }
+          : group
+      ),
+    }, 'Remove nodes from groups'));
+    
+    // Auto-save after removing nodes from groups
+    setTimeout(() => get().autoSave(), 100);
   },
 
   setTransform: (transform) => {
+    // Direct panning and zooming take over from a camera move in progress
+    stopCameraAnimation();
     set(state => ({
       ...state,
       transform: { ...state.transform, ...transform },
@@ -669,6 +868,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
   },
 
   zoomIn: () => {
+    stopCameraAnimation();
     set(state => {
       const newScale = Math.min(state.transform.scale * 1.2, 3);
       return {
@@ -679,6 +879,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
   },
 
   zoomOut: () => {
+    stopCameraAnimation();
     set(state => {
       const newScale = Math.max(state.transform.scale / 1.2, 0.1);
       return {
@@ -688,6 +889,84 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
     });
   },
 
+  setViewportSize: (size) => {
+    set({ viewportSize: size });
+  },
+
+  setViewport: (transform, options = {}) => {
+    const { animate = true, duration = CAMERA_ANIMATION_DURATION, recordHistory = true } = options;
+    const state = get();
+    const target = { ...state.transform, ...transform };
+
+    if (recordHistory) {
+      set({
+        viewportHistory: {
+          past: [...state.viewportHistory.past, state.transform].slice(-VIEWPORT_HISTORY_LIMIT),
+          future: [],
+        },
+      });
+    }
+
+    if (!animate || duration <= 0 || window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      stopCameraAnimation();
+      set({ transform: target });
+      return;
+    }
+    animateCamera(target, duration);
+  },
+
+  zoomToNodes: (ids, padding = 100, options) => {
+    const state = get();
+    const bounds = ids
+      .map(id => state.getNodeById(id))
+      .filter((node): node is Node => !!node)
+      .map(nodeRect)
+      .reduce<Rect | null>((union, rect) => union ? unionRects(union, rect) : rect, null);
+    if (!bounds) return;
+
+    state.setViewport(fitRect(bounds, state.viewportSize, padding, MAX_FIT_ZOOM), options);
+  },
+
+  zoomToSelection: (padding) => {
+    const state = get();
+    const ids = state.selectedNodeIds.length > 0
+      ? state.selectedNodeIds
+      : state.selectedNodeId ? [state.selectedNodeId] : [];
+    state.zoomToNodes(ids, padding);
+  },
+
+  centerOnNode: (id, options = {}) => {
+    const state = get();
+    const node = state.getNodeById(id);
+    if (!node) return;
+
+    const { scale = state.transform.scale, ...viewportOptions } = options;
+    const { width, height } = state.viewportSize;
+    state.setViewport({
+      x: width / 2 - (node.x + node.width / 2) * scale,
+      y: height / 2 - (node.y + node.height / 2) * scale,
+      scale,
+    }, viewportOptions);
+  },
+
+  viewportBack: () => {
+    const state = get();
+    const { past, future } = state.viewportHistory;
+    if (past.length === 0) return;
+
+    set({ viewportHistory: { past: past.slice(0, -1), future: [state.transform, ...future] } });
+    state.setViewport(past[past.length - 1], { recordHistory: false });
+  },
+
+  viewportForward: () => {
+    const state = get();
+    const { past, future } = state.viewportHistory;
+    if (future.length === 0) return;
+
+    set({ viewportHistory: { past: [...past, state.transform], future: future.slice(1) } });
+    state.setViewport(future[0], { recordHistory: false });
+  },
+
   setDragging: (isDragging) => {
     set({ isDragging });
   },
@@ -698,285 +977,404 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
 
   undo: () => {
     set(state => {
-      if (state.history.past.length === 0) return state;
+      const entry = state.history.past[state.history.past.length - 1];
+      if (!entry) return state;
       
-      const previous = state.history.past[state.history.past.length - 1];
-      const newPast = state.history.past.slice(0, -1);
+      const document = applyHistoryEntry(documentOf(state), entry, 'undo');
       
       return {
-        ...state,
-        ...previous,
+        ...document,
+        ...pruneSelection(state, document.nodes),
         history: {
-          past: newPast,
-          present: state.history.present,
-          future: [state.history.present, ...state.history.future],
+          ...state.history,
+          past: state.history.past.slice(0, -1),
+          future: [entry, ...state.history.future],
         },
       };
     });
+    
+    // Auto-save after undo
+    setTimeout(() => get().autoSave(), 100);
   },
 
   redo: () => {
     set(state => {
-      if (state.history.future.length === 0) return state;
+      const entry = state.history.future[0];
+      if (!entry) return state;
       
-      const next = state.history.future[0];
-      const newFuture = state.history.future.slice(1);
+      const document = applyHistoryEntry(documentOf(state), entry, 'redo');
       
       return {
-        ...state,
-        ...next,
+        ...document,
+        ...pruneSelection(state, document.nodes),
         history: {
-          past: [...state.history.past, state.history.present],
-          present: next,
-          future: newFuture,
+          ...state.history,
+          past: [...state.history.past, entry],
+          future: state.history.future.slice(1),
         },
       };
     });
+    
+    // Auto-save after redo
+    setTimeout(() => get().autoSave(), 100);
   },
 
-  saveToHistory: () => {
+  setHistoryLimit: (limit) => {
     set(state => ({
       ...state,
-      history: {
-        past: [...state.history.past, state.history.present],
-        present: {
-          nodes: state.nodes,
-          connections: state.connections,
-          groups: state.groups,
-        },
-        future: [],
-      },
+      settings: { ...state.settings, historyLimit: limit },
+      history: trimHistory(state.history, limit),
     }));
+    
+    // Auto-save after changing the history limit
+    setTimeout(() => get().autoSave(), 100);
+  },
+
+  getExportContent: (scope = { type: 'canvas' }) => {
+    const state = get();
+    switch (scope.type) {
+      case 'canvas':
+        return { nodes: state.nodes, connections: state.connections, groups: state.groups, frames: state.frames };
+      case 'selection': {
+        const ids = state.selectedNodeIds.length > 0
+          ? state.selectedNodeIds
+          : state.selectedNodeId ? [state.selectedNodeId] : [];
+        return { ...extractFragment(documentOf(state), ids), frames: [] };
+      }
+      case 'group': {
+        const group = state.groups.find(g => g.id === scope.groupId);
+        return { ...extractFragment(documentOf(state), group?.nodes ?? []), frames: [] };
+      }
+      case 'viewport': {
+        const area = getVisibleBounds(state.transform, state.viewportSize);
+        const ids = get().getNodesInRect(area).map(node => node.id);
+        return { ...extractFragment(documentOf(state), ids), frames: [], area };
+      }
+    }
   },
 
-  exportCanvas: () => {
+  exportCanvas: (scope) => {
     const state = get();
+    const content = get().getExportContent(scope);
     return JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       canvasName: state.canvasName,
-      nodes: state.nodes,
-      connections: state.connections,
-      groups: state.groups,
+      nodes: content.nodes,
+      connections: content.connections,
+      groups: content.groups,
+      frames: content.frames,
       transform: state.transform,
     }, null, 2);
   },
 
   importCanvas: (data) => {
-    try {
-      const parsed = JSON.parse(data);
-      const now = new Date();
-      
-      // Handle legacy nodes that don't have timestamps
-      const nodesWithTimestamps = (parsed.nodes || []).map((node: any) => ({
-        ...node,
-        createdAt: node.createdAt || now,
-        updatedAt: node.updatedAt || now,
-      }));
-      
-      set(state => ({
-        ...state,
-        canvasName: parsed.canvasName || 'Untitled Canvas',
-        nodes: nodesWithTimestamps,
-        connections: parsed.connections || [],
-        groups: parsed.groups || [],
-        transform: parsed.transform || { x: 0, y: 0, scale: 1 },
-        selectedNodeId: null,
-        selectedNodeIds: [], // Clear multi-selection
-        highlightedGroupId: null, // Clear group highlighting
-        activeTagFilter: null, // Clear tag filters
-        hiddenNodes: new Set(), // Reset hidden nodes
-        aiSuggestions: { // Clear AI suggestions
-          connections: [],
-          groupSummary: null,
-          groupNames: [],
-          isLoading: false,
-          error: null,
-        },
+    // Older files are migrated to the current schema, then validated
+    const { report, data: parsed } = parseCanvasFile(data);
+    if (!parsed) {
+      console.warn('Canvas import rejected:', report.issues);
+      return report;
+    }
+    
+    set(state => ({
+      ...state,
+      canvasName: parsed.canvasName,
+      nodes: parsed.nodes,
+      connections: parsed.connections,
+      groups: parsed.groups,
+      frames: parsed.frames,
+      transform: parsed.transform,
+      selectedNodeId: null,
+      selectedNodeIds: [], // Clear multi-selection
+      history: createHistory(state.settings.historyLimit), // Imported canvas starts a fresh history
+      highlightedGroupId: null, // Clear group highlighting
+      activeTagFilter: null, // Clear tag filters
+      hiddenNodes: new Set(), // Reset hidden nodes
+      aiSuggestions: { // Clear AI suggestions
+        connections: [],
+        groupSummary: null,
+        groupNames: [],
+        isLoading: false,
+        error: null,
+      },
+    }));
+    
+    // Auto-close any open dialog boxes with a simple event dispatch
+    setTimeout(() => {
+      // Dispatch event to close all dialogs - components will handle this
+      window.dispatchEvent(new CustomEvent('closeAllDialogs'));
+    }, 50);
+    
+    return report;
+  },
+
+  mergeCanvas: (data, options = {}) => {
+    const { report, data: parsed } = parseCanvasFile(data);
+    if (!parsed) {
+      console.warn('Canvas merge rejected:', report.issues);
+      return report;
+    }
+    
+    const state = get();
+    // Place the imported content around the middle of the current view
+    const center = {
+      x: (window.innerWidth / 2 - state.transform.x) / state.transform.scale,
+      y: (window.innerHeight / 2 - state.transform.y) / state.transform.scale,
+    };
+    insertFragment(parsed, center, `Import ${parsed.canvasName}`, options.matchGroupsByName);
+    
+    setTimeout(() => {
+      window.dispatchEvent(new CustomEvent('closeAllDialogs'));
+    }, 50);
+    
+    return report;
+  },
+
+  getSelectedFragment: () => {
+    const state = get();
+    const ids = state.selectedNodeIds.length > 0
+      ? state.selectedNodeIds
+      : state.selectedNodeId ? [state.selectedNodeId] : [];
+    if (ids.length === 0) return null;
+    
+    return extractFragment(documentOf(state), ids);
+  },
+
+  pasteNodes: (data, position) => {
+    const { report, data: parsed } = parseCanvasFile(data);
+    if (!parsed) {
+      console.warn('Paste rejected:', report.issues);
+      return report;
+    }
+    
+    // Pasting into a board that has a group of the same name puts the copies in that group
+    insertFragment(parsed, position, 'Paste nodes', true);
+    return report;
+  },
+
+  pasteText: (html, position) => {
+    const now = new Date();
+    const newNode: Node = {
+      id: `node-${Date.now()}`,
+      x: position.x - 100, // Center the default node size on the cursor
+      y: position.y - 60,
+      width: 200,
+      height: 120,
+      content: { type: 'text', value: html || `<p style="${TEXT_NODE_PARAGRAPH_STYLE}"></p>` },
+      color: '#ffffff',
+      selected: false,
+      isNew: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    set(state => withHistory(state, { nodes: [...state.nodes, newNode] }, 'Paste text'));
+    get().selectNode(newNode.id);
+    
+    // Auto-save after pasting
+    setTimeout(() => get().autoSave(), 100);
+    
+    // Remove the isNew flag after animation duration
+    setTimeout(() => clearNewFlag(newNode.id), 600);
+    return newNode.id;
+  },
+
+  pasteOutline: (fragment, position, replaceNodeId) => {
+    const document = documentOf(get());
+    // Swapping the plain paste for the tree is one step, so undo brings the plain text back
+    const base = replaceNodeId
+      ? {
+          ...document,
+          nodes: document.nodes.filter(node => node.id !== replaceNodeId),
+          connections: document.connections.filter(conn => conn.fromNodeId !== replaceNodeId && conn.toNodeId !== replaceNodeId),
+          groups: document.groups.map(group => ({ ...group, nodes: group.nodes.filter(id => id !== replaceNodeId) })),
+        }
+      : document;
+    insertFragment(fragment, position, 'Paste as mind map', false, base);
+  },
+
+  newCanvas: () => {
+    // The previous canvas stays in the library
+    get().createCanvas().catch(error => {
+      console.error('Failed to create canvas:', error);
+      import('sonner@2.0.3').then(module => module.toast.error('Failed to create canvas', {
+        description: error instanceof Error ? error.message : undefined,
       }));
-      
-      // Auto-close any open dialog boxes with a simple event dispatch
-      setTimeout(() => {
-        // Dispatch event to close all dialogs - components will handle this
-        window.dispatchEvent(new CustomEvent('closeAllDialogs'));
-      }, 50);
-      
+    });
+  },
+
+  refreshCanvasLibrary: async () => {
+    try {
+      const canvasLibrary = await canvasStorage.listCanvases();
+      set(state => ({ ...state, canvasLibrary }));
     } catch (error) {
-      console.error('Failed to import canvas data:', error);
+      console.warn('Failed to list canvases:', error);
     }
   },
 
-  newCanvas: () => {
-    set({
+  openCanvas: async (canvasId, saveCurrent = true) => {
+    if (saveCurrent && canvasId !== get().canvasId && !(await get().autoSave())) {
+      // Replacing the canvas would lose the edits that couldn't be saved
+      throw new Error('The open canvas could not be saved');
+    }
+
+    const data = await canvasStorage.loadCanvas(canvasId);
+    if (!data) return false;
+
+    stopCameraAnimation();
+    set(state => ({
       ...initialState,
-      canvasName: 'Untitled Canvas',
-      history: {
-        past: [],
-        present: { nodes: [], connections: [], groups: initialState.groups },
-        future: [],
-      },
-    });
-    
-    // Clear auto-save when creating new canvas
-    localStorage.removeItem('mindmap-autosave');
+      canvasId,
+      canvasName: data.canvasName || 'Untitled Canvas',
+      nodes: data.nodes,
+      connections: data.connections,
+      groups: data.groups,
+      frames: data.frames ?? [],
+      transform: data.transform || { x: 0, y: 0, scale: 1 },
+      viewportSize: state.viewportSize,
+      settings: state.settings, // Settings are app-wide, not per canvas
+      canvasLibrary: state.canvasLibrary,
+      storageFullCount: state.storageFullCount,
+      history: createHistory(state.settings.historyLimit),
+    }));
+
+    rememberCurrentCanvas(canvasId);
+    await canvasStorage.markOpened(canvasId);
+    await get().refreshCanvasLibrary();
+    return true;
   },
 
-  autoSave: () => {
+  createCanvas: async (name = 'Untitled Canvas', saveCurrent = true) => {
+    if (saveCurrent && !(await get().autoSave())) {
+      throw new Error('The open canvas could not be saved');
+    }
+
+    const canvasId = `canvas-${Date.now()}`;
+    stopCameraAnimation();
+    set(state => ({
+      ...initialState,
+      canvasId,
+      canvasName: name,
+      viewportSize: state.viewportSize,
+      settings: state.settings,
+      canvasLibrary: state.canvasLibrary,
+      storageFullCount: state.storageFullCount,
+      history: createHistory(state.settings.historyLimit),
+    }));
+
+    rememberCurrentCanvas(canvasId);
+    await get().autoSave(); // Creates the library entry
+    await get().refreshCanvasLibrary();
+  },
+
+  renameCanvas: async (canvasId, name) => {
+    if (canvasId === get().canvasId) {
+      set(state => ({ ...state, canvasName: name }));
+      await get().autoSave();
+    } else {
+      await canvasStorage.renameCanvas(canvasId, name);
+    }
+    await get().refreshCanvasLibrary();
+  },
+
+  duplicateCanvas: async (canvasId) => {
+    if (canvasId === get().canvasId) {
+      await get().autoSave(); // Copy what is on screen, not the last periodic save
+    }
+
+    const source = get().canvasLibrary.find(canvas => canvas.id === canvasId);
+    const duplicateId = `canvas-${Date.now()}`;
+    try {
+      await canvasStorage.duplicateCanvas(canvasId, duplicateId, `${source?.name || 'Untitled Canvas'} (Copy)`);
+    } catch (error) {
+      console.error('Failed to duplicate canvas:', error);
+      return null;
+    }
+
+    await get().refreshCanvasLibrary();
+    return duplicateId;
+  },
+
+  deleteCanvas: async (canvasId) => {
+    if (canvasId === get().canvasId) {
+      // Switch away first so auto-save doesn't recreate the deleted canvas, which needn't be saved
+      const next = get().canvasLibrary.find(canvas => canvas.id !== canvasId);
+      const opened = next ? await get().openCanvas(next.id, false) : false;
+      if (!opened) {
+        await get().createCanvas(undefined, false);
+      }
+    }
+
+    await canvasStorage.deleteCanvas(canvasId);
+    await get().refreshCanvasLibrary();
+  },
+
+  autoSave: async () => {
     try {
       const state = get();
       
-      // Optimize data for storage - remove unnecessary fields and compress
-      const saveData = {
+      // Only entities whose object changed since the last save are written
+      await canvasStorage.saveCanvas(state.canvasId, {
         canvasName: state.canvasName,
-        nodes: state.nodes.map(node => ({
-          id: node.id,
-          x: Math.round(node.x),
-          y: Math.round(node.y),
-          width: node.width,
-          height: node.height,
-          content: node.content,
-          groupId: node.groupId,
-          color: node.color,
-          createdAt: node.createdAt,
-          updatedAt: node.updatedAt,
-          // Exclude selected, isNew and other transient properties
-        })),
-        connections: state.connections.map(conn => ({
-          id: conn.id,
-          fromNodeId: conn.fromNodeId,
-          toNodeId: conn.toNodeId,
-          fromPoint: conn.fromPoint,
-          toPoint: conn.toPoint,
-          color: conn.color,
-        })),
+        nodes: state.nodes,
+        connections: state.connections,
         groups: state.groups,
+        frames: state.frames,
         transform: {
           x: Math.round(state.transform.x),
           y: Math.round(state.transform.y),
           scale: Math.round(state.transform.scale * 100) / 100, // Round to 2 decimal places
         },
         settings: state.settings,
+        thumbnail: thumbnailFor(state),
         timestamp: Date.now()
-      };
-      
-      const dataString = JSON.stringify(saveData);
-      
-      // Check data size (localStorage limit is usually 5-10MB)
-      const dataSize = new Blob([dataString]).size;
-      
-      if (dataSize > 4 * 1024 * 1024) { // 4MB limit to be safe
-        // Try to clean up old auto-saves first
-        const keys = Object.keys(localStorage);
-        const autoSaveKeys = keys.filter(key => key.startsWith('mindmap-autosave-backup-'));
-        autoSaveKeys.forEach(key => localStorage.removeItem(key));
-        
-        // If still too large, create a minimal backup
-        if (dataSize > 4 * 1024 * 1024) {
-          const minimalData = {
-            canvasName: state.canvasName,
-            nodes: state.nodes.map(node => ({
-              id: node.id,
-              x: Math.round(node.x),
-              y: Math.round(node.y),
-              width: node.width,
-              height: node.height,
-              content: { 
-                type: node.content.type, 
-                value: node.content.type === 'text' ? 'Content truncated due to size' : node.content.value,
-                title: node.content.title 
-              },
-              groupId: node.groupId,
-              color: node.color,
-              createdAt: node.createdAt,
-              updatedAt: node.updatedAt,
-            })),
-            connections: state.connections,
-            groups: state.groups,
-            transform: saveData.transform,
-            settings: state.settings,
-            timestamp: Date.now(),
-            truncated: true
-          };
-          localStorage.setItem('mindmap-autosave', JSON.stringify(minimalData));
-          return;
-        }
-      }
-      
-      // Try to save, with fallback handling
-      try {
-        localStorage.setItem('mindmap-autosave', dataString);
-      } catch (quotaError) {
-        if (quotaError.name === 'QuotaExceededError') {
-          // Emergency cleanup - remove all non-essential localStorage items
-          const keys = Object.keys(localStorage);
-          keys.forEach(key => {
-            if (!key.startsWith('mindmap-autosave') && !key.startsWith('mindmap-settings')) {
-              localStorage.removeItem(key);
-            }
-          });
-          
-          // Try one more time with cleaned storage
-          try {
-            localStorage.setItem('mindmap-autosave', dataString);
-          } catch (finalError) {
-            // Create backup key with timestamp and save minimal data
-            const backupKey = `mindmap-autosave-backup-${Date.now()}`;
-            const emergencyData = {
-              canvasName: state.canvasName,
-              nodeCount: state.nodes.length,
-              connectionCount: state.connections.length,
-              timestamp: Date.now(),
-              error: 'Storage quota exceeded'
-            };
-            try {
-              localStorage.setItem(backupKey, JSON.stringify(emergencyData));
-            } catch (e) {
-              // If even this fails, we're out of options
-              console.error('Critical: Unable to save any data to localStorage');
-            }
-            throw finalError;
-          }
-        } else {
-          throw quotaError;
-        }
-      }
+      });
+      if (state.storageFullCount > 0) set({ storageFullCount: 0 });
+      return true;
     } catch (error) {
       console.warn('Failed to auto-save:', error);
-      // Don't show error to user for auto-save failures unless it's critical
-      if (error.name === 'QuotaExceededError') {
-        // This will be handled by the App component
-        throw error;
+      // Most saves are fired without waiting on them, so a full storage is
+      // reported through the store, where the App component warns about it
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        set(state => ({ storageFullCount: state.storageFullCount + 1 }));
       }
+      return false;
     }
   },
 
-  loadAutoSave: () => {
+  loadAutoSave: async () => {
     try {
-      const saved = localStorage.getItem('mindmap-autosave');
-      if (saved) {
-        const data = JSON.parse(saved);
-        // Only load if it's recent (less than 7 days old)
-        const weekAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
-        if (data.timestamp && data.timestamp > weekAgo) {
-          set(state => ({
-            ...state,
-            canvasName: data.canvasName || 'Untitled Canvas',
-            nodes: data.nodes || [],
-            connections: data.connections || [],
-            groups: data.groups || initialState.groups,
-            transform: data.transform || { x: 0, y: 0, scale: 1 },
-            settings: data.settings || initialState.settings,
-            selectedNodeId: null,
-            history: {
-              past: [],
-              present: { 
-                nodes: data.nodes || [], 
-                connections: data.connections || [], 
-                groups: data.groups || initialState.groups 
-              },
-              future: [],
-            },
-          }));
-          return true; // Successfully loaded
-        }
+      // Bring over a save from the old localStorage backend on first run
+      await canvasStorage.migrateFromLocalStorage(DEFAULT_CANVAS_ID);
+      
+      const canvasLibrary = await canvasStorage.listCanvases();
+      set(state => ({ ...state, canvasLibrary }));
+      
+      // Reopen the canvas from the last visit, or the most recently opened one
+      const lastCanvasId = localStorage.getItem(CURRENT_CANVAS_KEY);
+      const canvasId = canvasLibrary.some(canvas => canvas.id === lastCanvasId)
+        ? lastCanvasId!
+        : canvasLibrary[0]?.id;
+      if (!canvasId) return false;
+      
+      const data = await canvasStorage.loadCanvas(canvasId);
+      if (data) {
+        const settings = { ...initialState.settings, ...data.settings };
+        set(state => ({
+          ...state,
+          canvasId,
+          canvasName: data.canvasName || 'Untitled Canvas',
+          nodes: data.nodes,
+          connections: data.connections,
+          groups: data.groups,
+          frames: data.frames ?? [],
+          transform: data.transform || { x: 0, y: 0, scale: 1 },
+          settings,
+          selectedNodeId: null,
+          history: createHistory(settings.historyLimit),
+        }));
+        rememberCurrentCanvas(canvasId);
+        await canvasStorage.markOpened(canvasId);
+        return true; // Successfully loaded
       }
     } catch (error) {
       console.warn('Failed to load auto-save:', error);
@@ -1016,55 +1414,25 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
     setTimeout(() => get().autoSave(), 100);
   },
 
-  cleanupStorage: () => {
+  cleanupStorage: async () => {
     try {
-      const keys = Object.keys(localStorage);
-      
-      // Remove old backup auto-saves (keep only the most recent 3)
-      const backupKeys = keys
+      // Backups written by the old localStorage auto-save are no longer used
+      Object.keys(localStorage)
         .filter(key => key.startsWith('mindmap-autosave-backup-'))
-        .sort()
-        .reverse();
-      
-      if (backupKeys.length > 3) {
-        backupKeys.slice(3).forEach(key => localStorage.removeItem(key));
-      }
+        .forEach(key => localStorage.removeItem(key));
       
-      // Remove any very old auto-saves (older than 30 days)
-      const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
-      keys.forEach(key => {
-        if (key.startsWith('mindmap-autosave')) {
-          try {
-            const data = JSON.parse(localStorage.getItem(key) || '{}');
-            if (data.timestamp && data.timestamp < thirtyDaysAgo) {
-              localStorage.removeItem(key);
-            }
-          } catch (e) {
-            // If we can't parse it, it's probably corrupted, so remove it
-            localStorage.removeItem(key);
-          }
-        }
-      });
+      // Drop media blobs that no saved node references any more
+      const removed = await canvasStorage.collectGarbage();
       
-      console.log('Storage cleanup completed');
+      console.log(`Storage cleanup completed (${removed} unused media files removed)`);
     } catch (error) {
       console.warn('Storage cleanup failed:', error);
     }
   },
 
-  getStorageInfo: () => {
+  getStorageInfo: async () => {
     try {
-      // Estimate localStorage usage
-      let used = 0;
-      Object.keys(localStorage).forEach(key => {
-        used += localStorage.getItem(key)?.length || 0;
-      });
-      
-      // Most browsers have a 5-10MB limit, we'll estimate 5MB as conservative
-      const total = 5 * 1024 * 1024; // 5MB in bytes
-      const available = total - used;
-      
-      return { used, available, total };
+      return await canvasStorage.estimate();
     } catch (error) {
       return { used: 0, available: 0, total: 0 };
     }
@@ -1099,21 +1467,12 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
     
     // Calculate selection bounds
     const { startX, startY, endX, endY } = state.selectionBox;
-    const minX = Math.min(startX, endX);
-    const minY = Math.min(startY, endY);
-    const maxX = Math.max(startX, endX);
-    const maxY = Math.max(startY, endY);
-    
-    // Find nodes within selection box
-    const selectedNodes = state.nodes.filter(node => {
-      const nodeLeft = node.x;
-      const nodeTop = node.y;
-      const nodeRight = node.x + node.width;
-      const nodeBottom = node.y + node.height;
-      
-      // Check if node overlaps with selection box
-      return nodeLeft < maxX && nodeRight > minX && nodeTop < maxY && nodeBottom > minY;
-    });
+    const selectedIds = new Set(state.getNodesInRect({
+      minX: Math.min(startX, endX),
+      minY: Math.min(startY, endY),
+      maxX: Math.max(startX, endX),
+      maxY: Math.max(startY, endY),
+    }).map(node => node.id));
     
     set(state => ({
       ...state,
@@ -1121,15 +1480,28 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
         ...state.selectionBox,
         isActive: false,
       },
-      selectedNodeIds: selectedNodes.map(node => node.id),
+      selectedNodeIds: state.nodes.filter(node => selectedIds.has(node.id)).map(node => node.id),
       selectedNodeId: null,
-      nodes: state.nodes.map(node => ({
-        ...node,
-        selected: selectedNodes.some(selected => selected.id === node.id),
-      })),
+      nodes: markSelected(state.nodes, node => selectedIds.has(node.id)),
     }));
   },
 
+  // Spatial queries
+  getNodeById: (id) => syncNodeIndex(get().nodes).byId.get(id),
+
+  getNodesInRect: (rect) => {
+    const index = syncNodeIndex(get().nodes);
+    return index.tree.search(rect)
+      .sort((a, b) => index.order.get(a)! - index.order.get(b)!)
+      .map(id => index.byId.get(id)!);
+  },
+
+  findNearestNode: (point, maxDistance, excludeIds = []) => {
+    const index = syncNodeIndex(get().nodes);
+    const nearestId = index.tree.nearest(point, maxDistance, id => excludeIds.includes(id));
+    return nearestId ? index.byId.get(nearestId)! : null;
+  },
+
   // Search functions
   searchNodesByContent: (query) => {
     const state = get();
@@ -1189,24 +1561,22 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
 
   // Comment actions
   addComment: (nodeId, comment) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         node.id === nodeId ? { ...node, comment, updatedAt: new Date() } : node
       ),
-    }));
+    }, 'Edit comment'));
     
     // Auto-save after adding comment
     setTimeout(() => get().autoSave(), 100);
   },
 
   removeComment: (nodeId) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         node.id === nodeId ? { ...node, comment: undefined, updatedAt: new Date() } : node
       ),
-    }));
+    }, 'Remove comment'));
     
     // Auto-save after removing comment
     setTimeout(() => get().autoSave(), 100);
@@ -1214,8 +1584,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
 
   // Tag and filtering actions
   addTagToNode: (nodeId, tag) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         node.id === nodeId 
           ? { 
@@ -1225,15 +1594,14 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
             } 
           : node
       ),
-    }));
+    }, 'Add tag'));
     
     // Auto-save after adding tag
     setTimeout(() => get().autoSave(), 100);
   },
 
   removeTagFromNode: (nodeId, tag) => {
-    set(state => ({
-      ...state,
+    set(state => withHistory(state, {
       nodes: state.nodes.map(node => 
         node.id === nodeId 
           ? { 
@@ -1243,7 +1611,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
             } 
           : node
       ),
-    }));
+    }, 'Remove tag'));
     
     // Auto-save after removing tag
     setTimeout(() => get().autoSave(), 100);
@@ -1603,339 +1971,159 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
     }));
   },
 
-  autoOrganizeNodes: () => {
-    set(state => {
-      // Save snapshot before making changes (for undo)
-      const snapshot = {
-        nodes: state.nodes,
-        connections: state.connections,
-        groups: state.groups,
-      };
-
-      // Only organize selected nodes, or if none selected, don't do anything
-      let nodesToOrganize: Node[] = [];
-      if (state.selectedNodeIds.length > 0) {
-        nodesToOrganize = state.nodes.filter(node => state.selectedNodeIds.includes(node.id));
-      } else if (state.selectedNodeId) {
-        nodesToOrganize = state.nodes.filter(node => node.id === state.selectedNodeId);
-      } else {
-        return state; // No nodes selected
-      }
+  autoOrganizeNodes: (layout = 'force', centerNodeId) => {
+    const state = get();
+    const selectedIds = state.selectedNodeIds.length > 0
+      ? state.selectedNodeIds
+      : state.selectedNodeId ? [state.selectedNodeId] : [];
 
-      if (nodesToOrganize.length === 0) return state;
+    // "From here" layouts arrange everything connected to the node, unless it is part of a larger selection
+    const nodeIds = centerNodeId && !(selectedIds.length > 1 && selectedIds.includes(centerNodeId))
+      ? connectedComponent(centerNodeId, state.connections)
+      : new Set(selectedIds);
 
-      // Store original positions for reference
-      const originalCenters = new Map<string, { x: number, y: number }>();
-      nodesToOrganize.forEach(node => {
-        originalCenters.set(node.id, {
-          x: node.x + node.width / 2,
-          y: node.y + node.height / 2
-        });
-      });
+    const nodesToOrganize = state.nodes.filter(node => nodeIds.has(node.id));
+    if (nodesToOrganize.length === 0) return;
 
-      // Filter connections that are relevant to the nodes being organized
-      const relevantConnections = state.connections.filter(conn => 
-        nodesToOrganize.some(n => n.id === conn.fromNodeId) && 
-        nodesToOrganize.some(n => n.id === conn.toNodeId)
-      );
-
-      // Group nodes by their groups for soft container behavior
-      const nodesByGroup = new Map<string | undefined, Node[]>();
-      nodesToOrganize.forEach(node => {
-        const groupId = node.groupId;
-        if (!nodesByGroup.has(groupId)) {
-          nodesByGroup.set(groupId, []);
-        }
-        nodesByGroup.get(groupId)!.push(node);
-      });
+    runLayout(layout, nodesToOrganize, state.connections, centerNodeId);
+  },
 
-      // FORCE-DIRECTED LAYOUT ALGORITHM
-      // Each node has position, velocity, and forces applied to it
-      interface NodePhysics {
-        id: string;
-        x: number;
-        y: number;
-        vx: number;
-        vy: number;
-        width: number;
-        height: number;
-        groupId?: string;
-        mass: number; // Larger nodes have more mass
-      }
+  cancelLayout: () => {
+    activeLayout?.cancel();
+  },
 
-      // Initialize physics for each node
-      const nodePhysics = new Map<string, NodePhysics>();
-      nodesToOrganize.forEach(node => {
-        nodePhysics.set(node.id, {
-          id: node.id,
-          x: node.x + node.width / 2, // Use center position
-          y: node.y + node.height / 2,
-          vx: 0,
-          vy: 0,
-          width: node.width,
-          height: node.height,
-          groupId: node.groupId,
-          mass: Math.sqrt(node.width * node.height) / 10 // Mass based on node size
-        });
-      });
+  // Group highlighting actions
+  setHighlightedGroup: (groupId: string | null) => {
+    set(state => ({
+      ...state,
+      highlightedGroupId: groupId,
+    }));
+  },
 
-      // Physics constants
-      const REPULSION_STRENGTH = 50000; // How strongly nodes repel each other
-      const ATTRACTION_STRENGTH = 0.01; // How strongly connected nodes attract
-      const DAMPING = 0.85; // Velocity damping to prevent oscillation
-      const MIN_DISTANCE = 20; // Minimum distance between node centers
-      const SPRING_LENGTH = 150; // Ideal distance for connected nodes
-      const GROUP_ATTRACTION = 0.005; // How strongly group members attract each other
-      const MAX_ITERATIONS = 300; // Maximum simulation steps
-      const CONVERGENCE_THRESHOLD = 0.5; // Stop when average movement is small
-      const MAX_VELOCITY = 50; // Cap on how fast nodes can move per iteration
-
-      // Calculate group centers for soft container effect
-      const groupCenters = new Map<string, { x: number, y: number, count: number }>();
-      nodesByGroup.forEach((groupNodes, groupId) => {
-        if (groupId && groupNodes.length > 1) {
-          const centerX = groupNodes.reduce((sum, node) => sum + node.x + node.width / 2, 0) / groupNodes.length;
-          const centerY = groupNodes.reduce((sum, node) => sum + node.y + node.height / 2, 0) / groupNodes.length;
-          groupCenters.set(groupId, { x: centerX, y: centerY, count: groupNodes.length });
-        }
-      });
+  // Frame and presentation actions
+  addFrame: (rect, name) => {
+    const frame: Frame = {
+      id: createEntityId('frame'),
+      name: name ?? `Frame ${get().frames.length + 1}`,
+      x: Math.round(rect.x),
+      y: Math.round(rect.y),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    };
+    set(state => withHistory(state, { frames: [...state.frames, frame] }, 'Add frame'));
+    
+    // Auto-save after adding a frame
+    setTimeout(() => get().autoSave(), 100);
+    return frame.id;
+  },
 
-      // Simulation loop
-      let iteration = 0;
-      let converged = false;
-
-      while (iteration < MAX_ITERATIONS && !converged) {
-        iteration++;
-        
-        // Reset forces for this iteration
-        nodePhysics.forEach(physics => {
-          physics.vx *= DAMPING;
-          physics.vy *= DAMPING;
+  addFramesFromGroups: (groupIds) => {
+    const state = get();
+    const newFrames: Frame[] = [];
+    state.groups
+      .filter(group => !groupIds || groupIds.includes(group.id))
+      .forEach(group => {
+        const bounds = state.nodes
+          .filter(node => node.groupId === group.id)
+          .map(nodeRect)
+          .reduce<Rect | null>((union, rect) => union ? unionRects(union, rect) : rect, null);
+        if (!bounds) return; // Empty groups have nothing to show
+
+        newFrames.push({
+          id: createEntityId('frame'),
+          name: group.name,
+          x: Math.round(bounds.minX - GROUP_FRAME_MARGIN),
+          y: Math.round(bounds.minY - GROUP_FRAME_MARGIN),
+          width: Math.round(bounds.maxX - bounds.minX + GROUP_FRAME_MARGIN * 2),
+          height: Math.round(bounds.maxY - bounds.minY + GROUP_FRAME_MARGIN * 2),
         });
+      });
+    if (newFrames.length === 0) return 0;
 
-        // Apply repulsion forces between all node pairs
-        const physicsArray = Array.from(nodePhysics.values());
-        for (let i = 0; i < physicsArray.length; i++) {
-          for (let j = i + 1; j < physicsArray.length; j++) {
-            const nodeA = physicsArray[i];
-            const nodeB = physicsArray[j];
-            
-            const dx = nodeB.x - nodeA.x;
-            const dy = nodeB.y - nodeA.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            
-            if (distance > 0) {
-              // Calculate repulsion force (stronger when nodes are closer)
-              const minRequiredDistance = (nodeA.width + nodeB.width) / 2 + (nodeA.height + nodeB.height) / 2 + 30;
-              const repulsionForce = distance < minRequiredDistance ? 
-                REPULSION_STRENGTH / (distance * distance) * 2 : // Extra strong when overlapping
-                REPULSION_STRENGTH / (distance * distance);
-              
-              const fx = (dx / distance) * repulsionForce;
-              const fy = (dy / distance) * repulsionForce;
-              
-              // Apply equal and opposite forces
-              nodeA.vx -= fx / nodeA.mass;
-              nodeA.vy -= fy / nodeA.mass;
-              nodeB.vx += fx / nodeB.mass;
-              nodeB.vy += fy / nodeB.mass;
-            }
-          }
-        }
+    set(state => withHistory(state, { frames: [...state.frames, ...newFrames] }, 'Add frames from groups'));
+    
+    // Auto-save after adding frames
+    setTimeout(() => get().autoSave(), 100);
+    return newFrames.length;
+  },
 
-        // Apply attraction forces for connected nodes (spring forces)
-        relevantConnections.forEach(connection => {
-          const nodeA = nodePhysics.get(connection.fromNodeId);
-          const nodeB = nodePhysics.get(connection.toNodeId);
-          
-          if (nodeA && nodeB) {
-            const dx = nodeB.x - nodeA.x;
-            const dy = nodeB.y - nodeA.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            
-            if (distance > 0) {
-              // Spring force (Hooke's law): F = k * (distance - restLength)
-              const springForce = ATTRACTION_STRENGTH * (distance - SPRING_LENGTH);
-              const fx = (dx / distance) * springForce;
-              const fy = (dy / distance) * springForce;
-              
-              nodeA.vx += fx;
-              nodeA.vy += fy;
-              nodeB.vx -= fx;
-              nodeB.vy -= fy;
-            }
-          }
-        });
+  updateFrame: (id, updates) => {
+    set(state => withHistory(state, {
+      frames: state.frames.map(frame => frame.id === id ? { ...frame, ...updates } : frame),
+    }, 'Edit frame', `frame-${id}`));
+    
+    // Auto-save after editing a frame
+    setTimeout(() => get().autoSave(), 100);
+  },
 
-        // Apply group cohesion forces (soft containers)
-        nodesByGroup.forEach((groupNodes, groupId) => {
-          if (groupId && groupNodes.length > 1) {
-            const groupCenter = groupCenters.get(groupId);
-            if (groupCenter) {
-              groupNodes.forEach(node => {
-                const physics = nodePhysics.get(node.id);
-                if (physics) {
-                  const dx = groupCenter.x - physics.x;
-                  const dy = groupCenter.y - physics.y;
-                  const distance = Math.sqrt(dx * dx + dy * dy);
-                  
-                  if (distance > 0) {
-                    // Gentle attraction toward group center
-                    const groupForce = GROUP_ATTRACTION * distance;
-                    physics.vx += (dx / distance) * groupForce;
-                    physics.vy += (dy / distance) * groupForce;
-                  }
-                }
-              });
-            }
-          }
-        });
+  deleteFrame: (id) => {
+    set(state => withHistory(state, {
+      frames: state.frames.filter(frame => frame.id !== id),
+    }, 'Delete frame'));
+    
+    // Auto-save after deleting a frame
+    setTimeout(() => get().autoSave(), 100);
+  },
 
-        // Update positions and check for convergence
-        let totalMovement = 0;
-        nodePhysics.forEach(physics => {
-          // Cap velocity to prevent explosive movement
-          const velocity = Math.sqrt(physics.vx * physics.vx + physics.vy * physics.vy);
-          if (velocity > MAX_VELOCITY) {
-            physics.vx = (physics.vx / velocity) * MAX_VELOCITY;
-            physics.vy = (physics.vy / velocity) * MAX_VELOCITY;
-          }
-          
-          // Update position
-          physics.x += physics.vx;
-          physics.y += physics.vy;
-          
-          // Track movement for convergence
-          totalMovement += Math.abs(physics.vx) + Math.abs(physics.vy);
-        });
+  moveFrame: (id, toIndex) => {
+    set(state => {
+      const frame = state.frames.find(f => f.id === id);
+      if (!frame) return state;
+      const frames = state.frames.filter(f => f.id !== id);
+      frames.splice(Math.max(0, Math.min(toIndex, frames.length)), 0, frame);
+      return withHistory(state, { frames }, 'Reorder frames');
+    });
+    
+    // Auto-save after reordering frames
+    setTimeout(() => get().autoSave(), 100);
+  },
 
-        // Check for convergence
-        const averageMovement = totalMovement / nodePhysics.size;
-        if (averageMovement < CONVERGENCE_THRESHOLD) {
-          converged = true;
-        }
+  zoomToFrame: (id, options) => {
+    const state = get();
+    const frame = state.frames.find(f => f.id === id);
+    if (!frame) return;
+    state.setViewport(fitRect(nodeRect(frame), state.viewportSize, FRAME_PADDING, MAX_ZOOM), options);
+  },
 
-        // Update group centers for next iteration
-        nodesByGroup.forEach((groupNodes, groupId) => {
-          if (groupId && groupNodes.length > 1) {
-            const nodePhysicsForGroup = groupNodes.map(node => nodePhysics.get(node.id)!).filter(Boolean);
-            if (nodePhysicsForGroup.length > 0) {
-              const centerX = nodePhysicsForGroup.reduce((sum, physics) => sum + physics.x, 0) / nodePhysicsForGroup.length;
-              const centerY = nodePhysicsForGroup.reduce((sum, physics) => sum + physics.y, 0) / nodePhysicsForGroup.length;
-              groupCenters.set(groupId, { x: centerX, y: centerY, count: nodePhysicsForGroup.length });
-            }
-          }
-        });
-      }
+  setDrawingFrame: (isDrawingFrame) => {
+    set({ isDrawingFrame });
+  },
 
-      // Apply final overlap resolution pass (ensure no bounding boxes overlap)
-      const finalNodes = new Map<string, { x: number, y: number }>();
-      nodePhysics.forEach(physics => {
-        finalNodes.set(physics.id, {
-          x: physics.x - physics.width / 2, // Convert back from center to top-left
-          y: physics.y - physics.height / 2
-        });
-      });
+  startPresentation: (frameIndex = 0) => {
+    const state = get();
+    if (state.frames.length === 0) return;
 
-      // Final overlap resolution with actual bounding boxes
-      let overlapResolutionIterations = 0;
-      const maxOverlapIterations = 50;
-      let hasOverlaps = true;
-
-      while (hasOverlaps && overlapResolutionIterations < maxOverlapIterations) {
-        hasOverlaps = false;
-        overlapResolutionIterations++;
-
-        const finalNodesArray = Array.from(finalNodes.entries());
-        for (let i = 0; i < finalNodesArray.length; i++) {
-          for (let j = i + 1; j < finalNodesArray.length; j++) {
-            const [idA, posA] = finalNodesArray[i];
-            const [idB, posB] = finalNodesArray[j];
-            const nodeA = nodesToOrganize.find(n => n.id === idA)!;
-            const nodeB = nodesToOrganize.find(n => n.id === idB)!;
-
-            // Check if bounding boxes overlap
-            const overlapX = Math.max(0, Math.min(posA.x + nodeA.width, posB.x + nodeB.width) - Math.max(posA.x, posB.x));
-            const overlapY = Math.max(0, Math.min(posA.y + nodeA.height, posB.y + nodeB.height) - Math.max(posA.y, posB.y));
-            
-            if (overlapX > 0 && overlapY > 0) {
-              hasOverlaps = true;
-              
-              // Move apart along the axis with smaller overlap
-              const centerAX = posA.x + nodeA.width / 2;
-              const centerAY = posA.y + nodeA.height / 2;
-              const centerBX = posB.x + nodeB.width / 2;
-              const centerBY = posB.y + nodeB.height / 2;
-              
-              if (overlapX < overlapY) {
-                // Move horizontally
-                const moveDistance = (overlapX + 20) / 2; // Add padding
-                if (centerAX < centerBX) {
-                  posA.x -= moveDistance;
-                  posB.x += moveDistance;
-                } else {
-                  posA.x += moveDistance;
-                  posB.x -= moveDistance;
-                }
-              } else {
-                // Move vertically
-                const moveDistance = (overlapY + 20) / 2; // Add padding
-                if (centerAY < centerBY) {
-                  posA.y -= moveDistance;
-                  posB.y += moveDistance;
-                } else {
-                  posA.y += moveDistance;
-                  posB.y -= moveDistance;
-                }
-              }
-            }
-          }
-        }
-      }
+    set({
+      presentation: { frameIndex: 0, returnTransform: state.transform },
+      isDrawingFrame: false,
+      selectedNodeId: null,
+      selectedNodeIds: [],
+      nodes: markSelected(state.nodes, () => false),
+    });
+    get().goToFrame(frameIndex);
+  },
 
-      // Apply the new positions to the organized nodes
-      let organizedNodes = [...state.nodes];
-      finalNodes.forEach((position, nodeId) => {
-        const nodeIndex = organizedNodes.findIndex(n => n.id === nodeId);
-        if (nodeIndex !== -1) {
-          organizedNodes[nodeIndex] = {
-            ...organizedNodes[nodeIndex],
-            x: Math.round(position.x),
-            y: Math.round(position.y),
-            updatedAt: new Date(),
-          };
-        }
-      });
+  stopPresentation: () => {
+    const { presentation } = get();
+    if (!presentation) return;
 
-      console.log(`Force-directed layout completed in ${iteration} iterations (${converged ? 'converged' : 'max iterations reached'})`);
+    set({ presentation: null });
+    get().setViewport(presentation.returnTransform, { recordHistory: false });
+  },
 
-      return {
-        ...state,
-        nodes: organizedNodes,
-        history: {
-          ...state.history,
-          past: [...state.history.past, snapshot],
-          future: [],
-        },
-      };
-    });
+  goToFrame: (frameIndex) => {
+    const state = get();
+    if (!state.presentation) return;
 
-    // Show success message
-    const { toast } = import('sonner@2.0.3').then(module => {
-      const nodeCount = get().selectedNodeIds.length || (get().selectedNodeId ? 1 : 0);
-      module.toast.success(`${nodeCount} selected nodes organized with force-directed layout`);
-    });
-  },
+    const index = Math.max(0, Math.min(frameIndex, state.frames.length - 1));
+    const frame = state.frames[index];
+    if (!frame) return;
 
-  // Group highlighting actions
-  setHighlightedGroup: (groupId: string | null) => {
-    set(state => ({
-      ...state,
-      highlightedGroupId: groupId,
-    }));
+    set({ presentation: { ...state.presentation, frameIndex: index } });
+    state.zoomToFrame(frame.id, { recordHistory: false });
   },
 
-  // Collaboration actions
+  // Collaboration actions - remote updates are applied outside the local undo history
   setNodes: (nodes: Node[]) => {
     set(state => ({
       ...state,
@@ -1956,4 +2144,278 @@ export const useCanvasStore = create<CanvasState & CanvasActions>((set, get) =>
       groups,
     }));
   },
-}));
\ No newline at end of file
+}));
+
+// Insert a fragment centered on a canvas position as one undoable step, then select it
+const insertFragment = (
+  fragment: CanvasFragment,
+  center: Point,
+  label: string,
+  matchGroupsByName?: boolean,
+  base: CanvasDocument = documentOf(useCanvasStore.getState()),
+) => {
+  const state = useCanvasStore.getState();
+  const result = mergeFragment(base, fragment, { center, matchGroupsByName });
+  if (result.nodeIds.length === 0) return;
+  
+  useCanvasStore.setState(state => withHistory(state, result.document, label));
+  state.selectMultipleNodes(result.nodeIds);
+  
+  // Auto-save after inserting
+  setTimeout(() => useCanvasStore.getState().autoSave(), 100);
+  
+  // Remove the isNew flag after animation duration
+  setTimeout(() => clearNewFlag(...result.nodeIds), 600);
+};
+
+// The creation animation flag is view state, so clearing it is not recorded in history
+const clearNewFlag = (...ids: string[]) => {
+  const cleared = new Set(ids);
+  useCanvasStore.setState(state => ({
+    nodes: state.nodes.map(node => cleared.has(node.id) && node.isNew ? { ...node, isNew: false } : node),
+  }));
+};
+
+// IDs of all nodes reachable from a node over connections in either direction
+const connectedComponent = (nodeId: string, connections: Connection[]) => {
+  const component = new Set([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    connections.forEach(conn => {
+      const other = conn.fromNodeId === current ? conn.toNodeId : conn.toNodeId === current ? conn.fromNodeId : null;
+      if (other && !component.has(other)) {
+        component.add(other);
+        queue.push(other);
+      }
+    });
+  }
+  return component;
+};
+
+const LAYOUT_ANIMATION_DURATION = 500;
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Shows a layout on the nodes while it runs. Frames only update the view;
+ * commit records the final positions as a single history entry from where the
+ * nodes started, so one undo puts everything back, and revert restores them.
+ * Nodes edited, removed or reselected meanwhile are left alone.
+ */
+const createLayoutPreview = (nodeIds: Set<string>) => {
+  const originals = new Map(
+    useCanvasStore.getState().nodes.filter(node => nodeIds.has(node.id)).map(node => [node.id, node])
+  );
+  const shown = new Map<string, Node>();
+
+  const restore = (nodes: Node[]) => nodes.map(node => shown.get(node.id) === node ? originals.get(node.id)! : node);
+
+  return {
+    // Position each node is displayed at right now
+    current: (id: string): Point | undefined => shown.get(id) ?? originals.get(id),
+
+    show: (positions: LayoutPositions) => {
+      useCanvasStore.setState(state => ({
+        nodes: state.nodes.map(node => {
+          const position = positions.get(node.id);
+          if (!position || (node !== originals.get(node.id) && node !== shown.get(node.id))) return node;
+
+          const frameNode = { ...originals.get(node.id)!, x: position.x, y: position.y };
+          shown.set(node.id, frameNode);
+          return frameNode;
+        }),
+      }));
+    },
+
+    commit: (positions: LayoutPositions, label: string) => {
+      useCanvasStore.setState(state => {
+        const before = restore(state.nodes);
+        const after = before.map(node => {
+          const position = positions.get(node.id);
+          return position && originals.get(node.id) === node
+            ? { ...node, x: Math.round(position.x), y: Math.round(position.y), updatedAt: new Date() }
+            : node;
+        });
+        return withHistory({ ...state, nodes: before }, { nodes: after }, label);
+      });
+
+      // Auto-save after organizing
+      setTimeout(() => useCanvasStore.getState().autoSave(), 100);
+    },
+
+    revert: () => {
+      useCanvasStore.setState(state => ({ nodes: restore(state.nodes) }));
+    },
+  };
+};
+
+// The layout currently computing or animating; starting another one cancels it
+let activeLayout: { cancel: () => void } | null = null;
+
+/**
+ * Compute a layout in the layout worker, following the force simulation's
+ * streamed positions as it converges, then ease the nodes into their final
+ * places and record the move.
+ */
+const runLayout = (layout: LayoutType, nodesToOrganize: Node[], connections: Connection[], centerNodeId?: string) => {
+  activeLayout?.cancel();
+
+  const nodeIds = new Set(nodesToOrganize.map(node => node.id));
+  const preview = createLayoutPreview(nodeIds);
+  let animationFrame: number | null = null;
+
+  const job = layoutEngine.run({
+    layout,
+    nodes: nodesToOrganize.map(({ id, x, y, width, height, groupId }) => ({ id, x, y, width, height, groupId })),
+    edges: connections
+      .filter(conn => nodeIds.has(conn.fromNodeId) && nodeIds.has(conn.toNodeId))
+      .map(({ fromNodeId, toNodeId }) => ({ fromNodeId, toNodeId })),
+    centerNodeId,
+  }, (progress, positions) => {
+    preview.show(positions);
+    useCanvasStore.setState({ layoutProgress: { layout, nodeCount: nodesToOrganize.length, progress } });
+  });
+
+  const session = {
+    cancel: () => {
+      job.cancel();
+      if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+      preview.revert();
+      finish();
+    },
+  };
+  activeLayout = session;
+
+  const finish = () => {
+    if (activeLayout === session) activeLayout = null;
+    useCanvasStore.setState({ layoutProgress: null });
+  };
+
+  const complete = (positions: LayoutPositions) => {
+    preview.commit(positions, 'Auto-organize nodes');
+    finish();
+
+    import('sonner@2.0.3').then(module => {
+      const count = nodesToOrganize.length;
+      module.toast.success(`${count} ${count === 1 ? 'node' : 'nodes'} organized as ${LAYOUT_LABELS[layout]}`);
+    });
+  };
+
+  job.result.then(positions => {
+    if (!positions || activeLayout !== session) return; // Cancelled
+
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      complete(positions);
+      return;
+    }
+
+    // Ease from wherever the nodes are shown now, the original spot or the last streamed frame
+    const starts = new Map(Array.from(positions.keys()).map(id => [id, preview.current(id)]));
+    const start = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - start) / LAYOUT_ANIMATION_DURATION);
+      if (progress >= 1) {
+        animationFrame = null;
+        complete(positions);
+        return;
+      }
+
+      const eased = easeInOutCubic(progress);
+      const frame: LayoutPositions = new Map();
+      positions.forEach((target, id) => {
+        const from = starts.get(id);
+        if (from) {
+          frame.set(id, { x: from.x + (target.x - from.x) * eased, y: from.y + (target.y - from.y) * eased });
+        }
+      });
+      preview.show(frame);
+      animationFrame = requestAnimationFrame(step);
+    };
+    animationFrame = requestAnimationFrame(step);
+  }).catch(error => {
+    console.error('Auto-organize failed:', error);
+    if (activeLayout === session) {
+      preview.revert();
+      finish();
+    }
+    import('sonner@2.0.3').then(module => module.toast.error('Failed to organize nodes'));
+  });
+};
+
+const CAMERA_ANIMATION_DURATION = 400;
+const VIEWPORT_HISTORY_LIMIT = 50;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 3;
+const MAX_FIT_ZOOM = 2; // Fitting never zooms in further than this
+const FRAME_PADDING = 24; // Screen pixels kept around a frame while presenting
+const GROUP_FRAME_MARGIN = 40; // Canvas units between a group's nodes and its frame
+
+// Transform that shows a canvas area as large as possible, `padding` screen pixels from the edges
+const fitRect = (rect: Rect, viewportSize: Size, padding: number, maxScale: number): CanvasTransform => {
+  const { width, height } = viewportSize;
+  const scale = Math.min(
+    Math.max(
+      Math.min(
+        Math.max(1, width - padding * 2) / Math.max(1, rect.maxX - rect.minX),
+        Math.max(1, height - padding * 2) / Math.max(1, rect.maxY - rect.minY),
+      ),
+      MIN_ZOOM,
+    ),
+    maxScale,
+  );
+  const centerX = (rect.minX + rect.maxX) / 2;
+  const centerY = (rect.minY + rect.maxY) / 2;
+  return { x: width / 2 - centerX * scale, y: height / 2 - centerY * scale, scale };
+};
+
+let cameraAnimationFrame: number | null = null;
+
+const stopCameraAnimation = () => {
+  if (cameraAnimationFrame !== null) {
+    cancelAnimationFrame(cameraAnimationFrame);
+    cameraAnimationFrame = null;
+  }
+};
+
+/**
+ * Glide the camera to a transform. The point at the middle of the screen
+ * moves in a straight line while the zoom changes geometrically, so zooming
+ * far in or out feels even instead of rushing at one end.
+ */
+const animateCamera = (target: CanvasTransform, duration: number) => {
+  stopCameraAnimation();
+
+  const { transform: from, viewportSize } = useCanvasStore.getState();
+  const centerOf = (transform: CanvasTransform) => ({
+    x: (viewportSize.width / 2 - transform.x) / transform.scale,
+    y: (viewportSize.height / 2 - transform.y) / transform.scale,
+  });
+  const fromCenter = centerOf(from);
+  const toCenter = centerOf(target);
+  const logScale = Math.log(target.scale / from.scale);
+  const start = performance.now();
+
+  const step = (now: number) => {
+    const progress = Math.min(1, (now - start) / duration);
+    if (progress >= 1) {
+      cameraAnimationFrame = null;
+      useCanvasStore.setState({ transform: target });
+      return;
+    }
+
+    const eased = easeInOutCubic(progress);
+    const scale = from.scale * Math.exp(logScale * eased);
+    const centerX = fromCenter.x + (toCenter.x - fromCenter.x) * eased;
+    const centerY = fromCenter.y + (toCenter.y - fromCenter.y) * eased;
+    useCanvasStore.setState({
+      transform: {
+        x: viewportSize.width / 2 - centerX * scale,
+        y: viewportSize.height / 2 - centerY * scale,
+        scale,
+      },
+    });
+    cameraAnimationFrame = requestAnimationFrame(step);
+  };
+  cameraAnimationFrame = requestAnimationFrame(step);
+};
@@ -0,0 +1,246 @@
+import type { Node, Connection, NodeGroup, Frame } from './canvasStore';
+
+/**
+ * Patch-based undo/redo history for the canvas store.
+ *
+ * Instead of keeping a full snapshot of the document for every action, each
+ * history entry only records the entities an action touched, with their value
+ * before and after the change. Because the store always replaces changed
+ * entities with new objects, unchanged entities can be detected by reference
+ * and are never copied.
+ */
+
+export interface CanvasDocument {
+  nodes: Node[];
+  connections: Connection[];
+  groups: NodeGroup[];
+  frames: Frame[];
+}
+
+export interface EntityPatch<T> {
+  id: string;
+  before?: T; // undefined when the entity was created
+  after?: T; // undefined when the entity was removed
+  index: number; // Position in the array the entity was removed from / inserted into
+  fromIndex?: number; // Position before the action, set when the action changed the entity's order
+}
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  coalesceKey?: string;
+  nodes: EntityPatch<Node>[];
+  connections: EntityPatch<Connection>[];
+  groups: EntityPatch<NodeGroup>[];
+  frames: EntityPatch<Frame>[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  limit: number;
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// Edits with the same coalesce key arriving within this window merge into one entry
+export const HISTORY_COALESCE_WINDOW = 1000;
+
+export const createHistory = (limit: number = DEFAULT_HISTORY_LIMIT): HistoryState => ({
+  past: [],
+  future: [],
+  limit,
+});
+
+const diffEntities = <T extends { id: string }>(before: T[], after: T[]): EntityPatch<T>[] => {
+  if (before === after) return [];
+
+  const patches: EntityPatch<T>[] = [];
+  const beforeById = new Map<string, { item: T; index: number }>();
+  before.forEach((item, index) => beforeById.set(item.id, { item, index }));
+
+  // Entities kept by the action, in their old order, to notice ones that changed places
+  const afterIds = new Set(after.map(item => item.id));
+  const kept = before.filter(item => afterIds.has(item.id));
+  let keptIndex = 0;
+
+  after.forEach((item, index) => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      patches.push({ id: item.id, after: item, index });
+    } else {
+      if (kept[keptIndex++].id !== item.id) {
+        patches.push({ id: item.id, before: previous.item, after: item, index, fromIndex: previous.index });
+      } else if (previous.item !== item) {
+        patches.push({ id: item.id, before: previous.item, after: item, index });
+      }
+      beforeById.delete(item.id);
+    }
+  });
+
+  beforeById.forEach(({ item, index }, id) => {
+    patches.push({ id, before: item, index });
+  });
+
+  return patches;
+};
+
+export const createHistoryEntry = (
+  label: string,
+  before: CanvasDocument,
+  after: CanvasDocument,
+  coalesceKey?: string,
+): HistoryEntry | null => {
+  const entry: HistoryEntry = {
+    label,
+    timestamp: Date.now(),
+    coalesceKey,
+    nodes: diffEntities(before.nodes, after.nodes),
+    connections: diffEntities(before.connections, after.connections),
+    groups: diffEntities(before.groups, after.groups),
+    frames: diffEntities(before.frames, after.frames),
+  };
+
+  if (entry.nodes.length === 0 && entry.connections.length === 0 && entry.groups.length === 0 && entry.frames.length === 0) {
+    return null; // Nothing changed, nothing to undo
+  }
+
+  return entry;
+};
+
+const mergePatches = <T>(older: EntityPatch<T>[], newer: EntityPatch<T>[]): EntityPatch<T>[] => {
+  const merged = new Map<string, EntityPatch<T>>();
+  older.forEach(patch => merged.set(patch.id, patch));
+
+  newer.forEach(patch => {
+    const previous = merged.get(patch.id);
+    if (!previous) {
+      merged.set(patch.id, patch);
+      return;
+    }
+
+    if (!previous.before && !patch.after) {
+      // Created and removed again within the same entry
+      merged.delete(patch.id);
+      return;
+    }
+
+    const moved = previous.fromIndex !== undefined || patch.fromIndex !== undefined;
+    merged.set(patch.id, {
+      id: patch.id,
+      before: previous.before,
+      after: patch.after,
+      index: previous.before && !moved ? previous.index : patch.index,
+      fromIndex: moved && previous.before && patch.after ? previous.fromIndex ?? previous.index : undefined,
+    });
+  });
+
+  return Array.from(merged.values());
+};
+
+const mergeEntries = (older: HistoryEntry, newer: HistoryEntry): HistoryEntry => ({
+  label: older.label,
+  timestamp: newer.timestamp,
+  coalesceKey: newer.coalesceKey,
+  nodes: mergePatches(older.nodes, newer.nodes),
+  connections: mergePatches(older.connections, newer.connections),
+  groups: mergePatches(older.groups, newer.groups),
+  frames: mergePatches(older.frames, newer.frames),
+});
+
+/**
+ * Push an entry onto the undo stack, clearing the redo stack. Entries sharing
+ * a coalesce key with the previous entry (e.g. the mousemove stream of a drag)
+ * are merged so a whole gesture undoes in one step.
+ */
+export const pushHistoryEntry = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  const shouldCoalesce = last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    history.future.length === 0 &&
+    entry.timestamp - last.timestamp <= HISTORY_COALESCE_WINDOW;
+
+  const past = shouldCoalesce
+    ? [...history.past.slice(0, -1), mergeEntries(last, entry)]
+    : [...history.past, entry];
+
+  return {
+    ...history,
+    past: past.length > history.limit ? past.slice(past.length - history.limit) : past,
+    future: [],
+  };
+};
+
+export const trimHistory = (history: HistoryState, limit: number): HistoryState => ({
+  past: history.past.length > limit ? history.past.slice(history.past.length - limit) : history.past,
+  future: history.future.slice(0, limit),
+  limit,
+});
+
+const applyPatches = <T extends { id: string }>(
+  items: T[],
+  patches: EntityPatch<T>[],
+  direction: HistoryDirection,
+  prepare: (target: T, current?: T) => T,
+): T[] => {
+  if (patches.length === 0) return items;
+
+  const patchesById = new Map(patches.map(patch => [patch.id, patch]));
+  const result: T[] = [];
+  const movedItems = new Map<string, T>(); // Taken out here and put back at their position below
+
+  items.forEach(item => {
+    const patch = patchesById.get(item.id);
+    if (!patch) {
+      result.push(item);
+      return;
+    }
+    if (patch.fromIndex !== undefined) {
+      movedItems.set(item.id, item);
+      return;
+    }
+    const target = direction === 'undo' ? patch.before : patch.after;
+    if (target) {
+      result.push(prepare(target, item));
+    }
+  });
+
+  const positionOf = (patch: EntityPatch<T>) =>
+    direction === 'undo' && patch.fromIndex !== undefined ? patch.fromIndex : patch.index;
+
+  // Re-insert entities the reverted action had removed or moved, at their original position
+  patches
+    .filter(patch => patch.fromIndex !== undefined
+      ? movedItems.has(patch.id)
+      : direction === 'undo' ? patch.before && !patch.after : patch.after && !patch.before)
+    .sort((a, b) => positionOf(a) - positionOf(b))
+    .forEach(patch => {
+      const target = (direction === 'undo' ? patch.before : patch.after)!;
+      if (result.some(item => item.id === patch.id)) return;
+      result.splice(Math.min(positionOf(patch), result.length), 0, prepare(target, movedItems.get(patch.id)));
+    });
+
+  return result;
+};
+
+const prepareNode = (target: Node, current?: Node): Node => ({
+  ...target,
+  selected: current?.selected ?? false, // Selection is not part of the document history
+  isNew: false, // Don't replay the creation animation
+});
+
+const keep = <T>(target: T) => target;
+
+export const applyHistoryEntry = (
+  document: CanvasDocument,
+  entry: HistoryEntry,
+  direction: HistoryDirection,
+): CanvasDocument => ({
+  nodes: applyPatches(document.nodes, entry.nodes, direction, prepareNode),
+  connections: applyPatches(document.connections, entry.connections, direction, keep),
+  groups: applyPatches(document.groups, entry.groups, direction, keep),
+  frames: applyPatches(document.frames, entry.frames, direction, keep),
+});
@@ -0,0 +1,658 @@
+import type { Connection, Point } from './canvasStore';
+
+/**
+ * Layout algorithms for auto-organizing nodes.
+ *
+ * Every layout takes the nodes to arrange plus the connections between them and
+ * returns a new top-left position for each node. Layouts never touch the store;
+ * animating to the result and recording it in history is up to the caller.
+ */
+
+export type LayoutType = 'force' | 'grid' | 'mindmap' | 'tree' | 'radial';
+
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  groupId?: string;
+}
+
+export type LayoutEdge = Pick<Connection, 'fromNodeId' | 'toNodeId'>;
+
+export type LayoutPositions = Map<string, Point>;
+
+export const LAYOUT_LABELS: Record<LayoutType, string> = {
+  force: 'force-directed',
+  grid: 'grid',
+  mindmap: 'mind map',
+  tree: 'org chart',
+  radial: 'radial',
+};
+
+// Spacing shared by the structured layouts
+const GRID_GAP = 40;
+const SIBLING_GAP = 30; // Between neighbouring subtrees
+const LEVEL_GAP = 80; // Between a parent and its children
+const COMPONENT_GAP = 120; // Between unconnected trees
+const CLUSTER_GAP = 160; // Between the blocks of a clustered grid
+
+// Force simulation constants
+const REPULSION_STRENGTH = 50000; // How strongly nodes repel each other
+const ATTRACTION_STRENGTH = 0.01; // How strongly connected nodes attract
+const DAMPING = 0.85; // Velocity damping to prevent oscillation
+const SPRING_LENGTH = 150; // Ideal distance for connected nodes
+const GROUP_ATTRACTION = 0.005; // How strongly group members attract each other
+const MAX_ITERATIONS = 300; // Maximum simulation steps
+const CONVERGENCE_THRESHOLD = 0.5; // Stop when average movement is small
+const MAX_VELOCITY = 50; // Cap on how fast nodes can move per iteration
+const MAX_OVERLAP_ITERATIONS = 50;
+// Repulsion is only computed between nodes in neighbouring grid cells. Beyond
+// this distance it moves a node by a fraction of a pixel per step.
+const REPULSION_CELL_SIZE = 500;
+
+interface NodePhysics {
+  id: string;
+  x: number; // Center position
+  y: number;
+  vx: number;
+  vy: number;
+  width: number;
+  height: number;
+  groupId?: string;
+  mass: number; // Larger nodes have more mass
+}
+
+/**
+ * Call `visit` once for every pair of items whose centers fall into the same or
+ * adjacent cells of a grid, instead of comparing every item with every other.
+ */
+const forEachNearbyPair = <T extends { x: number; y: number }>(
+  items: T[],
+  cellSize: number,
+  visit: (a: T, b: T) => void,
+) => {
+  const cells = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = `${Math.floor(item.x / cellSize)},${Math.floor(item.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  });
+
+  // Only look at half of the neighbourhood so each pair of cells is visited once
+  const NEIGHBOURS = [[1, -1], [1, 0], [1, 1], [0, 1]];
+  cells.forEach((cell, key) => {
+    const [cx, cy] = key.split(',').map(Number);
+    for (let i = 0; i < cell.length; i++) {
+      for (let j = i + 1; j < cell.length; j++) {
+        visit(cell[i], cell[j]);
+      }
+    }
+    NEIGHBOURS.forEach(([dx, dy]) => {
+      const neighbour = cells.get(`${cx + dx},${cy + dy}`);
+      if (!neighbour) return;
+      cell.forEach(a => neighbour.forEach(b => visit(a, b)));
+    });
+  });
+};
+
+export interface ForceSimulation {
+  readonly maxIterations: number;
+  iteration: () => number;
+  step: () => boolean; // Advance one iteration; true once converged or out of iterations
+  positions: () => LayoutPositions; // Current top-left positions
+  finish: () => LayoutPositions; // Final top-left positions, with overlaps resolved
+}
+
+/**
+ * FORCE-DIRECTED LAYOUT
+ * Repulsion between nearby nodes, springs along connections and a gentle pull
+ * towards each group's center, followed by an overlap resolution pass. The
+ * simulation runs step by step so the layout worker can stream progress.
+ */
+export const createForceSimulation = (nodesToOrganize: LayoutNode[], edges: LayoutEdge[]): ForceSimulation => {
+  // Initialize physics for each node
+  const nodePhysics = new Map<string, NodePhysics>();
+  nodesToOrganize.forEach(node => {
+    nodePhysics.set(node.id, {
+      id: node.id,
+      x: node.x + node.width / 2,
+      y: node.y + node.height / 2,
+      vx: 0,
+      vy: 0,
+      width: node.width,
+      height: node.height,
+      groupId: node.groupId,
+      mass: Math.sqrt(node.width * node.height) / 10 // Mass based on node size
+    });
+  });
+  const physicsArray = Array.from(nodePhysics.values());
+
+  // Connections that are relevant to the nodes being organized
+  const springs = edges
+    .map(conn => [nodePhysics.get(conn.fromNodeId), nodePhysics.get(conn.toNodeId)])
+    .filter((pair): pair is [NodePhysics, NodePhysics] => !!pair[0] && !!pair[1] && pair[0] !== pair[1]);
+
+  // Group nodes by their groups for soft container behavior
+  const nodesByGroup = new Map<string, NodePhysics[]>();
+  physicsArray.forEach(physics => {
+    if (!physics.groupId) return;
+    nodesByGroup.set(physics.groupId, [...(nodesByGroup.get(physics.groupId) || []), physics]);
+  });
+
+  let iteration = 0;
+  let converged = false;
+
+  const step = () => {
+    if (converged || iteration >= MAX_ITERATIONS) return true;
+    iteration++;
+
+    physicsArray.forEach(physics => {
+      physics.vx *= DAMPING;
+      physics.vy *= DAMPING;
+    });
+
+    // Repulsion between nearby node pairs
+    forEachNearbyPair(physicsArray, REPULSION_CELL_SIZE, (nodeA, nodeB) => {
+      const dx = nodeB.x - nodeA.x;
+      const dy = nodeB.y - nodeA.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance === 0) return;
+
+      // Stronger when the nodes are close enough to overlap
+      const minRequiredDistance = (nodeA.width + nodeB.width) / 2 + (nodeA.height + nodeB.height) / 2 + 30;
+      const repulsionForce = distance < minRequiredDistance
+        ? REPULSION_STRENGTH / (distance * distance) * 2
+        : REPULSION_STRENGTH / (distance * distance);
+
+      const fx = (dx / distance) * repulsionForce;
+      const fy = (dy / distance) * repulsionForce;
+      nodeA.vx -= fx / nodeA.mass;
+      nodeA.vy -= fy / nodeA.mass;
+      nodeB.vx += fx / nodeB.mass;
+      nodeB.vy += fy / nodeB.mass;
+    });
+
+    // Spring forces along connections (Hooke's law)
+    springs.forEach(([nodeA, nodeB]) => {
+      const dx = nodeB.x - nodeA.x;
+      const dy = nodeB.y - nodeA.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance === 0) return;
+
+      const springForce = ATTRACTION_STRENGTH * (distance - SPRING_LENGTH);
+      const fx = (dx / distance) * springForce;
+      const fy = (dy / distance) * springForce;
+      nodeA.vx += fx;
+      nodeA.vy += fy;
+      nodeB.vx -= fx;
+      nodeB.vy -= fy;
+    });
+
+    // Gentle attraction toward each group's current center (soft containers)
+    nodesByGroup.forEach(members => {
+      if (members.length < 2) return;
+      const centerX = members.reduce((sum, physics) => sum + physics.x, 0) / members.length;
+      const centerY = members.reduce((sum, physics) => sum + physics.y, 0) / members.length;
+      members.forEach(physics => {
+        const dx = centerX - physics.x;
+        const dy = centerY - physics.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance === 0) return;
+
+        const groupForce = GROUP_ATTRACTION * distance;
+        physics.vx += (dx / distance) * groupForce;
+        physics.vy += (dy / distance) * groupForce;
+      });
+    });
+
+    // Update positions and check for convergence
+    let totalMovement = 0;
+    physicsArray.forEach(physics => {
+      const velocity = Math.sqrt(physics.vx * physics.vx + physics.vy * physics.vy);
+      if (velocity > MAX_VELOCITY) {
+        physics.vx = (physics.vx / velocity) * MAX_VELOCITY;
+        physics.vy = (physics.vy / velocity) * MAX_VELOCITY;
+      }
+      physics.x += physics.vx;
+      physics.y += physics.vy;
+      totalMovement += Math.abs(physics.vx) + Math.abs(physics.vy);
+    });
+
+    converged = physicsArray.length === 0 || totalMovement / physicsArray.length < CONVERGENCE_THRESHOLD;
+    return converged || iteration >= MAX_ITERATIONS;
+  };
+
+  const positions = (): LayoutPositions => new Map(physicsArray.map(physics => [
+    physics.id,
+    { x: physics.x - physics.width / 2, y: physics.y - physics.height / 2 },
+  ]));
+
+  // Push overlapping bounding boxes apart along the axis with the smaller overlap
+  const resolveOverlaps = () => {
+    // Overlapping nodes have centers closer than the largest node dimension
+    const cellSize = Math.max(1, ...physicsArray.map(physics => Math.max(physics.width, physics.height)));
+    for (let pass = 0; pass < MAX_OVERLAP_ITERATIONS; pass++) {
+      let hasOverlaps = false;
+      forEachNearbyPair(physicsArray, cellSize, (nodeA, nodeB) => {
+        const overlapX = (nodeA.width + nodeB.width) / 2 - Math.abs(nodeA.x - nodeB.x);
+        const overlapY = (nodeA.height + nodeB.height) / 2 - Math.abs(nodeA.y - nodeB.y);
+        if (overlapX <= 0 || overlapY <= 0) return;
+
+        hasOverlaps = true;
+        if (overlapX < overlapY) {
+          const moveDistance = (overlapX + 20) / 2; // Add padding
+          const direction = nodeA.x < nodeB.x ? 1 : -1;
+          nodeA.x -= moveDistance * direction;
+          nodeB.x += moveDistance * direction;
+        } else {
+          const moveDistance = (overlapY + 20) / 2;
+          const direction = nodeA.y < nodeB.y ? 1 : -1;
+          nodeA.y -= moveDistance * direction;
+          nodeB.y += moveDistance * direction;
+        }
+      });
+      if (!hasOverlaps) break;
+    }
+  };
+
+  return {
+    maxIterations: MAX_ITERATIONS,
+    iteration: () => iteration,
+    step,
+    positions,
+    finish: () => {
+      while (!step()) {
+        // Run whatever is left of the simulation
+      }
+      resolveOverlaps();
+      return positions();
+    },
+  };
+};
+
+export const forceLayout = (nodes: LayoutNode[], edges: LayoutEdge[]): LayoutPositions =>
+  createForceSimulation(nodes, edges).finish();
+
+/**
+ * GRID LAYOUT
+ * Packs nodes into a roughly square grid in reading order, keeping members of
+ * the same group next to each other. The grid starts at the selection's top-left.
+ */
+export const gridLayout = (nodes: LayoutNode[]): LayoutPositions => {
+  const positions: LayoutPositions = new Map();
+  if (nodes.length === 0) return positions;
+
+  const readingOrder = [...nodes].sort((a, b) => a.y - b.y || a.x - b.x);
+  const byGroup = new Map<string | undefined, LayoutNode[]>();
+  readingOrder.forEach(node => {
+    byGroup.set(node.groupId, [...(byGroup.get(node.groupId) || []), node]);
+  });
+  const ordered = Array.from(byGroup.values()).flat();
+
+  const columns = Math.ceil(Math.sqrt(ordered.length));
+  const cellWidth = Math.max(...ordered.map(node => node.width));
+  const originX = Math.min(...nodes.map(node => node.x));
+  let rowY = Math.min(...nodes.map(node => node.y));
+
+  for (let start = 0; start < ordered.length; start += columns) {
+    const row = ordered.slice(start, start + columns);
+    row.forEach((node, column) => {
+      positions.set(node.id, {
+        x: originX + column * (cellWidth + GRID_GAP) + (cellWidth - node.width) / 2,
+        y: rowY,
+      });
+    });
+    rowY += Math.max(...row.map(node => node.height)) + GRID_GAP;
+  }
+
+  return positions;
+};
+
+/**
+ * CLUSTERED GRID LAYOUT
+ * Packs the nodes of each cluster into a grid of their own, then places the
+ * cluster blocks in rows, in the order the clusters first appear. Used for
+ * imports, where rows or bookmarks share a category. Starts at the origin.
+ */
+export const clusteredGridLayout = (
+  nodes: LayoutNode[],
+  clusterOf: (node: LayoutNode) => string | undefined,
+): LayoutPositions => {
+  const clusters = new Map<string | undefined, LayoutNode[]>();
+  nodes.forEach(node => {
+    const key = clusterOf(node);
+    clusters.set(key, [...(clusters.get(key) || []), node]);
+  });
+
+  const blocks = Array.from(clusters.values()).map(members => {
+    const placed = members.map(node => ({ ...node, x: 0, y: 0 }));
+    const positions = gridLayout(placed);
+    return {
+      positions,
+      width: Math.max(...placed.map(node => positions.get(node.id)!.x + node.width)),
+      height: Math.max(...placed.map(node => positions.get(node.id)!.y + node.height)),
+    };
+  });
+
+  const positions: LayoutPositions = new Map();
+  const columns = Math.ceil(Math.sqrt(blocks.length));
+  let rowY = 0;
+  for (let start = 0; start < blocks.length; start += columns) {
+    const row = blocks.slice(start, start + columns);
+    let columnX = 0;
+    row.forEach(block => {
+      block.positions.forEach((point, id) => positions.set(id, { x: columnX + point.x, y: rowY + point.y }));
+      columnX += block.width + CLUSTER_GAP;
+    });
+    rowY += Math.max(...row.map(block => block.height)) + CLUSTER_GAP;
+  }
+
+  return positions;
+};
+
+interface TreeNode {
+  node: LayoutNode;
+  children: TreeNode[];
+}
+
+/**
+ * Root for the hierarchical layouts: the requested center node when it is part
+ * of the layout, otherwise the most connected node.
+ */
+const pickRoot = (nodes: LayoutNode[], adjacency: Map<string, string[]>, centerNodeId?: string) => {
+  const center = centerNodeId ? nodes.find(node => node.id === centerNodeId) : undefined;
+  if (center) return center;
+
+  return nodes.reduce((best, node) =>
+    (adjacency.get(node.id)?.length || 0) > (adjacency.get(best.id)?.length || 0) ? node : best
+  );
+};
+
+/**
+ * Turn the connection graph into a forest by walking connections breadth-first
+ * from the root, ignoring their direction. Nodes not reachable from the root
+ * start trees of their own, most connected first.
+ */
+const buildForest = (nodes: LayoutNode[], edges: LayoutEdge[], centerNodeId?: string): TreeNode[] => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const adjacency = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    if (edge.fromNodeId === edge.toNodeId || !nodeMap.has(edge.fromNodeId) || !nodeMap.has(edge.toNodeId)) return;
+    adjacency.get(edge.fromNodeId)!.push(edge.toNodeId);
+    adjacency.get(edge.toNodeId)!.push(edge.fromNodeId);
+  });
+
+  // Keep children in their current visual order so the layout feels stable
+  adjacency.forEach(neighbours => {
+    neighbours.sort((a, b) => nodeMap.get(a)!.y - nodeMap.get(b)!.y || nodeMap.get(a)!.x - nodeMap.get(b)!.x);
+  });
+
+  const visited = new Set<string>();
+  const grow = (root: LayoutNode): TreeNode => {
+    const rootTree: TreeNode = { node: root, children: [] };
+    visited.add(root.id);
+    const queue: TreeNode[] = [rootTree];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      adjacency.get(current.node.id)!.forEach(id => {
+        if (visited.has(id)) return;
+        visited.add(id);
+        const child: TreeNode = { node: nodeMap.get(id)!, children: [] };
+        current.children.push(child);
+        queue.push(child);
+      });
+    }
+    return rootTree;
+  };
+
+  const forest = [grow(pickRoot(nodes, adjacency, centerNodeId))];
+  const remaining = nodes
+    .filter(node => !visited.has(node.id))
+    .sort((a, b) => adjacency.get(b.id)!.length - adjacency.get(a.id)!.length);
+  remaining.forEach(node => {
+    if (!visited.has(node.id)) forest.push(grow(node));
+  });
+
+  return forest;
+};
+
+const boundsOf = (positions: LayoutPositions, nodes: Map<string, LayoutNode>) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  positions.forEach((position, id) => {
+    const node = nodes.get(id)!;
+    minX = Math.min(minX, position.x);
+    minY = Math.min(minY, position.y);
+    maxX = Math.max(maxX, position.x + node.width);
+    maxY = Math.max(maxY, position.y + node.height);
+  });
+  return { minX, minY, maxX, maxY };
+};
+
+/**
+ * Lay out each tree of a forest with `layoutTree` (which places the tree's root
+ * at its current position) and line the extra trees up after the first one, so
+ * the main tree's root stays where the user left it.
+ */
+const layoutForest = (
+  nodes: LayoutNode[],
+  forest: TreeNode[],
+  layoutTree: (tree: TreeNode) => LayoutPositions,
+  axis: 'x' | 'y',
+): LayoutPositions => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const positions: LayoutPositions = new Map();
+  let previous: ReturnType<typeof boundsOf> | null = null;
+
+  forest.forEach(tree => {
+    const treePositions = layoutTree(tree);
+    if (previous) {
+      const bounds = boundsOf(treePositions, nodeMap);
+      const dx = axis === 'x' ? previous.maxX + COMPONENT_GAP - bounds.minX : previous.minX - bounds.minX;
+      const dy = axis === 'y' ? previous.maxY + COMPONENT_GAP - bounds.minY : previous.minY - bounds.minY;
+      treePositions.forEach(position => {
+        position.x += dx;
+        position.y += dy;
+      });
+    }
+    treePositions.forEach((position, id) => positions.set(id, position));
+    previous = boundsOf(positions, nodeMap);
+  });
+
+  return positions;
+};
+
+/**
+ * MIND MAP LAYOUT
+ * The root stays in place and its branches spread out to the right and to the
+ * left, balanced by size. Each branch is a horizontal tree whose children are
+ * stacked vertically next to their parent.
+ */
+export const mindmapLayout = (nodes: LayoutNode[], edges: LayoutEdge[], centerNodeId?: string): LayoutPositions => {
+  if (nodes.length === 0) return new Map();
+
+  const spans = new Map<TreeNode, number>();
+  const span = (tree: TreeNode): number => {
+    if (!spans.has(tree)) {
+      const childSpan = tree.children.reduce((sum, child) => sum + span(child), 0) +
+        SIBLING_GAP * Math.max(0, tree.children.length - 1);
+      spans.set(tree, Math.max(tree.node.height, childSpan));
+    }
+    return spans.get(tree)!;
+  };
+
+  // `edgeX` is the parent-facing edge: the left edge on the right side, the right edge on the left
+  const placeBranch = (tree: TreeNode, edgeX: number, top: number, direction: 1 | -1, positions: LayoutPositions) => {
+    const { node } = tree;
+    const x = direction === 1 ? edgeX : edgeX - node.width;
+    positions.set(node.id, { x, y: top + span(tree) / 2 - node.height / 2 });
+    placeChildren(tree.children, direction === 1 ? x + node.width + LEVEL_GAP : x - LEVEL_GAP, top + span(tree) / 2, direction, positions);
+  };
+
+  const placeChildren = (children: TreeNode[], edgeX: number, centerY: number, direction: 1 | -1, positions: LayoutPositions) => {
+    const total = children.reduce((sum, child) => sum + span(child), 0) + SIBLING_GAP * Math.max(0, children.length - 1);
+    let top = centerY - total / 2;
+    children.forEach(child => {
+      placeBranch(child, edgeX, top, direction, positions);
+      top += span(child) + SIBLING_GAP;
+    });
+  };
+
+  const layoutTree = (tree: TreeNode): LayoutPositions => {
+    const positions: LayoutPositions = new Map();
+    const { node } = tree;
+    positions.set(node.id, { x: node.x, y: node.y });
+
+    // Alternate branches between the sides, always feeding the lighter side
+    const right: TreeNode[] = [];
+    const left: TreeNode[] = [];
+    let rightSpan = 0;
+    let leftSpan = 0;
+    tree.children.forEach(child => {
+      if (rightSpan <= leftSpan) {
+        right.push(child);
+        rightSpan += span(child);
+      } else {
+        left.push(child);
+        leftSpan += span(child);
+      }
+    });
+
+    const centerY = node.y + node.height / 2;
+    placeChildren(right, node.x + node.width + LEVEL_GAP, centerY, 1, positions);
+    placeChildren(left, node.x - LEVEL_GAP, centerY, -1, positions);
+    return positions;
+  };
+
+  return layoutForest(nodes, buildForest(nodes, edges, centerNodeId), layoutTree, 'y');
+};
+
+/**
+ * ORG CHART LAYOUT
+ * A top-down tree: the root stays in place and every level sits below its
+ * parent, with each subtree centered under the node it hangs from.
+ */
+export const treeLayout = (nodes: LayoutNode[], edges: LayoutEdge[], centerNodeId?: string): LayoutPositions => {
+  if (nodes.length === 0) return new Map();
+
+  const spans = new Map<TreeNode, number>();
+  const span = (tree: TreeNode): number => {
+    if (!spans.has(tree)) {
+      const childSpan = tree.children.reduce((sum, child) => sum + span(child), 0) +
+        SIBLING_GAP * Math.max(0, tree.children.length - 1);
+      spans.set(tree, Math.max(tree.node.width, childSpan));
+    }
+    return spans.get(tree)!;
+  };
+
+  const place = (tree: TreeNode, left: number, y: number, positions: LayoutPositions) => {
+    const { node } = tree;
+    const centerX = left + span(tree) / 2;
+    positions.set(node.id, { x: centerX - node.width / 2, y });
+
+    const total = tree.children.reduce((sum, child) => sum + span(child), 0) +
+      SIBLING_GAP * Math.max(0, tree.children.length - 1);
+    let childLeft = centerX - total / 2;
+    tree.children.forEach(child => {
+      place(child, childLeft, y + node.height + LEVEL_GAP, positions);
+      childLeft += span(child) + SIBLING_GAP;
+    });
+  };
+
+  const layoutTree = (tree: TreeNode): LayoutPositions => {
+    const positions: LayoutPositions = new Map();
+    const { node } = tree;
+    place(tree, node.x + node.width / 2 - span(tree) / 2, node.y, positions);
+    return positions;
+  };
+
+  return layoutForest(nodes, buildForest(nodes, edges, centerNodeId), layoutTree, 'x');
+};
+
+/**
+ * RADIAL LAYOUT
+ * The root stays in place and each generation sits on a ring around it. Every
+ * subtree gets a slice of the circle proportional to its number of leaves.
+ */
+export const radialLayout = (nodes: LayoutNode[], edges: LayoutEdge[], centerNodeId?: string): LayoutPositions => {
+  if (nodes.length === 0) return new Map();
+
+  const nodeSize = Math.max(...nodes.map(node => Math.max(node.width, node.height)));
+
+  const layoutTree = (tree: TreeNode): LayoutPositions => {
+    const leaves = new Map<TreeNode, number>();
+    const countLeaves = (current: TreeNode): number => {
+      const count = current.children.length === 0
+        ? 1
+        : current.children.reduce((sum, child) => sum + countLeaves(child), 0);
+      leaves.set(current, count);
+      return count;
+    };
+    countLeaves(tree);
+
+    // Ring radii grow with depth, and stretch when a generation would not fit around its ring
+    const perDepth: number[] = [];
+    const countDepth = (current: TreeNode, depth: number) => {
+      perDepth[depth] = (perDepth[depth] || 0) + 1;
+      current.children.forEach(child => countDepth(child, depth + 1));
+    };
+    countDepth(tree, 0);
+    const radii = [0];
+    for (let depth = 1; depth < perDepth.length; depth++) {
+      const minimum = radii[depth - 1] + nodeSize + LEVEL_GAP;
+      const fitting = (perDepth[depth] * (nodeSize + SIBLING_GAP)) / (2 * Math.PI);
+      radii.push(Math.max(minimum, fitting));
+    }
+
+    const { node } = tree;
+    const centerX = node.x + node.width / 2;
+    const centerY = node.y + node.height / 2;
+    const positions: LayoutPositions = new Map();
+    positions.set(node.id, { x: node.x, y: node.y });
+
+    const place = (current: TreeNode, depth: number, startAngle: number, endAngle: number) => {
+      let angle = startAngle;
+      current.children.forEach(child => {
+        const slice = ((endAngle - startAngle) * leaves.get(child)!) / leaves.get(current)!;
+        const middle = angle + slice / 2;
+        positions.set(child.node.id, {
+          x: centerX + radii[depth] * Math.cos(middle) - child.node.width / 2,
+          y: centerY + radii[depth] * Math.sin(middle) - child.node.height / 2,
+        });
+        place(child, depth + 1, angle, angle + slice);
+        angle += slice;
+      });
+    };
+    // Slices go clockwise starting from the top
+    place(tree, 1, -Math.PI / 2, (3 * Math.PI) / 2);
+
+    return positions;
+  };
+
+  return layoutForest(nodes, buildForest(nodes, edges, centerNodeId), layoutTree, 'x');
+};
+
+export const computeLayout = (
+  layout: LayoutType,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  centerNodeId?: string,
+): LayoutPositions => {
+  switch (layout) {
+    case 'grid':
+      return gridLayout(nodes);
+    case 'mindmap':
+      return mindmapLayout(nodes, edges, centerNodeId);
+    case 'tree':
+      return treeLayout(nodes, edges, centerNodeId);
+    case 'radial':
+      return radialLayout(nodes, edges, centerNodeId);
+    default:
+      return forceLayout(nodes, edges);
+  }
+};
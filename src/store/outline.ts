@@ -0,0 +1,239 @@
+import type { Node, Connection, NodeGroup } from './canvasStore';
+import { createEntityId, type CanvasFragment } from './canvasMerge';
+import { computeLayout, type LayoutType } from './layout';
+import { CURRENT_SCHEMA_VERSION } from './canvasSchema';
+import { TEXT_NODE_PARAGRAPH_STYLE, htmlToText } from '../utils/html';
+
+/**
+ * Outlines are the common ground between the canvas and tree-shaped formats
+ * such as Markdown lists. A canvas is read as an outline by walking its
+ * connections from the root nodes; an outline becomes a fragment of connected
+ * nodes, arranged with one of the auto-layouts, that can be merged into a
+ * canvas.
+ */
+
+// One entry of an outline read from a file
+export interface OutlineItem {
+  title?: string;
+  html?: string; // Body of a text node, already sanitized
+  links?: Array<{ url: string; title: string }>; // Makes a link node instead of a text node
+  images?: string[]; // Makes an image node
+  tags?: string[];
+  comment?: string;
+  color?: string; // Node fill color
+  group?: { name: string; color?: string }; // Puts the item and its descendants in a group
+  key?: string; // Identifies the item for cross-links
+  children: OutlineItem[];
+}
+
+// A connection outside the hierarchy, between the items with these keys
+export interface OutlineCrossLink {
+  from: string;
+  to: string;
+}
+
+// Top-level items, under a heading that becomes a group
+export interface OutlineSection {
+  heading?: string;
+  items: OutlineItem[];
+}
+
+// An outline read from a file
+export interface OutlineDocument {
+  title?: string;
+  sections: OutlineSection[];
+  crossLinks?: OutlineCrossLink[];
+}
+
+// A canvas node with the nodes its connections lead to
+export interface CanvasTree {
+  node: Node;
+  children: CanvasTree[];
+}
+
+export interface CanvasOutlineSection {
+  group?: NodeGroup;
+  trees: CanvasTree[];
+}
+
+// Same palette as the group dialog
+export const GROUP_COLORS = ['#3b82f6', '#f97316', '#10b981', '#ef4444', '#8b5cf6', '#f59e0b', '#ec4899', '#6366f1'];
+
+const NODE_WIDTH = 200;
+const MIN_NODE_HEIGHT = 120;
+const MAX_NODE_HEIGHT = 320;
+const CHARS_PER_LINE = 26;
+
+// Roughly size a node to its text, so long notes aren't cut off
+const estimateHeight = (item: OutlineItem) => {
+  const text = (item.html ?? '').replace(/<[^>]+>/g, ' ');
+  const lines = Math.ceil(text.length / CHARS_PER_LINE)
+    + (item.title ? 2 : 0)
+    + (item.links?.length ?? 0) * 2
+    + (item.images?.length ? 6 : 0)
+    + (item.comment ? 3 : 0);
+  return Math.min(MAX_NODE_HEIGHT, Math.max(MIN_NODE_HEIGHT, 40 + lines * 20));
+};
+
+const itemContent = (item: OutlineItem): Node['content'] => {
+  if (item.images?.length) {
+    return { type: 'image', value: item.images[0], title: item.title, images: item.images };
+  }
+  if (item.links?.length && !item.html) {
+    return { type: 'link', value: item.links[0].url, title: item.title, links: item.links };
+  }
+  return { type: 'text', value: item.html || `<p style="${TEXT_NODE_PARAGRAPH_STYLE}"></p>`, title: item.title };
+};
+
+/**
+ * Turn an outline into new nodes, with a connection from every item to each
+ * of its children and to its cross-links, and a group for every headed section
+ * or item that starts one, laid out as a mind map by default. Groups with the
+ * same name are one group. The fragment's IDs are placeholders; merging it
+ * into a canvas gives everything fresh IDs.
+ */
+export const outlineToFragment = (
+  sections: OutlineSection[],
+  layout: LayoutType = 'mindmap',
+  crossLinks: OutlineCrossLink[] = [],
+): CanvasFragment => {
+  const now = new Date();
+  const nodes: Node[] = [];
+  const connections: Connection[] = [];
+  const groups: NodeGroup[] = [];
+  const nodeIdsByKey = new Map<string, string>();
+
+  const groupNamed = (name: string, color?: string) => {
+    let group = groups.find(g => g.name === name);
+    if (!group) {
+      group = { id: createEntityId('group'), name, color: color || GROUP_COLORS[groups.length % GROUP_COLORS.length], nodes: [] };
+      groups.push(group);
+    }
+    return group.id;
+  };
+
+  const addItem = (item: OutlineItem, parentGroupId: string | undefined, parentId?: string) => {
+    const groupId = item.group ? groupNamed(item.group.name, item.group.color) : parentGroupId;
+    const node: Node = {
+      id: createEntityId('node'),
+      x: 0,
+      y: 0,
+      width: NODE_WIDTH,
+      height: estimateHeight(item),
+      content: itemContent(item),
+      groupId,
+      color: item.color || '#ffffff',
+      selected: false,
+      createdAt: now,
+      updatedAt: now,
+      ...(item.comment ? { comment: item.comment } : {}),
+      ...(item.tags?.length ? { tags: item.tags } : {}),
+    };
+    nodes.push(node);
+    if (item.key) nodeIdsByKey.set(item.key, node.id);
+    if (parentId) {
+      connections.push({ id: createEntityId('conn'), fromNodeId: parentId, toNodeId: node.id, color: '#000000' });
+    }
+    item.children.forEach(child => addItem(child, groupId, node.id));
+  };
+
+  sections.forEach(section => {
+    if (section.items.length === 0) return;
+    const groupId = section.heading ? groupNamed(section.heading) : undefined;
+    section.items.forEach(item => addItem(item, groupId));
+  });
+
+  groups.forEach(group => {
+    group.nodes = nodes.filter(node => node.groupId === group.id).map(node => node.id);
+  });
+
+  // The first top-level item is the center of the map; the rest are laid out beside it.
+  // Only the hierarchy shapes the layout, not the cross-links.
+  const positions = computeLayout(layout, nodes, connections, nodes[0]?.id);
+  const positioned = nodes.map(node => ({ ...node, ...(positions.get(node.id) ?? {}) }));
+
+  crossLinks.forEach(link => {
+    const fromNodeId = nodeIdsByKey.get(link.from);
+    const toNodeId = nodeIdsByKey.get(link.to);
+    if (fromNodeId && toNodeId && fromNodeId !== toNodeId) {
+      connections.push({ id: createEntityId('conn'), fromNodeId, toNodeId, color: '#000000' });
+    }
+  });
+
+  return { nodes: positioned, connections, groups };
+};
+
+/**
+ * Read nodes as an outline by following connections from the nodes nothing
+ * points to, in reading order. Each node appears once, under the first parent
+ * that reaches it; nodes only reachable through a cycle start trees of their
+ * own. Trees are filed under the group of their root, ungrouped ones first.
+ */
+export const buildCanvasOutline = ({ nodes, connections, groups }: CanvasFragment): CanvasOutlineSection[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const readingOrder = (a: Node, b: Node) => a.y - b.y || a.x - b.x;
+
+  const children = new Map<string, Node[]>();
+  const hasParent = new Set<string>();
+  connections.forEach(conn => {
+    const from = byId.get(conn.fromNodeId);
+    const to = byId.get(conn.toNodeId);
+    if (!from || !to || from === to) return;
+    children.set(from.id, [...(children.get(from.id) ?? []), to]);
+    hasParent.add(to.id);
+  });
+  children.forEach(list => list.sort(readingOrder));
+
+  const visited = new Set<string>();
+  const grow = (node: Node): CanvasTree => {
+    visited.add(node.id);
+    const tree: CanvasTree = { node, children: [] };
+    (children.get(node.id) ?? []).forEach(child => {
+      if (!visited.has(child.id)) tree.children.push(grow(child));
+    });
+    return tree;
+  };
+
+  const sorted = [...nodes].sort(readingOrder);
+  const trees: CanvasTree[] = [];
+  sorted.filter(node => !hasParent.has(node.id)).forEach(node => trees.push(grow(node)));
+  sorted.forEach(node => {
+    if (!visited.has(node.id)) trees.push(grow(node));
+  });
+
+  const sections: CanvasOutlineSection[] = [{ trees: trees.filter(tree => !tree.node.groupId || !groups.some(g => g.id === tree.node.groupId)) }];
+  groups.forEach(group => {
+    const grouped = trees.filter(tree => tree.node.groupId === group.id);
+    if (grouped.length > 0) sections.push({ group, trees: grouped });
+  });
+  return sections.filter(section => section.trees.length > 0);
+};
+
+// Canvas file JSON for a fragment, for the import paths that take canvas files
+export const fragmentToCanvasFile = (canvasName: string, { nodes, connections, groups }: CanvasFragment) =>
+  JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, canvasName, nodes, connections, groups });
+
+const isPastedMedia = (url: string) => url.startsWith('data:');
+
+// Plain text of a node, for formats without rich text: its title followed by its text
+export const nodePlainText = (node: Node) =>
+  [node.content.title, node.content.type === 'text' ? htmlToText(node.content.value) : '']
+    .filter(Boolean)
+    .join('\n');
+
+// The first address a link, image or video node points to, leaving out media pasted into the canvas
+export const nodeUrl = (node: Node): string | undefined => {
+  const { content } = node;
+  const urls = content.type === 'link'
+    ? (content.links?.length ? content.links.map(link => link.url) : [content.value])
+    : content.type === 'image'
+      ? (content.images?.length ? content.images : [content.value])
+      : content.type === 'video'
+        ? (content.videos?.length ? content.videos : [content.value])
+        : [];
+  return urls.find(url => url && !isPastedMedia(url));
+};
+
+// A short name for a node in formats that only hold a label: its text, else its link title or address
+export const nodeLabel = (node: Node) =>
+  nodePlainText(node) || node.content.links?.[0]?.title || nodeUrl(node) || '';
@@ -0,0 +1,177 @@
+import type { Point } from './canvasStore';
+import { rectsIntersect, type Rect } from '../utils/viewport';
+
+/**
+ * Quadtree over node bounding boxes, for finding nodes by area without
+ * scanning the whole node list. Items that straddle a quadrant boundary stay
+ * in the parent quad. The canvas is unbounded, so the root grows outwards
+ * whenever something is inserted outside it.
+ */
+
+const MAX_ITEMS = 8; // Items a quad holds before it splits
+const MAX_DEPTH = 16;
+const INITIAL_EXTENT = 4096;
+
+interface Quad {
+  bounds: Rect;
+  depth: number;
+  items: string[];
+  children: Quad[] | null;
+}
+
+const contains = (outer: Rect, inner: Rect) =>
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+
+const createQuad = (bounds: Rect, depth: number): Quad => ({ bounds, depth, items: [], children: null });
+
+// Distance from a point to the closest edge of a rectangle, 0 inside it
+const distanceToRect = (point: Point, rect: Rect) => {
+  const dx = Math.max(rect.minX - point.x, 0, point.x - rect.maxX);
+  const dy = Math.max(rect.minY - point.y, 0, point.y - rect.maxY);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export class SpatialIndex {
+  private root: Quad = createQuad(
+    { minX: -INITIAL_EXTENT, minY: -INITIAL_EXTENT, maxX: INITIAL_EXTENT, maxY: INITIAL_EXTENT },
+    0,
+  );
+  private rects = new Map<string, Rect>();
+  private locations = new Map<string, Quad>(); // Quad currently holding each item
+
+  insert(id: string, rect: Rect) {
+    if (this.rects.has(id)) {
+      this.remove(id);
+    }
+    // The root could never grow to contain a NaN or infinite rectangle
+    if (![rect.minX, rect.minY, rect.maxX, rect.maxY].every(Number.isFinite)) return;
+
+    while (!contains(this.root.bounds, rect)) {
+      this.grow(rect);
+    }
+    this.rects.set(id, rect);
+    this.insertInto(this.root, id, rect);
+  }
+
+  remove(id: string) {
+    const quad = this.locations.get(id);
+    if (!quad) return;
+    const index = quad.items.indexOf(id);
+    if (index !== -1) {
+      quad.items[index] = quad.items[quad.items.length - 1];
+      quad.items.pop();
+    }
+    this.locations.delete(id);
+    this.rects.delete(id);
+  }
+
+  update(id: string, rect: Rect) {
+    const quad = this.locations.get(id);
+    // Moves that keep the item inside its quad (and out of the children) only need the new rect
+    if (quad && contains(quad.bounds, rect) && !this.fitsChild(quad, rect)) {
+      this.rects.set(id, rect);
+      return;
+    }
+    this.insert(id, rect);
+  }
+
+  // IDs of all items whose rectangle intersects the area, in no particular order
+  search(area: Rect): string[] {
+    const result: string[] = [];
+    const visit = (quad: Quad) => {
+      if (!rectsIntersect(quad.bounds, area)) return;
+      quad.items.forEach(id => {
+        if (rectsIntersect(this.rects.get(id)!, area)) result.push(id);
+      });
+      quad.children?.forEach(visit);
+    };
+    visit(this.root);
+    return result;
+  }
+
+  // Item closest to the point within maxDistance, measured to the edge of its rectangle
+  nearest(point: Point, maxDistance: number, exclude?: (id: string) => boolean): string | null {
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    this.search({
+      minX: point.x - maxDistance,
+      minY: point.y - maxDistance,
+      maxX: point.x + maxDistance,
+      maxY: point.y + maxDistance,
+    }).forEach(id => {
+      if (exclude?.(id)) return;
+      const distance = distanceToRect(point, this.rects.get(id)!);
+      if (distance <= maxDistance && distance < bestDistance) {
+        best = id;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  private insertInto(quad: Quad, id: string, rect: Rect) {
+    let target = quad;
+    while (target.children) {
+      const child = target.children.find(candidate => contains(candidate.bounds, rect));
+      if (!child) break;
+      target = child;
+    }
+
+    target.items.push(id);
+    this.locations.set(id, target);
+
+    if (!target.children && target.items.length > MAX_ITEMS && target.depth < MAX_DEPTH) {
+      this.split(target);
+    }
+  }
+
+  private fitsChild(quad: Quad, rect: Rect) {
+    return !!quad.children?.some(child => contains(child.bounds, rect));
+  }
+
+  private split(quad: Quad) {
+    const { minX, minY, maxX, maxY } = quad.bounds;
+    const midX = (minX + maxX) / 2;
+    const midY = (minY + maxY) / 2;
+    quad.children = [
+      createQuad({ minX, minY, maxX: midX, maxY: midY }, quad.depth + 1),
+      createQuad({ minX: midX, minY, maxX, maxY: midY }, quad.depth + 1),
+      createQuad({ minX, minY: midY, maxX: midX, maxY }, quad.depth + 1),
+      createQuad({ minX: midX, minY: midY, maxX, maxY }, quad.depth + 1),
+    ];
+
+    // Push down whatever fits entirely into one quadrant
+    const items = quad.items;
+    quad.items = [];
+    items.forEach(id => this.insertInto(quad, id, this.rects.get(id)!));
+  }
+
+  // Double the root towards the rectangle, keeping the old root as one of its quadrants
+  private grow(towards: Rect) {
+    const old = this.root;
+    const width = old.bounds.maxX - old.bounds.minX;
+    const height = old.bounds.maxY - old.bounds.minY;
+    const growLeft = towards.minX < old.bounds.minX;
+    const growUp = towards.minY < old.bounds.minY;
+
+    const minX = growLeft ? old.bounds.minX - width : old.bounds.minX;
+    const minY = growUp ? old.bounds.minY - height : old.bounds.minY;
+    const root = createQuad({ minX, minY, maxX: minX + width * 2, maxY: minY + height * 2 }, 0);
+
+    const oldIndex = (growUp ? 2 : 0) + (growLeft ? 1 : 0);
+    root.children = [0, 1, 2, 3].map(index => {
+      if (index === oldIndex) return old;
+      const column = index % 2;
+      const row = Math.floor(index / 2);
+      return createQuad({
+        minX: minX + column * width,
+        minY: minY + row * height,
+        maxX: minX + (column + 1) * width,
+        maxY: minY + (row + 1) * height,
+      }, 1);
+    });
+
+    // Depth only limits splitting, so the old subtree keeps its numbers
+    this.root = root;
+  }
+}
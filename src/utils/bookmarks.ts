@@ -0,0 +1,114 @@
+import type { Node, NodeGroup } from '../store/canvasStore';
+import { createEntityId, type CanvasFragment } from '../store/canvasMerge';
+import { clusteredGridLayout } from '../store/layout';
+import { GROUP_COLORS } from '../store/outline';
+import { isSafeUrl } from './html';
+
+/**
+ * Browser bookmarks in the Netscape bookmark file format, which every major
+ * browser exports. Each bookmark becomes a link node; the folder it sits in
+ * becomes its group and every folder on its path one of its tags. The
+ * folders browsers keep bookmarks in (toolbar, other bookmarks) are left out.
+ */
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 120;
+
+// Attributes browsers put on the folders they create themselves
+const BROWSER_FOLDER_ATTRIBUTES = ['personal_toolbar_folder', 'unfiled_bookmarks_folder'];
+
+export const isBookmarksHtml = (html: string) => /<!doctype\s+netscape-bookmark-file/i.test(html.slice(0, 500));
+
+// Bookmark dates are seconds since the epoch
+const parseTimestamp = (value: string | null) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : undefined;
+};
+
+// A folder's <DL> follows its <H3> heading, sometimes after a stray <p>
+const folderHeading = (list: Element) => {
+  let sibling = list.previousElementSibling;
+  while (sibling?.tagName === 'P') sibling = sibling.previousElementSibling;
+  return sibling?.tagName === 'H3' ? sibling : undefined;
+};
+
+// Names of the folders around a bookmark, outermost first
+const folderPath = (anchor: Element) => {
+  const path: string[] = [];
+  for (let element = anchor.parentElement; element; element = element.parentElement) {
+    if (element.tagName !== 'DL') continue;
+    const heading = folderHeading(element);
+    const isBrowserFolder = heading && BROWSER_FOLDER_ATTRIBUTES.some(name => heading.hasAttribute(name));
+    const name = heading?.textContent?.trim();
+    if (name && !isBrowserFolder) path.unshift(name);
+  }
+  return path;
+};
+
+// A description is written as a <DD> after the bookmark's <DT>
+const bookmarkDescription = (anchor: Element) => {
+  const next = anchor.closest('dt')?.nextElementSibling;
+  return next?.tagName === 'DD' ? next.textContent?.trim() || undefined : undefined;
+};
+
+/**
+ * Turn a bookmarks file into link nodes, laid out as a grid per folder.
+ * Bookmarklets and browser-internal addresses are skipped. The fragment's
+ * IDs are placeholders, like any import.
+ */
+export const parseBookmarks = (html: string): CanvasFragment => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const now = new Date();
+  const nodes: Node[] = [];
+  const groups: NodeGroup[] = [];
+
+  const groupNamed = (name: string) => {
+    let group = groups.find(g => g.name === name);
+    if (!group) {
+      group = { id: createEntityId('group'), name, color: GROUP_COLORS[groups.length % GROUP_COLORS.length], nodes: [] };
+      groups.push(group);
+    }
+    return group.id;
+  };
+
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    const url = anchor.getAttribute('href')!.trim();
+    if (!isSafeUrl(url)) return;
+
+    const title = anchor.textContent?.trim() || url;
+    const folders = folderPath(anchor);
+    // Firefox keeps its own bookmark tags in a comma-separated attribute
+    const ownTags = (anchor.getAttribute('tags') ?? '').split(',').map(tag => tag.trim()).filter(Boolean);
+    const tags = Array.from(new Set([...folders, ...ownTags]));
+    const description = bookmarkDescription(anchor);
+    const createdAt = parseTimestamp(anchor.getAttribute('add_date')) ?? now;
+
+    nodes.push({
+      id: createEntityId('node'),
+      x: 0,
+      y: 0,
+      width: NODE_WIDTH,
+      height: NODE_HEIGHT,
+      content: { type: 'link', value: url, title, links: [{ url, title }] },
+      // Nested folders are groups of their own, named by their whole path
+      groupId: folders.length ? groupNamed(folders.join(' / ')) : undefined,
+      color: '#ffffff',
+      selected: false,
+      createdAt,
+      updatedAt: parseTimestamp(anchor.getAttribute('last_modified')) ?? createdAt,
+      ...(description ? { comment: description } : {}),
+      ...(tags.length ? { tags } : {}),
+    });
+  });
+
+  groups.forEach(group => {
+    group.nodes = nodes.filter(node => node.groupId === group.id).map(node => node.id);
+  });
+
+  const positions = clusteredGridLayout(nodes, node => node.groupId);
+  return {
+    nodes: nodes.map(node => ({ ...node, ...(positions.get(node.id) ?? {}) })),
+    connections: [],
+    groups,
+  };
+};
@@ -0,0 +1,124 @@
+import { blobToDataUrl, canvasStorage, dataUrlToBlob, hashBlob } from '../services/storageService';
+import { createZip, readZip } from './zip';
+
+/**
+ * IdeaScape bundles (.ideascape): a ZIP archive with the canvas file as
+ * `canvas.json` and every pasted image and video stored once under `media/`,
+ * named by its content hash. Node content points at those files instead of
+ * holding data URLs, which keeps boards with screenshots small and portable.
+ * `canvas.json` lists the media files with their types under `media`.
+ */
+
+export const BUNDLE_EXTENSION = 'ideascape';
+
+const CANVAS_ENTRY = 'canvas.json';
+const MEDIA_FOLDER = 'media/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogv',
+  'video/quicktime': 'mov',
+};
+
+const MIME_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, extension]) => [extension, type]));
+
+interface BundleNodeContent {
+  value?: string;
+  images?: string[];
+  videos?: string[];
+}
+
+// Rewrite every media address of the nodes of a parsed canvas file
+const mapNodeMedia = async (nodes: unknown, map: (url: string) => Promise<string>) => {
+  if (!Array.isArray(nodes)) return;
+  for (const node of nodes) {
+    const content: BundleNodeContent | undefined = node?.content;
+    if (!content || typeof content !== 'object') continue;
+    if (typeof content.value === 'string') content.value = await map(content.value);
+    if (Array.isArray(content.images)) content.images = (await Promise.all(content.images.map(map))).filter(Boolean);
+    if (Array.isArray(content.videos)) content.videos = (await Promise.all(content.videos.map(map))).filter(Boolean);
+  }
+};
+
+/**
+ * Pack canvas file JSON into a bundle, moving its data URLs into media files.
+ */
+export const createCanvasBundle = async (canvasFile: string): Promise<Blob> => {
+  const file = JSON.parse(canvasFile);
+  const paths = new Map<string, string>(); // Data URL -> media path
+  const media = new Map<string, Blob>(); // Media path -> file
+
+  await mapNodeMedia(file.nodes, async url => {
+    if (!url.startsWith('data:')) return url;
+    if (!paths.has(url)) {
+      const blob = dataUrlToBlob(url);
+      const path = `${MEDIA_FOLDER}${await hashBlob(blob)}.${EXTENSIONS[blob.type] ?? 'bin'}`;
+      paths.set(url, path);
+      media.set(path, blob);
+    }
+    return paths.get(url)!;
+  });
+
+  file.media = Object.fromEntries(Array.from(media, ([path, blob]) => [path, blob.type]));
+  const mediaEntries = await Promise.all(Array.from(media, async ([name, blob]) => ({
+    name,
+    data: new Uint8Array(await blob.arrayBuffer()),
+  })));
+
+  return createZip([
+    { name: CANVAS_ENTRY, data: new TextEncoder().encode(JSON.stringify(file, null, 2)), compress: true },
+    ...mediaEntries,
+  ]);
+};
+
+/**
+ * Unpack a bundle into canvas file JSON. Its media files are restored into
+ * local storage and the nodes get them back as data URLs. Throws when the
+ * archive holds no canvas.
+ */
+export const readCanvasBundle = async (bundle: Blob): Promise<string> => {
+  const entries = await readZip(bundle);
+  // Archives repacked from an unzipped folder keep the folder name in front
+  const canvasEntry = entries.find(entry => entry.name === CANVAS_ENTRY || entry.name.endsWith(`/${CANVAS_ENTRY}`));
+  if (!canvasEntry) {
+    throw new Error(`The bundle has no ${CANVAS_ENTRY}`);
+  }
+  const root = canvasEntry.name.slice(0, -CANVAS_ENTRY.length);
+  const file = JSON.parse(new TextDecoder().decode(canvasEntry.data));
+  const types: Record<string, string> = file.media && typeof file.media === 'object' ? file.media : {};
+  delete file.media;
+
+  const referenced = new Set<string>();
+  await mapNodeMedia(file.nodes, async url => {
+    if (url.startsWith(MEDIA_FOLDER)) referenced.add(url);
+    return url;
+  });
+
+  const paths = Array.from(referenced).filter(path => entries.some(entry => entry.name === root + path));
+  const blobs = paths.map(path => {
+    const entry = entries.find(candidate => candidate.name === root + path)!;
+    const type = types[path] || MIME_TYPES[path.split('.').pop()!.toLowerCase()] || 'application/octet-stream';
+    return new Blob([entry.data], { type });
+  });
+  const dataUrls = await canvasStorage.restoreMedia(blobs).catch(error => {
+    // Without local storage the media still loads into the canvas
+    console.warn('Could not store bundle media:', error);
+    return Promise.all(blobs.map(blobToDataUrl));
+  });
+  const restored = new Map(paths.map((path, index) => [path, dataUrls[index]]));
+
+  if (restored.size < referenced.size) {
+    console.warn(`${referenced.size - restored.size} media files are missing from the bundle`);
+  }
+  await mapNodeMedia(file.nodes, async url => (url.startsWith(MEDIA_FOLDER) ? restored.get(url) ?? '' : url));
+
+  return JSON.stringify(file);
+};
@@ -0,0 +1,304 @@
+import type { Node, Connection, NodeGroup } from '../store/canvasStore';
+import { htmlToText } from './html';
+import { getConnectionCurve, type ConnectionCurve } from './connectionPath';
+import { nodeRect, unionRects, rectsIntersect, type Rect } from './viewport';
+
+/**
+ * Resolution-independent drawing of a board, built from store data rather
+ * than the DOM. The scene is a flat list of shapes in canvas coordinates that
+ * the SVG and PDF exporters each translate into their own format, so every
+ * export looks the same. Text is wrapped here, with Helvetica metrics, because
+ * neither output format wraps text by itself.
+ */
+
+export const SCENE_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+export type ScenePrimitive =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; radius: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'curve'; curve: ConnectionCurve; stroke: string; strokeWidth: number }
+  | { kind: 'polygon'; points: Array<{ x: number; y: number }>; fill: string }
+  | { kind: 'text'; x: number; y: number; lines: string[]; fontSize: number; lineHeight: number; bold?: boolean; color: string } // y is the first baseline
+  | { kind: 'image'; x: number; y: number; width: number; height: number; href: string; radius: number };
+
+export interface CanvasScene {
+  bounds: Rect; // Area of the canvas the scene covers
+  background: string;
+  primitives: ScenePrimitive[];
+}
+
+export interface SceneOptions {
+  area?: Rect; // Only draw what falls inside this area; defaults to everything, with a margin
+  background?: string;
+}
+
+const NODE_PADDING = 12;
+const NODE_RADIUS = 8;
+const NODE_BORDER = '#d1d5db';
+const TEXT_COLOR = '#111827';
+const MUTED_TEXT_COLOR = '#6b7280';
+const COMMENT_HEIGHT = 60;
+const TAG_HEIGHT = 20;
+const TAG_GAP = 4;
+const CONNECTION_COLOR = '#000000'; // Connections are drawn black on the canvas, whatever color they store
+const SCENE_MARGIN = 40;
+const ELLIPSIS = '…';
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, fontSize: number, bold = false) => {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return text.length * fontSize * 0.55;
+  measureContext.font = `${bold ? 'bold ' : ''}${fontSize}px ${SCENE_FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+};
+
+// Break text into lines no wider than maxWidth, splitting words that are longer than a line
+const wrapText = (text: string, maxWidth: number, fontSize: number, bold = false): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, fontSize, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      // Hard-break words that don't fit on a line of their own
+      let rest = word;
+      while (measureText(rest, fontSize, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), fontSize, bold) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Keep as many lines as fit, marking cut-off text with an ellipsis
+const fitLines = (lines: string[], maxLines: number, maxWidth: number, fontSize: number, bold = false) => {
+  if (lines.length <= maxLines) return lines;
+  if (maxLines <= 0) return [];
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && measureText(last + ELLIPSIS, fontSize, bold) > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = last.trimEnd() + ELLIPSIS;
+  return kept;
+};
+
+const nodeImages = (node: Node) => node.content.images?.length ? node.content.images : node.content.value ? [node.content.value] : [];
+const nodeLinks = (node: Node) => node.content.links?.length
+  ? node.content.links
+  : node.content.value ? [{ url: node.content.value, title: node.content.title || node.content.value }] : [];
+
+// Area a node covers, including the tag row below it
+const nodeBounds = (node: Node): Rect => {
+  const rect = nodeRect(node);
+  return node.tags?.length && !node.comment ? { ...rect, maxY: rect.maxY + TAG_GAP + TAG_HEIGHT } : rect;
+};
+
+const drawNode = (node: Node, groupColor: string | undefined, out: ScenePrimitive[]) => {
+  const { x, y, width, height } = node;
+  out.push({ kind: 'rect', x, y, width, height, radius: NODE_RADIUS, fill: node.color || '#ffffff', stroke: groupColor || NODE_BORDER, strokeWidth: 2 });
+
+  const innerWidth = Math.max(1, width - NODE_PADDING * 2);
+  const contentBottom = y + height - (node.comment ? COMMENT_HEIGHT + (node.tags?.length ? TAG_HEIGHT + TAG_GAP : 0) : 0) - NODE_PADDING;
+  let cursor = y + NODE_PADDING;
+
+  // Add lines of text at the cursor, as many as still fit above contentBottom
+  const addText = (text: string, fontSize: number, options: { bold?: boolean; color?: string; maxLines?: number } = {}) => {
+    const lineHeight = Math.round(fontSize * 1.4);
+    const room = Math.floor((contentBottom - cursor) / lineHeight);
+    const lines = fitLines(
+      wrapText(text, innerWidth, fontSize, options.bold),
+      Math.min(room, options.maxLines ?? Infinity),
+      innerWidth,
+      fontSize,
+      options.bold,
+    );
+    if (lines.length === 0) return;
+    out.push({
+      kind: 'text',
+      x: x + NODE_PADDING,
+      y: cursor + fontSize,
+      lines,
+      fontSize,
+      lineHeight,
+      bold: options.bold,
+      color: options.color ?? TEXT_COLOR,
+    });
+    cursor += lines.length * lineHeight;
+  };
+
+  if (node.content.title && node.content.type !== 'link') {
+    addText(node.content.title, 16, { bold: true, maxLines: 2 });
+    cursor += 4;
+  }
+
+  switch (node.content.type) {
+    case 'text':
+      addText(htmlToText(node.content.value), 14);
+      break;
+
+    case 'image': {
+      // Up to four thumbnails in a grid filling the content area
+      const images = nodeImages(node).slice(0, 4);
+      const columns = images.length > 1 ? 2 : 1;
+      const rows = Math.ceil(images.length / columns);
+      const gap = 4;
+      const cellWidth = (innerWidth - gap * (columns - 1)) / columns;
+      const cellHeight = (contentBottom - cursor - gap * (rows - 1)) / rows;
+      if (cellHeight <= 0) break;
+      images.forEach((href, index) => {
+        out.push({
+          kind: 'image',
+          x: x + NODE_PADDING + (index % columns) * (cellWidth + gap),
+          y: cursor + Math.floor(index / columns) * (cellHeight + gap),
+          width: cellWidth,
+          height: cellHeight,
+          href,
+          radius: 4,
+        });
+      });
+      break;
+    }
+
+    case 'link':
+      nodeLinks(node).forEach(link => {
+        addText(link.title || link.url, 14, { bold: true, maxLines: 1 });
+        addText(link.url, 12, { color: MUTED_TEXT_COLOR, maxLines: 1 });
+        cursor += 6;
+      });
+      break;
+
+    case 'video': {
+      const boxHeight = contentBottom - cursor;
+      if (boxHeight <= 0) break;
+      out.push({ kind: 'rect', x: x + NODE_PADDING, y: cursor, width: innerWidth, height: boxHeight, radius: 4, fill: '#111827' });
+      // Play symbol
+      const size = Math.min(32, boxHeight / 2, innerWidth / 2);
+      const centerX = x + NODE_PADDING + innerWidth / 2;
+      const centerY = cursor + boxHeight / 2;
+      out.push({
+        kind: 'polygon',
+        points: [
+          { x: centerX - size * 0.4, y: centerY - size / 2 },
+          { x: centerX + size * 0.5, y: centerY },
+          { x: centerX - size * 0.4, y: centerY + size / 2 },
+        ],
+        fill: '#ffffff',
+      });
+      break;
+    }
+  }
+
+  if (node.comment) {
+    const top = y + height - COMMENT_HEIGHT;
+    out.push({ kind: 'rect', x: x + 1, y: top, width: width - 2, height: COMMENT_HEIGHT - 1, radius: NODE_RADIUS - 1, fill: '#d1d5db' });
+    out.push({ kind: 'text', x: x + 8, y: top + 16, lines: ['Comment:'], fontSize: 12, lineHeight: 15, bold: true, color: TEXT_COLOR });
+    const lines = fitLines(wrapText(node.comment, width - 16, 12), 2, width - 16, 12);
+    out.push({ kind: 'text', x: x + 8, y: top + 32, lines, fontSize: 12, lineHeight: 15, color: TEXT_COLOR });
+  }
+
+  // Tags sit in a row below the node, or above the comment when there is one, as on the canvas
+  let tagX = x;
+  const tagY = node.comment ? y + height - COMMENT_HEIGHT - TAG_GAP - TAG_HEIGHT : y + height + TAG_GAP;
+  (node.tags || []).forEach(tag => {
+    const tagWidth = measureText(tag, 11) + 16;
+    out.push({ kind: 'rect', x: tagX, y: tagY, width: tagWidth, height: TAG_HEIGHT, radius: TAG_HEIGHT / 2, fill: '#dbeafe' });
+    out.push({ kind: 'text', x: tagX + 8, y: tagY + 14, lines: [tag], fontSize: 11, lineHeight: 11, color: '#1e40af' });
+    tagX += tagWidth + TAG_GAP;
+  });
+};
+
+/**
+ * Build the scene for a set of nodes and connections. Connections are drawn
+ * first so nodes cover their ends, matching the canvas.
+ */
+export const buildCanvasScene = (
+  nodes: Node[],
+  connections: Connection[],
+  groups: NodeGroup[],
+  options: SceneOptions = {},
+): CanvasScene => {
+  const included = options.area
+    ? nodes.filter(node => rectsIntersect(nodeBounds(node), options.area!))
+    : nodes;
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const groupColors = new Map(groups.map(group => [group.id, group.color]));
+  const primitives: ScenePrimitive[] = [];
+
+  connections.forEach(connection => {
+    const fromNode = nodesById.get(connection.fromNodeId);
+    const toNode = nodesById.get(connection.toNodeId);
+    if (!fromNode || !toNode) return;
+    if (options.area && !rectsIntersect(unionRects(nodeRect(fromNode), nodeRect(toNode)), options.area)) return;
+    primitives.push({
+      kind: 'curve',
+      curve: getConnectionCurve(connection, fromNode, toNode),
+      stroke: CONNECTION_COLOR,
+      strokeWidth: 2,
+    });
+  });
+
+  included.forEach(node => drawNode(node, node.groupId ? groupColors.get(node.groupId) : undefined, primitives));
+
+  let bounds = options.area;
+  if (!bounds) {
+    const content = included.map(nodeBounds).reduce<Rect | null>((union, rect) => union ? unionRects(union, rect) : rect, null)
+      ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    bounds = {
+      minX: content.minX - SCENE_MARGIN,
+      minY: content.minY - SCENE_MARGIN,
+      maxX: content.maxX + SCENE_MARGIN,
+      maxY: content.maxY + SCENE_MARGIN,
+    };
+  }
+
+  return { bounds, background: options.background ?? '#ffffff', primitives };
+};
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Returns a function that turns image links into data URLs, fetching each
+ * address once. Images that can't be fetched (offline, or blocked by CORS)
+ * keep their link.
+ */
+export const createImageEmbedder = () => {
+  const cache = new Map<string, Promise<string>>();
+  return (href: string) => {
+    if (href.startsWith('data:')) return Promise.resolve(href);
+    if (!cache.has(href)) {
+      cache.set(href, fetch(href)
+        .then(response => response.ok ? response.blob() : Promise.reject(new Error(response.statusText)))
+        .then(readAsDataUrl)
+        .catch(() => href));
+    }
+    return cache.get(href)!;
+  };
+};
+
+/**
+ * Replace image links in a scene with data URLs, so the export doesn't depend
+ * on the images staying online and can be drawn into a raster image.
+ */
+export const embedSceneImages = async (scene: CanvasScene): Promise<CanvasScene> => {
+  const embed = createImageEmbedder();
+  const primitives = await Promise.all(scene.primitives.map(async primitive =>
+    primitive.kind === 'image' ? { ...primitive, href: await embed(primitive.href) } : primitive
+  ));
+  return { ...scene, primitives };
+};
@@ -0,0 +1,74 @@
+import type { CanvasFragment } from '../store/canvasMerge';
+import { CURRENT_SCHEMA_VERSION } from '../store/canvasSchema';
+import { escapeHtml, htmlToText, sanitizeHtml } from './html';
+
+/**
+ * Clipboard format for nodes. Copies carry the nodes, their connections and
+ * group memberships as canvas-file JSON under a custom MIME type, plus plain
+ * text and HTML versions for pasting into other applications.
+ */
+
+export const CANVAS_CLIPBOARD_MIME = 'application/x-ideascape+json';
+
+export type ClipboardContent =
+  | { kind: 'canvas'; data: string } // Canvas file JSON, ready for parseCanvasFile
+  | { kind: 'html'; html: string; text: string } // Sanitized HTML from another application, with its plain text alternative
+  | { kind: 'text'; text: string };
+
+// Links of a node, for the text and HTML fallbacks. Image and video data URLs are left out.
+const nodeLinks = (node: CanvasFragment['nodes'][number]) =>
+  node.content.links?.map(link => link.url) ??
+  (node.content.type === 'link' && node.content.value ? [node.content.value] : []);
+
+const nodeText = (fragment: CanvasFragment) =>
+  fragment.nodes.map(node => [
+    node.content.title,
+    node.content.type === 'text' ? htmlToText(node.content.value) : '',
+    ...nodeLinks(node),
+  ].filter(Boolean).join('\n')).filter(Boolean);
+
+const nodeHtml = (fragment: CanvasFragment) =>
+  fragment.nodes.map(node => {
+    const title = node.content.title ? `<h3>${escapeHtml(node.content.title)}</h3>` : '';
+    const body = node.content.type === 'text' ? node.content.value : '';
+    const links = nodeLinks(node)
+      .map(url => `<p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>`)
+      .join('');
+    return `<div>${title}${body}${links}</div>`;
+  }).join('');
+
+export const writeCanvasClipboard = (clipboardData: DataTransfer, fragment: CanvasFragment) => {
+  const payload = JSON.stringify({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    canvasName: 'Clipboard',
+    nodes: fragment.nodes,
+    connections: fragment.connections,
+    groups: fragment.groups,
+  });
+
+  clipboardData.setData(CANVAS_CLIPBOARD_MIME, payload);
+  clipboardData.setData('text/plain', nodeText(fragment).join('\n\n'));
+  clipboardData.setData('text/html', nodeHtml(fragment));
+};
+
+export const readCanvasClipboard = (clipboardData: DataTransfer): ClipboardContent | null => {
+  const canvasData = clipboardData.getData(CANVAS_CLIPBOARD_MIME);
+  if (canvasData) {
+    return { kind: 'canvas', data: canvasData };
+  }
+
+  const html = clipboardData.getData('text/html');
+  const text = clipboardData.getData('text/plain');
+  if (html) {
+    const clean = sanitizeHtml(html);
+    if (htmlToText(clean)) {
+      return { kind: 'html', html: clean, text };
+    }
+  }
+
+  if (text.trim()) {
+    return { kind: 'text', text };
+  }
+
+  return null;
+};
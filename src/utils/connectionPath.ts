@@ -0,0 +1,89 @@
+import type { Connection, Node, Point } from '../store/canvasStore';
+
+/**
+ * Geometry of a connection's curve, shared by the on-screen Connection
+ * component and the vector exporters so both draw exactly the same line.
+ */
+
+export interface ConnectionCurve {
+  from: Point;
+  to: Point;
+  control1: Point;
+  control2: Point;
+}
+
+// Side of a node a connection leaves from when it has no stored point (older connections)
+const smartConnectionPoint = (node: Node, fromNode: Node, toNode: Node): Point => {
+  const fromCenterX = fromNode.x + fromNode.width / 2;
+  const fromCenterY = fromNode.y + fromNode.height / 2;
+  const toCenterX = toNode.x + toNode.width / 2;
+  const toCenterY = toNode.y + toNode.height / 2;
+
+  // Calculate angle between centers; the target node uses the opposite direction
+  const angle = Math.atan2(toCenterY - fromCenterY, toCenterX - fromCenterX) + (node === fromNode ? 0 : Math.PI);
+  const degrees = (angle * 180) / Math.PI;
+
+  if (degrees >= -45 && degrees <= 45) {
+    return { x: node.x + node.width, y: node.y + node.height / 2 }; // right
+  } else if (degrees > 45 && degrees <= 135) {
+    return { x: node.x + node.width / 2, y: node.y + node.height }; // bottom
+  } else if (degrees > 135 || degrees <= -135) {
+    return { x: node.x, y: node.y + node.height / 2 }; // left
+  } else {
+    return { x: node.x + node.width / 2, y: node.y }; // top
+  }
+};
+
+const connectionPoint = (node: Node, point: string | undefined, fromNode: Node, toNode: Node): Point => {
+  switch (point) {
+    case 'top':
+      return { x: node.x + node.width / 2, y: node.y };
+    case 'right':
+      return { x: node.x + node.width, y: node.y + node.height / 2 };
+    case 'bottom':
+      return { x: node.x + node.width / 2, y: node.y + node.height };
+    case 'left':
+      return { x: node.x, y: node.y + node.height / 2 };
+    default:
+      return smartConnectionPoint(node, fromNode, toNode);
+  }
+};
+
+// Control point pulling the curve out of a node's side; `sign` is 1 at the start and -1 at the end
+const controlPoint = (point: Point, side: string, offset: number, dx: number, dy: number, sign: number): Point => {
+  switch (side) {
+    case 'top':
+      return { x: point.x, y: point.y - offset };
+    case 'bottom':
+      return { x: point.x, y: point.y + offset };
+    case 'left':
+      return { x: point.x - offset, y: point.y };
+    case 'right':
+      return { x: point.x + offset, y: point.y };
+    default:
+      // Auto-determine based on relative position
+      if (Math.abs(dx) > Math.abs(dy)) {
+        return { x: point.x + sign * (dx > 0 ? offset : -offset), y: point.y };
+      }
+      return { x: point.x, y: point.y + sign * (dy > 0 ? offset : -offset) };
+  }
+};
+
+export const getConnectionCurve = (connection: Connection, fromNode: Node, toNode: Node): ConnectionCurve => {
+  const from = connectionPoint(fromNode, connection.fromPoint, fromNode, toNode);
+  const to = connectionPoint(toNode, connection.toPoint, fromNode, toNode);
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const controlOffset = Math.min(Math.sqrt(dx * dx + dy * dy) * 0.4, 120);
+
+  return {
+    from,
+    to,
+    control1: controlPoint(from, connection.fromPoint || 'auto', controlOffset, dx, dy, 1),
+    control2: controlPoint(to, connection.toPoint || 'auto', controlOffset, dx, dy, -1),
+  };
+};
+
+export const curveToPathData = ({ from, to, control1, control2 }: ConnectionCurve) =>
+  `M ${from.x} ${from.y} C ${control1.x} ${control1.y}, ${control2.x} ${control2.y}, ${to.x} ${to.y}`;
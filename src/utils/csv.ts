@@ -0,0 +1,263 @@
+import type { Connection, Node, NodeGroup } from '../store/canvasStore';
+import { createEntityId, type CanvasFragment } from '../store/canvasMerge';
+import { clusteredGridLayout, gridLayout } from '../store/layout';
+import { GROUP_COLORS } from '../store/outline';
+import { TEXT_NODE_PARAGRAPH_STYLE, textToHtml } from './html';
+
+/**
+ * Spreadsheet import: CSV and TSV tables where every row becomes a node. The
+ * columns are mapped to node fields by the user, with a guess from the column
+ * names to start from. Rows can be connected by naming, in one column, the
+ * IDs of the rows they lead to.
+ */
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type CsvField = 'title' | 'body' | 'tags' | 'group' | 'color' | 'createdAt' | 'id' | 'linksTo';
+
+// The column index each field is read from
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export type CsvArrangement = { type: 'grid' } | { type: 'cluster'; column: number };
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  title: 'Title',
+  body: 'Body',
+  tags: 'Tags',
+  group: 'Group',
+  color: 'Color',
+  createdAt: 'Created',
+  id: 'Row ID',
+  linksTo: 'Connects to',
+};
+
+const DELIMITERS = ['\t', ',', ';'];
+// Separates several tags or row IDs in one cell
+const LIST_SEPARATOR = /[,;|]/;
+
+const NODE_WIDTH = 200;
+const MIN_NODE_HEIGHT = 120;
+const MAX_NODE_HEIGHT = 320;
+const CHARS_PER_LINE = 26;
+
+// Column names we recognize for each field, compared without case, spaces or punctuation
+const FIELD_NAMES: Record<CsvField, string[]> = {
+  title: ['title', 'name', 'idea', 'subject', 'heading', 'label', 'summary'],
+  body: ['body', 'description', 'notes', 'note', 'text', 'content', 'details', 'comment', 'comments'],
+  tags: ['tags', 'tag', 'keywords', 'labels'],
+  group: ['group', 'category', 'theme', 'topic', 'cluster', 'section'],
+  color: ['color', 'colour', 'fill'],
+  createdAt: ['createdat', 'created', 'createdon', 'date', 'timestamp'],
+  id: ['id', 'key', 'ref', 'rowid'],
+  linksTo: ['linksto', 'connectsto', 'links', 'connections', 'related', 'relatedto', 'dependson', 'parent'],
+};
+
+// The delimiter used most in the first line, outside quotes
+const detectDelimiter = (text: string) => {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  const [best, count] = Array.from(counts).reduce((a, b) => (b[1] > a[1] ? b : a));
+  return count > 0 ? best : ',';
+};
+
+/**
+ * Split delimited text into rows of cells, following RFC 4180: cells may be
+ * quoted, and quoted cells may hold delimiters, line breaks and doubled
+ * quotes. The delimiter is detected from the first line unless given.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Read delimited text as a table. Without a header row the columns are
+ * numbered instead. Throws when there are no rows.
+ */
+export const readCsvTable = (text: string, { hasHeader = true, delimiter }: { hasHeader?: boolean; delimiter?: string } = {}): CsvTable => {
+  const rows = parseDelimited(text, delimiter);
+  if (rows.length === 0 || (hasHeader && rows.length === 1)) {
+    throw new Error('No rows found in the file');
+  }
+  const width = Math.max(...rows.map(cells => cells.length));
+  const headers = hasHeader
+    ? Array.from({ length: width }, (_, index) => rows[0][index]?.trim() || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  return { headers, rows: hasHeader ? rows.slice(1) : rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess which column holds each field from the column names. Each column is
+ * used once; without a recognizable title the first free column is the title.
+ */
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const mapping: CsvMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(FIELD_NAMES) as CsvField[]).forEach(field => {
+    const index = normalized.findIndex((header, column) => !used.has(column) && FIELD_NAMES[field].includes(header));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  if (mapping.title === undefined && mapping.body === undefined) {
+    const free = headers.findIndex((_, column) => !used.has(column));
+    if (free >= 0) mapping.title = free;
+  }
+  return mapping;
+};
+
+const cellAt = (row: string[], column: number | undefined) =>
+  column === undefined ? '' : (row[column] ?? '').trim();
+
+const splitList = (value: string) =>
+  value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+
+// Hex colors with or without the #, expanded to six digits for the color pickers
+const parseColor = (value: string) => {
+  const hex = value.replace(/^#/, '').toLowerCase();
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.replace(/./g, digit => digit + digit)}`;
+  return /^[0-9a-f]{6}$/.test(hex) ? `#${hex}` : undefined;
+};
+
+const parseDate = (value: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// Roughly size a node to its text, so long notes aren't cut off
+const estimateHeight = (title: string, body: string, tagCount: number) => {
+  const lines = Math.ceil(body.length / CHARS_PER_LINE) + (title ? 2 : 0) + (tagCount ? 2 : 0);
+  return Math.min(MAX_NODE_HEIGHT, Math.max(MIN_NODE_HEIGHT, 40 + lines * 20));
+};
+
+/**
+ * Turn the rows of a table into new nodes, one per row, using the mapped
+ * columns. Groups with the same name are one group. A row connects to every
+ * row whose ID its "connects to" cell lists; without an ID column, rows are
+ * matched by title. The fragment's IDs are placeholders, like any import.
+ */
+export const csvToFragment = (table: CsvTable, mapping: CsvMapping, arrangement: CsvArrangement = { type: 'grid' }): CanvasFragment => {
+  const now = new Date();
+  const nodes: Node[] = [];
+  const groups: NodeGroup[] = [];
+  const nodeIdsByKey = new Map<string, string>();
+  const clusterOf = new Map<string, string>();
+  const pendingLinks: Array<{ fromNodeId: string; keys: string[] }> = [];
+  const keyColumn = mapping.id ?? mapping.title;
+
+  const groupNamed = (name: string) => {
+    let group = groups.find(g => g.name === name);
+    if (!group) {
+      group = { id: createEntityId('group'), name, color: GROUP_COLORS[groups.length % GROUP_COLORS.length], nodes: [] };
+      groups.push(group);
+    }
+    return group.id;
+  };
+
+  table.rows.forEach(row => {
+    const title = cellAt(row, mapping.title);
+    const body = cellAt(row, mapping.body);
+    const tags = splitList(cellAt(row, mapping.tags)).map(tag => tag.replace(/^#/, '')).filter(Boolean);
+    const groupName = cellAt(row, mapping.group);
+    const createdAt = parseDate(cellAt(row, mapping.createdAt)) ?? now;
+
+    const node: Node = {
+      id: createEntityId('node'),
+      x: 0,
+      y: 0,
+      width: NODE_WIDTH,
+      height: estimateHeight(title, body, tags.length),
+      content: {
+        type: 'text',
+        value: body ? textToHtml(body) : `<p style="${TEXT_NODE_PARAGRAPH_STYLE}"></p>`,
+        ...(title ? { title } : {}),
+      },
+      groupId: groupName ? groupNamed(groupName) : undefined,
+      color: parseColor(cellAt(row, mapping.color)) ?? '#ffffff',
+      selected: false,
+      createdAt,
+      updatedAt: createdAt,
+      ...(tags.length ? { tags: Array.from(new Set(tags)) } : {}),
+    };
+    nodes.push(node);
+
+    const key = cellAt(row, keyColumn);
+    if (key && !nodeIdsByKey.has(key)) nodeIdsByKey.set(key, node.id);
+    const links = splitList(cellAt(row, mapping.linksTo));
+    if (links.length) pendingLinks.push({ fromNodeId: node.id, keys: links });
+    if (arrangement.type === 'cluster') clusterOf.set(node.id, cellAt(row, arrangement.column));
+  });
+
+  const connections: Connection[] = [];
+  const seen = new Set<string>();
+  pendingLinks.forEach(({ fromNodeId, keys }) => {
+    keys.forEach(key => {
+      const toNodeId = nodeIdsByKey.get(key);
+      const pair = `${fromNodeId}>${toNodeId}`;
+      if (toNodeId && toNodeId !== fromNodeId && !seen.has(pair)) {
+        seen.add(pair);
+        connections.push({ id: createEntityId('conn'), fromNodeId, toNodeId, color: '#000000' });
+      }
+    });
+  });
+
+  groups.forEach(group => {
+    group.nodes = nodes.filter(node => node.groupId === group.id).map(node => node.id);
+  });
+
+  const positions = arrangement.type === 'cluster'
+    ? clusteredGridLayout(nodes, node => clusterOf.get(node.id))
+    : gridLayout(nodes);
+  return {
+    nodes: nodes.map(node => ({ ...node, ...(positions.get(node.id) ?? {}) })),
+    connections,
+    groups,
+  };
+};
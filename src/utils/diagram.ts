@@ -0,0 +1,399 @@
+import type { Connection, Node, NodeGroup } from '../store/canvasStore';
+import { createEntityId, type CanvasFragment } from '../store/canvasMerge';
+import { computeLayout } from '../store/layout';
+import { GROUP_COLORS, nodeLabel, nodeUrl } from '../store/outline';
+import { textToHtml } from './html';
+
+/**
+ * Text diagram formats for the connection graph: Mermaid flowcharts and
+ * Graphviz DOT. Nodes are written as labelled boxes, groups as subgraphs and
+ * colors as styles; positions are left to the diagram's own layout. Mermaid
+ * flowcharts can be read back, laid out with our auto-layouts.
+ */
+
+const MAX_LABEL_LINES = 4;
+const MAX_LINE_LENGTH = 60;
+
+// Diagram boxes only fit a few short lines
+const shortLabel = (node: Node) => {
+  const lines = nodeLabel(node).split('\n').map(line => line.trim()).filter(Boolean);
+  const shown = lines.slice(0, MAX_LABEL_LINES).map(line =>
+    line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH - 1)}…` : line);
+  if (lines.length > MAX_LABEL_LINES) shown[shown.length - 1] += ' …';
+  return shown.length > 0 ? shown : [node.content.type];
+};
+
+const isDefaultColor = (color: string, fallback: string) => !color || color.toLowerCase() === fallback;
+
+// Diagram IDs are short and stable within one export
+const diagramIds = ({ nodes, groups }: CanvasFragment) => ({
+  nodeIds: new Map(nodes.map((node, index) => [node.id, `n${index + 1}`])),
+  groupIds: new Map(groups.map((group, index) => [group.id, `g${index + 1}`])),
+});
+
+// Mermaid reads quotes and angle brackets in labels as markup, so they are written as entity codes
+const mermaidText = (text: string) =>
+  text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+export const canvasToMermaid = (_canvasName: string, content: CanvasFragment): string => {
+  const { nodeIds, groupIds } = diagramIds(content);
+  const nodeLine = (node: Node, indent: string) =>
+    `${indent}${nodeIds.get(node.id)}["${shortLabel(node).map(mermaidText).join('<br>')}"]`;
+
+  const grouped = content.groups
+    .map(group => ({ group, members: content.nodes.filter(node => node.groupId === group.id) }))
+    .filter(({ members }) => members.length > 0);
+  const ungrouped = content.nodes.filter(node => !grouped.some(({ group }) => group.id === node.groupId));
+
+  const lines = ['flowchart LR', ...ungrouped.map(node => nodeLine(node, '  '))];
+  grouped.forEach(({ group, members }) => {
+    lines.push(`  subgraph ${groupIds.get(group.id)}["${mermaidText(group.name)}"]`);
+    members.forEach(node => lines.push(nodeLine(node, '    ')));
+    lines.push('  end');
+  });
+
+  content.connections.forEach(conn => {
+    if (nodeIds.has(conn.fromNodeId) && nodeIds.has(conn.toNodeId)) {
+      lines.push(`  ${nodeIds.get(conn.fromNodeId)} --> ${nodeIds.get(conn.toNodeId)}`);
+    }
+  });
+
+  content.nodes.forEach(node => {
+    if (!isDefaultColor(node.color, '#ffffff')) lines.push(`  style ${nodeIds.get(node.id)} fill:${node.color}`);
+    const url = node.content.type === 'link' ? nodeUrl(node) : undefined;
+    if (url) lines.push(`  click ${nodeIds.get(node.id)} href "${url.replace(/"/g, '%22')}" _blank`);
+  });
+  grouped.forEach(({ group }) => lines.push(`  style ${groupIds.get(group.id)} stroke:${group.color}`));
+  content.connections
+    .filter(conn => nodeIds.has(conn.fromNodeId) && nodeIds.has(conn.toNodeId))
+    .forEach((conn, index) => {
+      if (!isDefaultColor(conn.color, '#000000')) lines.push(`  linkStyle ${index} stroke:${conn.color}`);
+    });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const dotString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export const canvasToDot = (canvasName: string, content: CanvasFragment): string => {
+  const { nodeIds, groupIds } = diagramIds(content);
+  const nodeLine = (node: Node, indent: string) => {
+    const url = node.content.type === 'link' ? nodeUrl(node) : undefined;
+    const attributes = [
+      `label=${dotString(shortLabel(node).join('\n'))}`,
+      ...(isDefaultColor(node.color, '#ffffff') ? [] : [`fillcolor=${dotString(node.color)}`]),
+      ...(url ? [`URL=${dotString(url)}`] : []),
+    ];
+    return `${indent}${nodeIds.get(node.id)} [${attributes.join(', ')}];`;
+  };
+
+  const lines = [
+    `digraph ${dotString(canvasName)} {`,
+    '  graph [rankdir=LR, fontname="Helvetica"];',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+  ];
+
+  content.groups.forEach(group => {
+    const members = content.nodes.filter(node => node.groupId === group.id);
+    if (members.length === 0) return;
+    lines.push(
+      `  subgraph cluster_${groupIds.get(group.id)} {`,
+      `    label=${dotString(group.name)};`,
+      `    color=${dotString(group.color)};`,
+      '    style=rounded;',
+      ...members.map(node => nodeLine(node, '    ')),
+      '  }',
+    );
+  });
+  content.nodes
+    .filter(node => !node.groupId || !content.groups.some(group => group.id === node.groupId))
+    .forEach(node => lines.push(nodeLine(node, '  ')));
+
+  content.connections.forEach(conn => {
+    if (!nodeIds.has(conn.fromNodeId) || !nodeIds.has(conn.toNodeId)) return;
+    const color = isDefaultColor(conn.color, '#000000') ? '' : ` [color=${dotString(conn.color)}]`;
+    lines.push(`  ${nodeIds.get(conn.fromNodeId)} -> ${nodeIds.get(conn.toNodeId)}${color};`);
+  });
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+interface MermaidNode {
+  id: string;
+  label?: string;
+  url?: string;
+  fill?: string;
+  classes: string[];
+  subgraph?: string;
+}
+
+interface MermaidSubgraph {
+  id: string;
+  title: string;
+  color?: string;
+}
+
+const HEADER = /^(?:flowchart|graph)(?:\s+(TB|TD|BT|RL|LR))?$/i;
+const NODE_ID = /^[\p{L}\p{N}_]+/u;
+const CLASS_SUFFIX = /^:::([\p{L}\p{N}_-]+)/u;
+const LABELED_EDGE = /^<?(?:--|==|-\.)\s+(?:.+?)\s+(?:-{2,}|={2,}|\.+-)[>ox]?/;
+const PLAIN_EDGE = /^<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?(?:\s*\|[^|]*\|)?/;
+
+// Openings of the node shapes with the closings that may end them, longest openings first
+const SHAPES: Array<[string, string[]]> = [
+  ['(((', [')))']],
+  ['([', ['])']],
+  ['[[', [']]']],
+  ['[(', [')]']],
+  ['((', ['))']],
+  ['{{', ['}}']],
+  ['[/', ['/]', '\\]']],
+  ['[\\', ['\\]', '/]']],
+  ['>', [']']],
+  ['[', [']']],
+  ['(', [')']],
+  ['{', ['}']],
+];
+
+const ENTITIES: Record<string, string> = { quot: '"', amp: '&', lt: '<', gt: '>', nbsp: ' ' };
+
+const decodeLabel = (label: string) => label
+  .replace(/^`([\s\S]*)`$/, '$1') // Markdown strings
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/#(\w+);/g, (entity, code: string) =>
+    /^\d+$/.test(code) ? String.fromCodePoint(Number(code)) : ENTITIES[code] ?? entity)
+  .replace(/\\n/g, '\n')
+  .trim();
+
+// Colors are kept as six-digit hex, the form the color pickers use
+const parseFill = (css: string, property: string) => {
+  const value = css.split(',').map(part => part.split(':')).find(([name]) => name.trim() === property)?.[1]?.trim();
+  if (!value || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) return undefined;
+  return value.length === 4 ? `#${[...value.slice(1)].map(c => c + c).join('')}` : value.toLowerCase();
+};
+
+// Split on semicolons that aren't inside a quoted label
+const splitStatements = (line: string) => {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...statements, current].map(statement => statement.trim()).filter(Boolean);
+};
+
+// A node reference with its optional shape and label, e.g. `A`, `A[Label]` or `A("Label"):::class`
+const readNodeRef = (text: string) => {
+  const id = text.match(NODE_ID)?.[0];
+  if (!id) return null;
+  let rest = text.slice(id.length);
+  let label: string | undefined;
+
+  const shape = SHAPES.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, closes] = shape;
+    const body = rest.slice(open.length);
+    const quoteEnd = body.startsWith('"') ? body.indexOf('"', 1) : -1;
+    const searchFrom = quoteEnd >= 0 ? quoteEnd + 1 : 0;
+    const end = closes
+      .map(close => ({ close, index: body.indexOf(close, searchFrom) }))
+      .filter(({ index }) => index >= 0)
+      .sort((a, b) => a.index - b.index)[0];
+    if (end) {
+      label = quoteEnd >= 0 ? body.slice(1, quoteEnd) : body.slice(0, end.index);
+      rest = body.slice(end.index + end.close.length);
+    }
+  } else if (rest.startsWith('@{')) {
+    // Shape data, as in `A@{ shape: rect, label: "Label" }`
+    const end = rest.indexOf('}');
+    label = rest.slice(0, end).match(/label:\s*"([^"]*)"/)?.[1];
+    rest = end >= 0 ? rest.slice(end + 1) : '';
+  }
+
+  const className = rest.match(CLASS_SUFFIX);
+  if (className) rest = rest.slice(className[0].length);
+  return { id, label, className: className?.[1], rest: rest.trimStart() };
+};
+
+/**
+ * Read a Mermaid flowchart as new nodes and connections. Subgraphs become
+ * groups, `style`, `classDef` and `class` fills become node colors and `click`
+ * links make link nodes. Top-down charts are laid out as an org chart and
+ * left-to-right ones as a mind map. Throws when the text isn't a flowchart.
+ */
+export const mermaidToFragment = (text: string): CanvasFragment => {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('%%') && !line.startsWith('```'));
+
+  // Skip YAML front matter
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) lines.splice(0, end + 1);
+  }
+
+  const statements = lines.flatMap(splitStatements);
+  const header = statements.shift()?.match(HEADER);
+  if (!header) {
+    throw new Error('Not a Mermaid flowchart');
+  }
+  const direction = (header[1] ?? 'TB').toUpperCase();
+
+  const nodes = new Map<string, MermaidNode>();
+  const edges: Array<[string, string]> = [];
+  const subgraphs = new Map<string, MermaidSubgraph>();
+  const classFills = new Map<string, string>();
+  const stack: string[] = [];
+
+  const touchNode = (id: string, label?: string, className?: string) => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, classes: [] };
+      nodes.set(id, node);
+    }
+    if (label !== undefined) node.label = decodeLabel(label);
+    if (className) node.classes.push(className);
+    // A node joins the subgraph it is first mentioned in
+    if (!node.subgraph && stack.length > 0) node.subgraph = stack[stack.length - 1];
+    return node;
+  };
+
+  statements.forEach(statement => {
+    const [keyword, ...words] = statement.split(/\s+/);
+    const argument = statement.slice(keyword.length).trim();
+
+    switch (keyword) {
+      case 'subgraph': {
+        const match = argument.match(/^([\p{L}\p{N}_]+)\s*\[\s*"?(.*?)"?\s*\]$/u);
+        const id = match?.[1] ?? argument.replace(/^"|"$/g, '');
+        const title = decodeLabel(match?.[2] ?? argument.replace(/^"|"$/g, '')) || id;
+        if (!subgraphs.has(id)) subgraphs.set(id, { id, title });
+        stack.push(id);
+        return;
+      }
+      case 'end':
+        stack.pop();
+        return;
+      case 'direction':
+      case 'linkStyle':
+        return;
+      case 'style': {
+        const [id, css = ''] = words;
+        const subgraph = subgraphs.get(id);
+        if (subgraph) subgraph.color = parseFill(css, 'stroke') ?? parseFill(css, 'fill');
+        else touchNode(id).fill = parseFill(css, 'fill');
+        return;
+      }
+      case 'classDef': {
+        const [names = '', css = ''] = words;
+        const fill = parseFill(css, 'fill');
+        if (fill) names.split(',').forEach(name => classFills.set(name, fill));
+        return;
+      }
+      case 'class': {
+        const [ids = '', className] = words;
+        if (className) ids.split(',').forEach(id => touchNode(id.trim(), undefined, className));
+        return;
+      }
+      case 'click': {
+        const url = argument.match(/"((?:https?:|mailto:)[^"]+)"/i)?.[1];
+        if (url && words[0]) touchNode(words[0]).url = url;
+        return;
+      }
+    }
+
+    // A chain of node references joined by edges, where `&` lists several nodes
+    let rest = statement;
+    let previous: string[] = [];
+    while (rest) {
+      const current: string[] = [];
+      for (;;) {
+        const ref = readNodeRef(rest);
+        if (!ref) return;
+        touchNode(ref.id, ref.label, ref.className);
+        current.push(ref.id);
+        rest = ref.rest;
+        const ampersand = rest.match(/^&\s*/);
+        if (!ampersand) break;
+        rest = rest.slice(ampersand[0].length);
+      }
+      previous.forEach(from => current.forEach(to => edges.push([from, to])));
+      previous = current;
+
+      const edge = rest.match(LABELED_EDGE) ?? rest.match(PLAIN_EDGE);
+      if (!edge) return;
+      rest = rest.slice(edge[0].length).trimStart();
+    }
+  });
+
+  // Edges may point at a subgraph, which is a group here rather than a node
+  subgraphs.forEach(subgraph => {
+    if (nodes.get(subgraph.id)?.label === undefined) nodes.delete(subgraph.id);
+  });
+
+  const now = new Date();
+  const groups: NodeGroup[] = [...subgraphs.values()].map((subgraph, index) => ({
+    id: createEntityId('group'),
+    name: subgraph.title,
+    color: subgraph.color ?? GROUP_COLORS[index % GROUP_COLORS.length],
+    nodes: [],
+  }));
+  const groupIds = new Map([...subgraphs.keys()].map((id, index) => [id, groups[index].id]));
+
+  const nodeIds = new Map<string, string>();
+  const canvasNodes: Node[] = [...nodes.values()].map(raw => {
+    const label = raw.label ?? raw.id;
+    const node: Node = {
+      id: createEntityId('node'),
+      x: 0,
+      y: 0,
+      width: 200,
+      height: Math.max(100, 60 + label.split('\n').length * 20),
+      content: raw.url
+        ? { type: 'link', value: raw.url, title: label, links: [{ url: raw.url, title: label }] }
+        : { type: 'text', value: textToHtml(label) },
+      groupId: raw.subgraph ? groupIds.get(raw.subgraph) : undefined,
+      color: raw.fill ?? raw.classes.map(name => classFills.get(name)).find(Boolean) ?? '#ffffff',
+      selected: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    nodeIds.set(raw.id, node.id);
+    return node;
+  });
+
+  const connections: Connection[] = [];
+  edges.forEach(([from, to]) => {
+    const fromNodeId = nodeIds.get(from);
+    const toNodeId = nodeIds.get(to);
+    if (!fromNodeId || !toNodeId || fromNodeId === toNodeId) return;
+    if (connections.some(conn => conn.fromNodeId === fromNodeId && conn.toNodeId === toNodeId)) return;
+    connections.push({ id: createEntityId('conn'), fromNodeId, toNodeId, color: '#000000' });
+  });
+
+  groups.forEach(group => {
+    group.nodes = canvasNodes.filter(node => node.groupId === group.id).map(node => node.id);
+  });
+
+  // The chart starts at its first node nothing points to
+  const start = canvasNodes.find(node => !connections.some(conn => conn.toNodeId === node.id)) ?? canvasNodes[0];
+  const layout = direction === 'LR' || direction === 'RL' ? 'mindmap' : 'tree';
+  const positions = computeLayout(layout, canvasNodes, connections, start?.id);
+
+  return {
+    nodes: canvasNodes.map(node => ({ ...node, ...(positions.get(node.id) ?? {}) })),
+    connections,
+    groups: groups.filter(group => group.nodes.length > 0),
+  };
+};
@@ -0,0 +1,149 @@
+import type { CanvasFragment } from '../store/canvasMerge';
+import {
+  buildCanvasOutline,
+  nodeLabel,
+  nodeUrl,
+  type CanvasTree,
+  type OutlineCrossLink,
+  type OutlineDocument,
+  type OutlineItem,
+} from '../store/outline';
+import { escapeHtml, escapeXmlAttribute, htmlToText, sanitizeHtml, textToHtml } from './html';
+
+/**
+ * FreeMind (.mm) mind maps, also read by Freeplane and most other mind
+ * mapping tools. A map has a single root node, so a canvas with several trees
+ * is written under a root named after the canvas. Notes are comments, icons
+ * and attributes are tags, a cloud marks the start of a group and arrow links
+ * are connections outside the hierarchy.
+ */
+
+const TAG_ATTRIBUTE = 'tag';
+
+const noteXml = (comment: string, indent: string) => [
+  `${indent}<richcontent TYPE="NOTE"><html><head></head><body>`,
+  ...comment.split('\n').map(line => `${indent}  <p>${escapeHtml(line)}</p>`),
+  `${indent}</body></html></richcontent>`,
+];
+
+export const canvasToFreeMind = (canvasName: string, content: CanvasFragment): string => {
+  const sections = buildCanvasOutline(content);
+  const groupColors = new Map(content.groups.map(group => [group.id, group.color]));
+  const mapIds = new Map(content.nodes.map((node, index) => [node.id, `ID_${index + 1}`]));
+
+  // Connections the hierarchy doesn't cover are written as arrow links
+  const treeEdges = new Set<string>();
+  const collectEdges = (tree: CanvasTree) => tree.children.forEach(child => {
+    treeEdges.add(`${tree.node.id}>${child.node.id}`);
+    collectEdges(child);
+  });
+  sections.forEach(section => section.trees.forEach(collectEdges));
+  const arrowLinks = new Map<string, string[]>();
+  content.connections.forEach(conn => {
+    if (treeEdges.has(`${conn.fromNodeId}>${conn.toNodeId}`) || !mapIds.has(conn.fromNodeId) || !mapIds.has(conn.toNodeId)) return;
+    arrowLinks.set(conn.fromNodeId, [...(arrowLinks.get(conn.fromNodeId) ?? []), mapIds.get(conn.toNodeId)!]);
+  });
+
+  const nodeXml = ({ node, children }: CanvasTree, indent: string, parentGroupId?: string): string[] => {
+    const url = nodeUrl(node);
+    const attributes = [
+      `ID="${mapIds.get(node.id)}"`,
+      `TEXT="${escapeXmlAttribute(nodeLabel(node))}"`,
+      ...(url ? [`LINK="${escapeXmlAttribute(url)}"`] : []),
+      ...(node.color && node.color !== '#ffffff' ? [`BACKGROUND_COLOR="${escapeXmlAttribute(node.color)}"`] : []),
+      `CREATED="${new Date(node.createdAt).getTime()}"`,
+      `MODIFIED="${new Date(node.updatedAt).getTime()}"`,
+    ].join(' ');
+    const inner = `${indent}  `;
+    const startsGroup = node.groupId && node.groupId !== parentGroupId && groupColors.has(node.groupId);
+
+    return [
+      `${indent}<node ${attributes}>`,
+      ...(startsGroup ? [`${inner}<cloud COLOR="${escapeXmlAttribute(groupColors.get(node.groupId!)!)}"/>`] : []),
+      ...(arrowLinks.get(node.id) ?? []).map(id => `${inner}<arrowlink DESTINATION="${id}" ENDARROW="Default" STARTARROW="None"/>`),
+      ...(node.tags ?? []).map(tag => `${inner}<attribute NAME="${TAG_ATTRIBUTE}" VALUE="${escapeXmlAttribute(tag)}"/>`),
+      ...(node.comment ? noteXml(node.comment, inner) : []),
+      ...children.flatMap(child => nodeXml(child, inner, node.groupId)),
+      `${indent}</node>`,
+    ];
+  };
+
+  const trees = sections.flatMap(section => section.trees);
+  const body = trees.length === 1
+    ? nodeXml(trees[0], '')
+    : [`<node TEXT="${escapeXmlAttribute(canvasName)}">`, ...trees.flatMap(tree => nodeXml(tree, '  ')), '</node>'];
+
+  return ['<map version="1.0.1">', ...body, '</map>', ''].join('\n');
+};
+
+const childElements = (element: Element, tagName: string) =>
+  Array.from(element.children).filter(child => child.tagName === tagName);
+
+// Rich content is XHTML; sanitizing turns it back into the HTML text nodes hold
+const richContentHtml = (element: Element, type: string) => {
+  const content = childElements(element, 'richcontent').find(child => child.getAttribute('TYPE') === type);
+  return content ? sanitizeHtml(new XMLSerializer().serializeToString(content.querySelector('body') ?? content)) : undefined;
+};
+
+const mapNodeToItem = (element: Element, crossLinks: OutlineCrossLink[]): OutlineItem => {
+  const id = element.getAttribute('ID') ?? undefined;
+  const text = element.getAttribute('TEXT') ?? '';
+  const html = richContentHtml(element, 'NODE') ?? (text.trim() ? textToHtml(text) : undefined);
+  const link = element.getAttribute('LINK');
+
+  const tags = [
+    ...childElements(element, 'icon').map(icon => icon.getAttribute('BUILTIN')).filter((icon): icon is string => !!icon),
+    ...childElements(element, 'attribute').flatMap(attribute => {
+      const name = attribute.getAttribute('NAME') ?? '';
+      const value = attribute.getAttribute('VALUE') ?? '';
+      if (['tag', 'tags'].includes(name.toLowerCase())) return value.split(',').map(tag => tag.trim()).filter(Boolean);
+      return [value ? `${name}: ${value}` : name].filter(Boolean);
+    }),
+  ];
+
+  const notes = ['NOTE', 'DETAILS']
+    .map(type => richContentHtml(element, type))
+    .filter((note): note is string => !!note)
+    .map(htmlToText)
+    .filter(Boolean);
+
+  if (id) {
+    childElements(element, 'arrowlink').forEach(arrow => {
+      const destination = arrow.getAttribute('DESTINATION');
+      if (destination) crossLinks.push({ from: id, to: destination });
+    });
+    // Links to another node of the map are cross-links too
+    if (link?.startsWith('#')) crossLinks.push({ from: id, to: link.slice(1) });
+  }
+
+  const cloud = childElements(element, 'cloud')[0];
+  const plainText = text || (html ? htmlToText(html) : '');
+
+  return {
+    ...(link && /^(https?:|mailto:)/i.test(link)
+      ? { title: plainText || undefined, links: [{ url: link, title: plainText || link }] }
+      : { html }),
+    tags: tags.length > 0 ? tags : undefined,
+    comment: notes.length > 0 ? notes.join('\n\n') : undefined,
+    color: element.getAttribute('BACKGROUND_COLOR') ?? undefined,
+    group: cloud ? { name: plainText.split('\n')[0] || 'Group', color: cloud.getAttribute('COLOR') ?? undefined } : undefined,
+    key: id,
+    children: childElements(element, 'node').map(child => mapNodeToItem(child, crossLinks)),
+  };
+};
+
+export const parseFreeMind = (xml: string): OutlineDocument => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const root = doc.documentElement?.tagName === 'map' ? childElements(doc.documentElement, 'node')[0] : undefined;
+  if (doc.querySelector('parsererror') || !root) {
+    throw new Error('Not a valid FreeMind map');
+  }
+
+  const crossLinks: OutlineCrossLink[] = [];
+  const item = mapNodeToItem(root, crossLinks);
+  return {
+    title: root.getAttribute('TEXT')?.split('\n')[0] || undefined,
+    sections: [{ items: [item] }],
+    crossLinks,
+  };
+};
@@ -0,0 +1,116 @@
+/**
+ * HTML helpers for node content. Text nodes store the HTML produced by
+ * RichTextEditor and render it with dangerouslySetInnerHTML, so anything that
+ * comes from outside the app must go through sanitizeHtml first.
+ */
+
+// Paragraph markup matching what addNode puts into new text nodes
+export const TEXT_NODE_PARAGRAPH_STYLE = 'font-size: 14px;';
+
+const ALLOWED_TAGS = new Set([
+  'p', 'div', 'br', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del',
+  'ul', 'ol', 'li', 'a', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'code', 'pre', 'hr',
+]);
+
+// Elements whose content is dropped along with the element
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'head', 'title', 'meta', 'link']);
+
+// Inline styles RichTextEditor itself produces; everything else is stripped
+const ALLOWED_STYLES = new Set(['font-size', 'font-weight', 'font-style', 'text-decoration', 'background-color', 'color']);
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Attribute value for XML files; line breaks are encoded, as parsers turn raw ones into spaces
+export const escapeXmlAttribute = (value: string) => escapeHtml(value).replace(/\r?\n/g, '&#10;');
+
+export const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url.trim());
+
+const filterStyle = (style: string) =>
+  style
+    .split(';')
+    .map(rule => rule.trim())
+    .filter(rule => {
+      const [property, value] = rule.split(':').map(part => part?.trim().toLowerCase());
+      return property && value && ALLOWED_STYLES.has(property) && !value.includes('url(') && !value.includes('expression');
+    })
+    .join('; ');
+
+const sanitizeNode = (node: Node, doc: Document): Node | DocumentFragment | null => {
+  if (node.nodeType === 3) {
+    return doc.createTextNode(node.textContent || '');
+  }
+  if (node.nodeType !== 1) return null;
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return null;
+
+  const children = Array.from(element.childNodes)
+    .map(child => sanitizeNode(child, doc))
+    .filter((child): child is Node => child !== null);
+
+  // Unknown wrappers (e.g. <font>, <section>) are unwrapped, keeping their content
+  if (!ALLOWED_TAGS.has(tag)) {
+    const fragment = doc.createDocumentFragment();
+    children.forEach(child => fragment.appendChild(child));
+    return fragment;
+  }
+
+  const clean = doc.createElement(tag);
+  if (tag === 'a') {
+    const href = element.getAttribute('href');
+    if (href && isSafeUrl(href)) {
+      clean.setAttribute('href', href);
+      clean.setAttribute('target', '_blank');
+      clean.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+  const style = element.getAttribute('style');
+  if (style) {
+    const filtered = filterStyle(style);
+    if (filtered) clean.setAttribute('style', filtered);
+  }
+  children.forEach(child => clean.appendChild(child));
+  return clean;
+};
+
+/**
+ * Reduce foreign HTML to the formatting RichTextEditor can display: no scripts,
+ * event handlers, external resources or unsafe links.
+ */
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const container = doc.createElement('div');
+  Array.from(doc.body.childNodes).forEach(child => {
+    const clean = sanitizeNode(child, doc);
+    if (clean) container.appendChild(clean);
+  });
+  return container.innerHTML.trim();
+};
+
+// Plain text to text node HTML, one paragraph per line
+export const textToHtml = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split('\n')
+    .map(line => line.trim()
+      ? `<p style="${TEXT_NODE_PARAGRAPH_STYLE}">${escapeHtml(line)}</p>`
+      : '<p><br></p>')
+    .join('');
+
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Keep block boundaries as line breaks
+  doc.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  doc.querySelectorAll('p, div, li, h1, h2, h3, h4, h5, h6, blockquote, pre').forEach(block => {
+    block.append('\n');
+  });
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
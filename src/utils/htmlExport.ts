@@ -0,0 +1,384 @@
+import type { Node } from '../store/canvasStore';
+import type { CanvasFragment } from '../store/canvasMerge';
+import { fragmentToCanvasFile } from '../store/outline';
+import { createImageEmbedder } from './canvasScene';
+import { curveToPathData, getConnectionCurve } from './connectionPath';
+import { escapeHtml, escapeXmlAttribute, isSafeUrl, sanitizeHtml } from './html';
+import { nodeRect, unionRects, type Rect } from './viewport';
+
+/**
+ * "Publish as HTML": a single file holding the canvas and a small read-only
+ * viewer with pan, zoom and search, for people who don't use IdeaScape.
+ * Nodes are written out as HTML, so text stays selectable and links open,
+ * and images are embedded so the page works offline. The canvas data is
+ * embedded as well, so the page can be loaded back as a canvas.
+ */
+
+export const HTML_DATA_ELEMENT_ID = 'ideascape-data';
+
+const MARGIN = 40;
+const VIDEO_FILE = /\.(mp4|webm|ogv|mov)(\?|#|$)/i;
+// Colors go into inline styles, so anything but a plain color value is left out
+const CSS_COLOR = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%/+-]*\))$/i;
+
+const cssColor = (color: string | undefined, fallback: string) =>
+  color && CSS_COLOR.test(color.trim()) ? color.trim() : fallback;
+
+const linkHtml = (url: string, text: string) => isSafeUrl(url)
+  ? `<a href="${escapeXmlAttribute(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(text)}</a>`
+  : escapeHtml(text);
+
+const contentHtml = (node: Node, embeddedImages: Map<string, string>) => {
+  const { content } = node;
+  switch (content.type) {
+    case 'text':
+      return `<div class="text">${sanitizeHtml(content.value)}</div>`;
+    case 'image': {
+      const images = (content.images?.length ? content.images : [content.value]).filter(Boolean);
+      return `<div class="images${images.length > 1 ? ' grid' : ''}">${images
+        .map(src => `<img src="${escapeXmlAttribute(embeddedImages.get(src) ?? src)}" alt="" loading="lazy">`)
+        .join('')}</div>`;
+    }
+    case 'link': {
+      const links = content.links?.length ? content.links : [{ url: content.value, title: content.title || content.value }];
+      return `<ul class="links">${links
+        .map(link => `<li>${linkHtml(link.url, link.title || link.url)}<span class="url">${escapeHtml(link.url)}</span></li>`)
+        .join('')}</ul>`;
+    }
+    case 'video': {
+      const videos = (content.videos?.length ? content.videos : [content.value]).filter(Boolean);
+      return `<div class="videos">${videos
+        .map(url => (url.startsWith('data:video/') || VIDEO_FILE.test(url)
+          ? `<video src="${escapeXmlAttribute(url)}" controls preload="metadata"></video>`
+          : `<div class="video-link">${linkHtml(url, `▶ ${url}`)}</div>`))
+        .join('')}</div>`;
+    }
+  }
+};
+
+const nodeHtml = (node: Node, groupColor: string | undefined, groupName: string | undefined, embeddedImages: Map<string, string>) => {
+  const style = [
+    `left:${node.x}px`,
+    `top:${node.y}px`,
+    `width:${node.width}px`,
+    `height:${node.height}px`,
+    `background:${cssColor(node.color, '#ffffff')}`,
+    ...(groupColor ? [`border-color:${cssColor(groupColor, '#d1d5db')}`] : []),
+  ].join(';');
+  const title = node.content.title && node.content.type !== 'link' ? `<h2>${escapeHtml(node.content.title)}</h2>` : '';
+  const tags = node.tags?.length
+    ? `<div class="tags">${node.tags.map(tag => `<span>${escapeHtml(tag)}</span>`).join('')}</div>`
+    : '';
+
+  return [
+    `<article class="node" style="${escapeXmlAttribute(style)}"`,
+    node.comment ? ` data-comment="${escapeXmlAttribute(node.comment)}"` : '',
+    groupName ? ` data-group="${escapeXmlAttribute(groupName)}"` : '',
+    '>',
+    node.comment ? '<span class="comment-marker" aria-hidden="true">💬</span>' : '',
+    `<div class="body">${title}${contentHtml(node, embeddedImages)}</div>`,
+    tags,
+    '</article>',
+  ].join('');
+};
+
+/**
+ * The viewer, run in the published page. It is embedded through its source
+ * text, so it must not refer to anything outside itself.
+ */
+function viewer() {
+  const MIN_ZOOM = 0.1;
+  const MAX_ZOOM = 3;
+  const viewport = document.getElementById('viewport') as HTMLElement;
+  const world = document.getElementById('world') as HTMLElement;
+  const search = document.getElementById('search') as HTMLInputElement;
+  const matchCount = document.getElementById('match-count') as HTMLElement;
+  const zoomLabel = document.getElementById('zoom-level') as HTMLElement;
+  const tooltip = document.getElementById('tooltip') as HTMLElement;
+  const bounds = JSON.parse(world.dataset.bounds || '{}');
+  const nodes = Array.from(world.querySelectorAll<HTMLElement>('.node'));
+  const view = { x: 0, y: 0, scale: 1 };
+
+  const apply = () => {
+    world.style.transform = `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+    zoomLabel.textContent = `${Math.round(view.scale * 100)}%`;
+  };
+
+  const fit = (rect: { minX: number; minY: number; maxX: number; maxY: number }, maxScale: number) => {
+    const width = viewport.clientWidth;
+    const height = viewport.clientHeight;
+    view.scale = Math.min(maxScale, Math.max(MIN_ZOOM, Math.min(
+      width / Math.max(1, rect.maxX - rect.minX),
+      height / Math.max(1, rect.maxY - rect.minY),
+    )));
+    view.x = width / 2 - ((rect.minX + rect.maxX) / 2) * view.scale;
+    view.y = height / 2 - ((rect.minY + rect.maxY) / 2) * view.scale;
+    apply();
+  };
+
+  const zoomAt = (factor: number, screenX: number, screenY: number) => {
+    const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.scale * factor));
+    view.x = screenX - ((screenX - view.x) / view.scale) * scale;
+    view.y = screenY - ((screenY - view.y) / view.scale) * scale;
+    view.scale = scale;
+    apply();
+  };
+
+  // Same gestures as the canvas: the wheel pans, and zooms with Ctrl or Cmd held
+  viewport.addEventListener('wheel', event => {
+    event.preventDefault();
+    if (event.ctrlKey || event.metaKey) {
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(event.deltaY > 0 ? 0.9 : 1.1, event.clientX - rect.left, event.clientY - rect.top);
+    } else {
+      view.x -= event.deltaX;
+      view.y -= event.deltaY;
+      apply();
+    }
+  }, { passive: false });
+
+  // Dragging anywhere pans; pinching with two fingers zooms
+  const pointers = new Map<number, { x: number; y: number }>();
+  let pinchDistance = 0;
+  viewport.addEventListener('pointerdown', event => {
+    if ((event.target as HTMLElement).closest('a, video, input, button')) return;
+    viewport.setPointerCapture(event.pointerId);
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    viewport.classList.add('panning');
+  });
+  viewport.addEventListener('pointermove', event => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    const current = { x: event.clientX, y: event.clientY };
+    pointers.set(event.pointerId, current);
+    if (pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      const rect = viewport.getBoundingClientRect();
+      if (pinchDistance > 0) zoomAt(distance / pinchDistance, (a.x + b.x) / 2 - rect.left, (a.y + b.y) / 2 - rect.top);
+      pinchDistance = distance;
+    } else {
+      view.x += current.x - previous.x;
+      view.y += current.y - previous.y;
+      apply();
+    }
+  });
+  const endPointer = (event: PointerEvent) => {
+    pointers.delete(event.pointerId);
+    pinchDistance = 0;
+    if (pointers.size === 0) viewport.classList.remove('panning');
+  };
+  viewport.addEventListener('pointerup', endPointer);
+  viewport.addEventListener('pointercancel', endPointer);
+
+  const zoomFromCenter = (factor: number) => zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  document.getElementById('zoom-in')!.addEventListener('click', () => zoomFromCenter(1.2));
+  document.getElementById('zoom-out')!.addEventListener('click', () => zoomFromCenter(1 / 1.2));
+  document.getElementById('zoom-fit')!.addEventListener('click', () => fit(bounds, 1));
+
+  // Search matches titles, text, links, tags, comments and group names
+  const searchText = new Map(nodes.map(node => [node, [
+    node.textContent,
+    node.dataset.comment,
+    node.dataset.group,
+  ].join(' ').toLowerCase()]));
+  let matches: HTMLElement[] = [];
+  let current = -1;
+
+  const focusMatch = (index: number) => {
+    matches.forEach(node => node.classList.remove('current'));
+    current = index;
+    const node = matches[index];
+    if (!node) return;
+    node.classList.add('current');
+    const left = node.offsetLeft;
+    const top = node.offsetTop;
+    fit({ minX: left - 200, minY: top - 200, maxX: left + node.offsetWidth + 200, maxY: top + node.offsetHeight + 200 }, 1.5);
+    matchCount.textContent = `${index + 1} of ${matches.length}`;
+  };
+
+  search.addEventListener('input', () => {
+    const query = search.value.trim().toLowerCase();
+    matches = query ? nodes.filter(node => searchText.get(node)!.includes(query)) : [];
+    nodes.forEach(node => {
+      node.classList.toggle('match', matches.includes(node));
+      node.classList.toggle('dimmed', !!query && !matches.includes(node));
+      node.classList.remove('current');
+    });
+    world.classList.toggle('searching', !!query);
+    current = -1;
+    matchCount.textContent = query ? `${matches.length} found` : '';
+  });
+  search.addEventListener('keydown', event => {
+    if (event.key === 'Enter' && matches.length > 0) {
+      event.preventDefault();
+      focusMatch((current + (event.shiftKey ? matches.length - 1 : 1)) % matches.length);
+    } else if (event.key === 'Escape') {
+      search.value = '';
+      search.dispatchEvent(new Event('input'));
+      search.blur();
+    }
+  });
+
+  document.addEventListener('keydown', event => {
+    if (event.target === search) return;
+    if (event.key === '/' || ((event.ctrlKey || event.metaKey) && event.key === 'f')) {
+      event.preventDefault();
+      search.focus();
+    } else if (event.key === '+' || event.key === '=') {
+      zoomFromCenter(1.2);
+    } else if (event.key === '-') {
+      zoomFromCenter(1 / 1.2);
+    } else if (event.key === '0') {
+      fit(bounds, 1);
+    }
+  });
+
+  // Comments show in a tooltip while hovering their node
+  world.addEventListener('pointerover', event => {
+    const node = (event.target as HTMLElement).closest<HTMLElement>('.node[data-comment]');
+    if (!node || pointers.size > 0) return;
+    tooltip.textContent = node.dataset.comment || '';
+    tooltip.hidden = false;
+  });
+  world.addEventListener('pointermove', event => {
+    if (tooltip.hidden) return;
+    tooltip.style.left = `${Math.min(event.clientX + 14, window.innerWidth - tooltip.offsetWidth - 8)}px`;
+    tooltip.style.top = `${Math.min(event.clientY + 14, window.innerHeight - tooltip.offsetHeight - 8)}px`;
+  });
+  world.addEventListener('pointerout', event => {
+    const from = (event.target as HTMLElement).closest('.node[data-comment]');
+    if (from && !from.contains(event.relatedTarget as globalThis.Node | null)) tooltip.hidden = true;
+  });
+
+  window.addEventListener('resize', () => fit(bounds, 1));
+  fit(bounds, 1);
+}
+
+const STYLES = `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; }
+body { display: flex; flex-direction: column; background: #f9fafb; }
+header { display: flex; align-items: center; gap: 12px; padding: 8px 16px; background: #ffffff; border-bottom: 1px solid #e5e7eb; }
+header h1 { flex: 1; margin: 0; font-size: 16px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+header input { width: 240px; padding: 6px 10px; border: 1px solid #d1d5db; border-radius: 6px; font: inherit; font-size: 14px; }
+header button { min-width: 32px; padding: 6px 10px; border: 1px solid #d1d5db; border-radius: 6px; background: #ffffff; font: inherit; font-size: 14px; cursor: pointer; }
+header button:hover { background: #f3f4f6; }
+#match-count, #zoom-level { min-width: 48px; color: #6b7280; font-size: 13px; text-align: center; }
+#viewport { position: relative; flex: 1; overflow: hidden; cursor: grab; touch-action: none; background-image: radial-gradient(#d1d5db 1px, transparent 1px); background-size: 24px 24px; }
+#viewport.panning { cursor: grabbing; }
+#world { position: absolute; left: 0; top: 0; transform-origin: 0 0; }
+#world svg { position: absolute; overflow: visible; pointer-events: none; }
+.node { position: absolute; display: flex; flex-direction: column; border: 2px solid #d1d5db; border-radius: 8px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); transition: opacity 0.15s, box-shadow 0.15s; }
+.node .body { flex: 1; min-height: 0; padding: 12px; overflow: hidden; overflow-wrap: anywhere; }
+.node h2 { margin: 0 0 6px; font-size: 16px; }
+.node .text p { margin: 0; }
+.node .images { display: grid; gap: 4px; height: 100%; }
+.node .images.grid { grid-template-columns: 1fr 1fr; }
+.node img { width: 100%; height: 100%; min-height: 0; object-fit: cover; border-radius: 4px; }
+.node video { width: 100%; border-radius: 4px; background: #111827; }
+.node .links { margin: 0; padding: 0; list-style: none; }
+.node .links li { margin-bottom: 6px; }
+.node a { color: #2563eb; font-weight: 600; }
+.node .url { display: block; color: #6b7280; font-size: 12px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.node .tags { position: absolute; top: 100%; left: 0; display: flex; gap: 4px; margin-top: 4px; white-space: nowrap; }
+.node .tags span { padding: 2px 8px; border-radius: 10px; background: #dbeafe; color: #1e40af; font-size: 11px; }
+.node .comment-marker { position: absolute; top: -10px; right: -10px; font-size: 16px; }
+.searching .node.dimmed { opacity: 0.25; }
+.node.match { box-shadow: 0 0 0 3px #facc15; }
+.node.current { box-shadow: 0 0 0 4px #f97316; }
+#tooltip { position: fixed; z-index: 10; max-width: 320px; padding: 8px 10px; border-radius: 6px; background: #111827; color: #ffffff; font-size: 13px; white-space: pre-wrap; pointer-events: none; }
+footer { padding: 4px 16px; color: #9ca3af; font-size: 11px; text-align: right; }
+`;
+
+/**
+ * Build the published page. Images are fetched and embedded, so this may
+ * take a moment for boards with many pictures.
+ */
+export const canvasToHtml = async (canvasName: string, content: CanvasFragment): Promise<string> => {
+  const { nodes, connections, groups } = content;
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+
+  const embed = createImageEmbedder();
+  const imageUrls = [...new Set(nodes.flatMap(node => node.content.type === 'image'
+    ? (node.content.images?.length ? node.content.images : [node.content.value])
+    : []))].filter(Boolean);
+  const embeddedImages = new Map(await Promise.all(imageUrls.map(async url => [url, await embed(url)] as const)));
+
+  const contentBounds = nodes.map(nodeRect).reduce<Rect | null>((union, rect) => union ? unionRects(union, rect) : rect, null)
+    ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const bounds = {
+    minX: contentBounds.minX - MARGIN,
+    minY: contentBounds.minY - MARGIN,
+    maxX: contentBounds.maxX + MARGIN,
+    maxY: contentBounds.maxY + MARGIN,
+  };
+
+  const paths = connections.flatMap(connection => {
+    const fromNode = nodesById.get(connection.fromNodeId);
+    const toNode = nodesById.get(connection.toNodeId);
+    if (!fromNode || !toNode) return [];
+    const curve = getConnectionCurve(connection, fromNode, toNode);
+    return [
+      `<path d="${curveToPathData(curve)}" fill="none" stroke="#000000" stroke-width="2"/>`,
+      `<circle cx="${curve.from.x}" cy="${curve.from.y}" r="2" fill="#000000" opacity="0.3"/>`,
+      `<circle cx="${curve.to.x}" cy="${curve.to.y}" r="2" fill="#000000" opacity="0.3"/>`,
+    ];
+  });
+
+  const nodeMarkup = nodes.map(node => {
+    const group = node.groupId ? groupsById.get(node.groupId) : undefined;
+    return nodeHtml(node, group?.color, group?.name, embeddedImages);
+  });
+
+  // Escaped so the data can't close its script element
+  const data = fragmentToCanvasFile(canvasName, content).replace(/</g, '\\u003c');
+  const title = escapeHtml(canvasName);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="IdeaScape">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${title}</h1>
+  <input id="search" type="search" placeholder="Search nodes... ( / )" aria-label="Search nodes">
+  <span id="match-count"></span>
+  <button id="zoom-out" type="button" title="Zoom out (-)">−</button>
+  <span id="zoom-level">100%</span>
+  <button id="zoom-in" type="button" title="Zoom in (+)">+</button>
+  <button id="zoom-fit" type="button" title="Fit to screen (0)">Fit</button>
+</header>
+<main id="viewport">
+  <div id="world" data-bounds="${escapeXmlAttribute(JSON.stringify(bounds))}">
+    <svg width="1" height="1">${paths.join('')}</svg>
+    ${nodeMarkup.join('\n    ')}
+  </div>
+</main>
+<div id="tooltip" hidden></div>
+<footer>Published with IdeaScape on ${escapeHtml(new Date().toLocaleDateString())} · ${nodes.length} nodes</footer>
+<script type="application/json" id="${HTML_DATA_ELEMENT_ID}">${data}</script>
+<script>(${viewer.toString()})();</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * The canvas file embedded in a published page, for loading it back.
+ * Throws when the page wasn't published from IdeaScape.
+ */
+export const canvasFileFromHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const data = doc.getElementById(HTML_DATA_ELEMENT_ID)?.textContent;
+  if (!data) {
+    throw new Error('This page holds no IdeaScape canvas');
+  }
+  return data;
+};
@@ -0,0 +1,150 @@
+import { fragmentToCanvasFile, outlineToFragment, type OutlineDocument } from '../store/outline';
+import type { CanvasFragment } from '../store/canvasMerge';
+import type { LayoutType } from '../store/layout';
+import { parseMarkdownOutline } from './markdown';
+import { parseOpml } from './opml';
+import { parseFreeMind } from './freemind';
+import { isJsonCanvasData, parseJsonCanvas } from './jsonCanvas';
+import { mermaidToFragment } from './diagram';
+import { canvasFileFromHtml } from './htmlExport';
+import { isBookmarksHtml, parseBookmarks } from './bookmarks';
+import { notesToFragment, type NoteFile } from './notes';
+
+/**
+ * Files the Load dialog reads besides canvas JSON. Each format is converted
+ * into canvas file JSON, so importing and merging work the same for all of
+ * them and go through the same validation.
+ */
+
+export const IMPORT_FILE_ACCEPT = '.json,.ideascape,.canvas,.html,.htm,.md,.markdown,.opml,.mm,.mmd,.mermaid,.csv,.tsv,.zip';
+
+const baseName = (filename: string) => filename.replace(/\.[^.]+$/, '') || 'Imported canvas';
+
+export const isCanvasJson = (content: string) => content.trimStart().startsWith('{');
+
+// ZIP archives other than bundles are read as note vaults
+export const isNotesArchive = (filename: string) => /\.zip$/i.test(filename);
+
+// Spreadsheets need their columns mapped to node fields before they can be converted
+export const isSpreadsheetFile = (filename: string) => /\.(csv|tsv)$/i.test(filename);
+
+const outlineToCanvasFile = (outline: OutlineDocument, fallbackName: string, layout: LayoutType) => {
+  const fragment = outlineToFragment(outline.sections, layout, outline.crossLinks);
+  if (fragment.nodes.length === 0) {
+    throw new Error('No outline found in the file');
+  }
+  return fragmentToCanvasFile(outline.title ?? fallbackName, fragment);
+};
+
+export const markdownToCanvasFile = (markdown: string, fallbackName: string) =>
+  outlineToCanvasFile(parseMarkdownOutline(markdown), fallbackName, 'mindmap');
+
+// Outliners and mind maps are deep hierarchies, which read best as a tree
+export const opmlToCanvasFile = (opml: string, fallbackName: string) =>
+  outlineToCanvasFile(parseOpml(opml), fallbackName, 'tree');
+
+export const freeMindToCanvasFile = (map: string, fallbackName: string) =>
+  outlineToCanvasFile(parseFreeMind(map), fallbackName, 'tree');
+
+export const jsonCanvasToCanvasFile = (json: string, fallbackName: string) => {
+  const fragment = parseJsonCanvas(json);
+  if (fragment.nodes.length === 0) {
+    throw new Error('No nodes found in the JSON Canvas');
+  }
+  return fragmentToCanvasFile(fallbackName, fragment);
+};
+
+export const mermaidToCanvasFile = (mermaid: string, fallbackName: string) => {
+  const fragment = mermaidToFragment(mermaid);
+  if (fragment.nodes.length === 0) {
+    throw new Error('No nodes found in the Mermaid flowchart');
+  }
+  return fragmentToCanvasFile(fallbackName, fragment);
+};
+
+export const bookmarksToCanvasFile = (html: string, fallbackName: string) => {
+  const fragment = parseBookmarks(html);
+  if (fragment.nodes.length === 0) {
+    throw new Error('No bookmarks found in the file');
+  }
+  return fragmentToCanvasFile(fallbackName, fragment);
+};
+
+// HTML is either a bookmarks export or a page published from IdeaScape
+const htmlToCanvasFile = (html: string, fallbackName: string) =>
+  isBookmarksHtml(html) ? bookmarksToCanvasFile(html, fallbackName) : canvasFileFromHtml(html);
+
+export const notesToCanvasFile = (notes: NoteFile[], fallbackName: string) => {
+  const fragment = notesToFragment(notes);
+  if (fragment.nodes.length === 0) {
+    throw new Error('No Markdown notes found');
+  }
+  return fragmentToCanvasFile(fallbackName, fragment);
+};
+
+// A spreadsheet's rows, once converted with the column mapping the user chose
+export const spreadsheetToCanvasFile = (filename: string, fragment: CanvasFragment) => {
+  if (fragment.nodes.length === 0) {
+    throw new Error('No rows found in the spreadsheet');
+  }
+  return fragmentToCanvasFile(baseName(filename), fragment);
+};
+
+// A flowchart header, possibly after a code fence, front matter or comments
+const MERMAID_START = /^(?:```\s*mermaid\s*\n)?(?:---\n[\s\S]*?\n---\n)?(?:\s*%%.*\n)*\s*(?:flowchart|graph)\b/i;
+
+// JSON is either a canvas file or a JSON Canvas; anything unreadable is left to the canvas file validation
+const jsonToCanvasFile = (json: string, fallbackName: string) => {
+  try {
+    if (isJsonCanvasData(JSON.parse(json))) return jsonCanvasToCanvasFile(json, fallbackName);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+  return json;
+};
+
+/**
+ * Convert pasted text to canvas file JSON, recognizing the format from its
+ * content: canvas JSON, JSON Canvas, a published HTML page, browser bookmarks,
+ * OPML, a FreeMind map, a Mermaid flowchart, or else a Markdown outline.
+ */
+export const importTextToCanvasFile = (content: string, fallbackName: string): string => {
+  const start = content.trimStart().slice(0, 200);
+  if (isCanvasJson(content)) return jsonToCanvasFile(content, fallbackName);
+  if (/^<(!doctype html|html)[\s>]/i.test(start)) return canvasFileFromHtml(content);
+  if (isBookmarksHtml(start)) return bookmarksToCanvasFile(content, fallbackName);
+  if (/<opml[\s>]/i.test(start)) return opmlToCanvasFile(content, fallbackName);
+  if (/<map[\s>]/i.test(start)) return freeMindToCanvasFile(content, fallbackName);
+  if (MERMAID_START.test(content.trimStart().replace(/\r\n?/g, '\n'))) return mermaidToCanvasFile(content, fallbackName);
+  return markdownToCanvasFile(content, fallbackName);
+};
+
+/**
+ * Convert an imported file to canvas file JSON, picking the format from the
+ * file extension. Throws when the format is unknown or the file holds nothing
+ * to import.
+ */
+export const importFileToCanvasFile = (filename: string, content: string): string => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'json':
+      return jsonToCanvasFile(content, baseName(filename));
+    case 'canvas':
+      return jsonCanvasToCanvasFile(content, baseName(filename));
+    case 'html':
+    case 'htm':
+      return htmlToCanvasFile(content, baseName(filename));
+    case 'md':
+    case 'markdown':
+      return markdownToCanvasFile(content, baseName(filename));
+    case 'opml':
+      return opmlToCanvasFile(content, baseName(filename));
+    case 'mm':
+      return freeMindToCanvasFile(content, baseName(filename));
+    case 'mmd':
+    case 'mermaid':
+      return mermaidToCanvasFile(content, baseName(filename));
+    default:
+      throw new Error(`Unsupported file type: .${extension}`);
+  }
+};
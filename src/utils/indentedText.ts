@@ -0,0 +1,71 @@
+import type { CanvasFragment } from '../store/canvasMerge';
+import { outlineToFragment, type OutlineItem } from '../store/outline';
+import { markdownToHtml, splitTags } from './markdown';
+
+/**
+ * Structured plain text, such as meeting notes, read as a tree: one item per
+ * line, nested under the closest line above it that is less indented. Bullets
+ * count as one step deeper than plain lines at the same indent, so a line
+ * followed by a bulleted list becomes its parent, and Markdown headings sit
+ * above everything after them.
+ */
+
+const BULLET = /^([-*+•◦▪‣]|\d+[.)])\s+/;
+const HEADING = /^(#{1,6})\s+/;
+const TASK = /^\[[ xX]\]\s+/;
+const TAB_WIDTH = 4;
+
+interface Line {
+  depth: number;
+  text: string;
+}
+
+const readLine = (line: string): Line | null => {
+  const expanded = line.replace(/\t/g, ' '.repeat(TAB_WIDTH));
+  const text = expanded.trim();
+  if (!text) return null;
+
+  const indent = expanded.length - expanded.trimStart().length;
+  const heading = text.match(HEADING);
+  if (heading) {
+    // Headings nest by level, above any indented text
+    return { depth: heading[1].length - 7, text: text.slice(heading[0].length) };
+  }
+  const bullet = text.match(BULLET);
+  if (bullet) {
+    return { depth: indent + 0.5, text: text.slice(bullet[0].length).replace(TASK, '') };
+  }
+  return { depth: indent, text };
+};
+
+/**
+ * Read text as a tree of items. Returns null for text without structure,
+ * such as a single line or paragraphs without bullets or indentation, which
+ * is better kept as one node.
+ */
+export const parseIndentedText = (text: string): OutlineItem[] | null => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(readLine).filter((line): line is Line => line !== null);
+  const isStructured = lines.length >= 2 && lines.some(line => line.depth !== lines[0].depth || !Number.isInteger(line.depth));
+  if (!isStructured) return null;
+
+  const roots: OutlineItem[] = [];
+  const stack: Array<{ depth: number; item: OutlineItem }> = [];
+  lines.forEach(line => {
+    const { text: body, tags } = splitTags(line.text);
+    const item: OutlineItem = {
+      html: markdownToHtml(body || line.text),
+      tags: body && tags.length > 0 ? tags : undefined,
+      children: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1].depth >= line.depth) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].item.children : roots).push(item);
+    stack.push({ depth: line.depth, item });
+  });
+  return roots;
+};
+
+// The tree as new connected nodes laid out as a mind map, or null for unstructured text
+export const indentedTextToFragment = (text: string): CanvasFragment | null => {
+  const items = parseIndentedText(text);
+  return items ? outlineToFragment([{ items }], 'mindmap') : null;
+};
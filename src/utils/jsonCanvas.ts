@@ -0,0 +1,270 @@
+import type { Connection, Node, NodeGroup } from '../store/canvasStore';
+import { createEntityId, getFragmentBounds, type CanvasFragment } from '../store/canvasMerge';
+import { TEXT_NODE_PARAGRAPH_STYLE, isSafeUrl, textToHtml } from './html';
+import { markdownToHtml, nodeMarkdownLines, splitTags, toHashtag } from './markdown';
+
+/**
+ * JSON Canvas (.canvas), the open format of Obsidian canvases. Its positioned
+ * nodes and side-anchored edges map directly onto ours. Text nodes hold
+ * Markdown, so titles, tags and comments are written the way Obsidian shows
+ * them: a bold first line, a line of hashtags and a comment callout. Groups
+ * are group nodes drawn around their members.
+ */
+
+interface JsonCanvasNode {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+interface JsonCanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: string;
+  toNode: string;
+  toSide?: string;
+  color?: string;
+}
+
+interface JsonCanvasData {
+  nodes?: JsonCanvasNode[];
+  edges?: JsonCanvasEdge[];
+}
+
+// Obsidian's preset colors "1" to "6"
+const PRESET_COLORS: Record<string, string> = {
+  1: '#fb464c',
+  2: '#e9973f',
+  3: '#e0de71',
+  4: '#44cf6e',
+  5: '#53dfdd',
+  6: '#a882ff',
+};
+
+const SIDES = new Set(['top', 'right', 'bottom', 'left']);
+const GROUP_PADDING = 30;
+const MIN_NODE_SIZE = 60;
+const COMMENT_CALLOUT = /^>\s*\[!comment\][+-]?\s*$/i;
+const HEADING_LINE = /^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+const BOLD_LINE = /^(?:\*\*(.+)\*\*|__(.+)__)$/;
+const IMAGE_LINE = /^!\[[^\]]*\]\(([^)\s]+)[^)]*\)$/;
+const MEDIA_URL = /^(https?:|data:)/i;
+const IMAGE_FILE = /\.(png|jpe?g|gif|webp|svg|bmp|avif)$/i;
+const VIDEO_FILE = /\.(mp4|webm|ogv|mov)$/i;
+
+// Nodes that are a single link with nothing else attached become link nodes; everything else is Markdown
+const singleUrl = (node: Node) => {
+  const { content } = node;
+  if (node.tags?.length || node.comment) return undefined;
+  if (content.type === 'link' && (content.links?.length ?? 1) <= 1) return content.links?.[0]?.url || content.value;
+  if (content.type === 'video' && (content.videos?.length ?? 1) <= 1 && /^https?:/i.test(content.value)) return content.value;
+  return undefined;
+};
+
+const nodeMarkdown = (node: Node) => [
+  nodeMarkdownLines(node).join('\n'),
+  (node.tags ?? []).map(toHashtag).join(' '),
+  node.comment ? ['> [!comment]', ...node.comment.split('\n').map(line => `> ${line}`.trimEnd())].join('\n') : '',
+].filter(Boolean).join('\n\n');
+
+export const canvasToJsonCanvas = (content: CanvasFragment): string => {
+  const position = (node: Pick<Node, 'x' | 'y' | 'width' | 'height'>) => ({
+    x: Math.round(node.x),
+    y: Math.round(node.y),
+    width: Math.round(node.width),
+    height: Math.round(node.height),
+  });
+  const color = (value: string, fallback: string) => (value && value.toLowerCase() !== fallback ? { color: value } : {});
+
+  // Groups go first so they are drawn beneath their members
+  const groupNodes = content.groups.flatMap(group => {
+    const members = content.nodes.filter(node => node.groupId === group.id);
+    if (members.length === 0) return [];
+    const bounds = getFragmentBounds(members);
+    return [{
+      id: group.id,
+      type: 'group',
+      ...position({
+        x: bounds.minX - GROUP_PADDING,
+        y: bounds.minY - GROUP_PADDING,
+        width: bounds.maxX - bounds.minX + GROUP_PADDING * 2,
+        height: bounds.maxY - bounds.minY + GROUP_PADDING * 2,
+      }),
+      label: group.name,
+      color: group.color,
+    }];
+  });
+
+  const nodes = content.nodes.map(node => {
+    const url = singleUrl(node);
+    return {
+      id: node.id,
+      ...(url ? { type: 'link', url } : { type: 'text', text: nodeMarkdown(node) }),
+      ...position(node),
+      ...color(node.color, '#ffffff'),
+    };
+  });
+
+  const edges = content.connections.map(conn => ({
+    id: conn.id,
+    fromNode: conn.fromNodeId,
+    ...(conn.fromPoint && SIDES.has(conn.fromPoint) ? { fromSide: conn.fromPoint } : {}),
+    toNode: conn.toNodeId,
+    ...(conn.toPoint && SIDES.has(conn.toPoint) ? { toSide: conn.toPoint } : {}),
+    ...color(conn.color, '#000000'),
+  }));
+
+  return `${JSON.stringify({ nodes: [...groupNodes, ...nodes], edges }, null, 2)}\n`;
+};
+
+const toColor = (color: string | undefined, fallback: string) => {
+  if (!color) return fallback;
+  return PRESET_COLORS[color] ?? (/^#[0-9a-f]{3,8}$/i.test(color) ? color : fallback);
+};
+
+// Markdown of a text node, split into the parts our nodes keep apart
+const textNodeContent = (markdown: string): Pick<Node, 'content' | 'tags' | 'comment'> => {
+  let lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  let comment: string | undefined;
+  const calloutStart = lines.findIndex(line => COMMENT_CALLOUT.test(line.trim()));
+  if (calloutStart >= 0) {
+    let end = calloutStart + 1;
+    while (end < lines.length && lines[end].trim().startsWith('>')) end++;
+    comment = lines.slice(calloutStart + 1, end).map(line => line.trim().replace(/^>\s?/, '')).join('\n').trim() || undefined;
+    lines = [...lines.slice(0, calloutStart), ...lines.slice(end)];
+  }
+
+  lines = lines.join('\n').trim().split('\n');
+  let tags: string[] | undefined;
+  const lastLine = splitTags(lines[lines.length - 1] ?? '');
+  if (lines.length > 1 && !lastLine.text && lastLine.tags.length > 0) {
+    tags = lastLine.tags;
+    lines = lines.slice(0, -1).join('\n').trim().split('\n');
+  }
+
+  let title: string | undefined;
+  const titleMatch = lines[0]?.trim().match(HEADING_LINE) ?? lines[0]?.trim().match(BOLD_LINE);
+  if (titleMatch && lines.length > 1) {
+    title = (titleMatch[1] ?? titleMatch[2]).replace(/\\(.)/g, '$1');
+    lines = lines.slice(1).join('\n').trim().split('\n');
+  }
+
+  const body = lines.filter(line => line.trim());
+  const extras = { ...(tags ? { tags } : {}), ...(comment ? { comment } : {}) };
+  if (body.length > 0 && body.every(line => IMAGE_LINE.test(line.trim()))) {
+    const images = body.map(line => line.trim().match(IMAGE_LINE)![1]);
+    return { content: { type: 'image', value: images[0], title, images }, ...extras };
+  }
+  const html = body.length > 0 ? markdownToHtml(lines.join('\n')) : `<p style="${TEXT_NODE_PARAGRAPH_STYLE}"></p>`;
+  return { content: { type: 'text', value: html, title }, ...extras };
+};
+
+// Files in a vault can't be loaded from here, so only media given by URL is shown as media
+const fileNodeContent = (file: string, subpath?: string): Node['content'] => {
+  const name = file.split('/').pop() || file;
+  if (MEDIA_URL.test(file) && IMAGE_FILE.test(file.split('?')[0])) return { type: 'image', value: file, title: name, images: [file] };
+  if (MEDIA_URL.test(file) && VIDEO_FILE.test(file.split('?')[0])) return { type: 'video', value: file, title: name, videos: [file] };
+  return { type: 'text', value: textToHtml(`${file}${subpath ?? ''}`), title: name.replace(/\.md$/i, '') };
+};
+
+// Canvas files have a `nodes` array of content objects; JSON Canvas nodes carry their type directly
+export const isJsonCanvasData = (data: unknown): data is JsonCanvasData => {
+  if (!data || typeof data !== 'object') return false;
+  const { nodes, edges } = data as JsonCanvasData;
+  if (nodes !== undefined && !Array.isArray(nodes)) return false;
+  return Array.isArray(edges) || (Array.isArray(nodes) && nodes.some(node => typeof node?.type === 'string'));
+};
+
+/**
+ * Read a JSON Canvas document as new nodes, connections and groups. A node
+ * belongs to the smallest group node its center lies in. Links to anything
+ * but web and mail addresses are kept as text. Throws when the text isn't a
+ * JSON Canvas.
+ */
+export const parseJsonCanvas = (json: string): CanvasFragment => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON Canvas file');
+  }
+  if (!isJsonCanvasData(data)) {
+    throw new Error('Not a valid JSON Canvas file');
+  }
+
+  const now = new Date();
+  const rawNodes = (data.nodes ?? []).filter(node =>
+    node && typeof node.id === 'string' && [node.x, node.y, node.width, node.height].every(Number.isFinite));
+  const rawGroups = rawNodes
+    .filter(node => node.type === 'group')
+    .sort((a, b) => a.width * a.height - b.width * b.height);
+
+  const groups: NodeGroup[] = rawGroups.map(raw => ({
+    id: createEntityId('group'),
+    name: raw.label?.trim() || 'Group',
+    color: toColor(raw.color, '#3b82f6'),
+    nodes: [],
+  }));
+
+  const nodeIds = new Map<string, string>();
+  const nodes: Node[] = rawNodes.filter(raw => raw.type !== 'group').map(raw => {
+    const centerX = raw.x + raw.width / 2;
+    const centerY = raw.y + raw.height / 2;
+    const groupIndex = rawGroups.findIndex(group =>
+      centerX >= group.x && centerX <= group.x + group.width && centerY >= group.y && centerY <= group.y + group.height);
+
+    const parts: Pick<Node, 'content' | 'tags' | 'comment'> = raw.type === 'link' && raw.url
+      ? isSafeUrl(raw.url)
+        ? { content: { type: 'link', value: raw.url, links: [{ url: raw.url, title: raw.url }] } }
+        : { content: { type: 'text', value: textToHtml(raw.url) } }
+      : raw.type === 'file' && raw.file
+        ? { content: fileNodeContent(raw.file, raw.subpath) }
+        : textNodeContent(raw.text ?? '');
+
+    const node: Node = {
+      id: createEntityId('node'),
+      x: raw.x,
+      y: raw.y,
+      width: Math.max(MIN_NODE_SIZE, raw.width),
+      height: Math.max(MIN_NODE_SIZE, raw.height),
+      ...parts,
+      groupId: groupIndex >= 0 ? groups[groupIndex].id : undefined,
+      color: toColor(raw.color, '#ffffff'),
+      selected: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    nodeIds.set(raw.id, node.id);
+    return node;
+  });
+
+  groups.forEach(group => {
+    group.nodes = nodes.filter(node => node.groupId === group.id).map(node => node.id);
+  });
+
+  const connections: Connection[] = (data.edges ?? []).flatMap(edge => {
+    const fromNodeId = nodeIds.get(edge?.fromNode);
+    const toNodeId = nodeIds.get(edge?.toNode);
+    if (!fromNodeId || !toNodeId || fromNodeId === toNodeId) return [];
+    return [{
+      id: createEntityId('conn'),
+      fromNodeId,
+      toNodeId,
+      ...(edge.fromSide && SIDES.has(edge.fromSide) ? { fromPoint: edge.fromSide } : {}),
+      ...(edge.toSide && SIDES.has(edge.toSide) ? { toPoint: edge.toSide } : {}),
+      color: toColor(edge.color, '#000000'),
+    }];
+  });
+
+  return { nodes, connections, groups: groups.filter(group => group.nodes.length > 0) };
+};
@@ -0,0 +1,458 @@
+import type { CanvasFragment } from '../store/canvasMerge';
+import type { Node as CanvasNode } from '../store/canvasStore';
+import { buildCanvasOutline, type CanvasTree, type OutlineDocument, type OutlineItem } from '../store/outline';
+import { escapeHtml, sanitizeHtml, TEXT_NODE_PARAGRAPH_STYLE } from './html';
+
+/**
+ * Markdown outlines. A canvas is written as nested bullet lists following its
+ * connections, with a heading per group; node titles are bold, tags are
+ * hashtags at the end of a node's first line and comments are blockquotes
+ * under it. Reading a Markdown file turns its bullets back into items, with
+ * headings as groups and paragraphs outside lists as top-level items. Whole
+ * documents, such as notes, convert to a single node's HTML instead.
+ */
+
+// Characters that would otherwise be read as Markdown (and # as a tag)
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#])/g, '\\$1');
+
+const unescapeMarkdown = (text: string) => text.replace(/\\([\\`*_{}[\]()#+\-.!~>])/g, '$1');
+
+// Put emphasis markers inside the surrounding whitespace, where Markdown expects them
+const wrapInline = (content: string, marker: string) => {
+  const [, lead, inner, trail] = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return inner ? `${lead}${marker}${inner}${marker}${trail}` : content;
+};
+
+const block = (content: string) => `\n\n${content.trim()}\n\n`;
+
+const prefixLines = (content: string, first: string, rest: string) =>
+  content.split('\n').map((line, index) => (line ? (index === 0 ? first : rest) + line : line)).join('\n');
+
+const elementToMarkdown = (element: Element, inPre: boolean): string => {
+  const tag = element.tagName.toLowerCase();
+  const inner = () => Array.from(element.childNodes).map(child => domToMarkdown(child, inPre || tag === 'pre')).join('');
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'b':
+    case 'strong':
+      return wrapInline(inner(), '**');
+    case 'i':
+    case 'em':
+      return wrapInline(inner(), '*');
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrapInline(inner(), '~~');
+    case 'code':
+      return inPre ? element.textContent || '' : `\`${element.textContent || ''}\``;
+    case 'a': {
+      const href = element.getAttribute('href');
+      return href ? `[${inner().trim()}](${href})` : inner();
+    }
+    case 'span': {
+      // RichTextEditor formats with inline styles as well as tags
+      const style = (element.getAttribute('style') || '').toLowerCase();
+      let content = inner();
+      if (/font-weight:\s*(bold|[6-9]00)/.test(style)) content = wrapInline(content, '**');
+      if (/font-style:\s*italic/.test(style)) content = wrapInline(content, '*');
+      if (/text-decoration:[^;]*line-through/.test(style)) content = wrapInline(content, '~~');
+      return content;
+    }
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      // Headings would break the outline, so they become bold paragraphs
+      return block(wrapInline(inner().trim(), '**'));
+    case 'blockquote':
+      return block(prefixLines(inner().trim(), '> ', '> '));
+    case 'pre':
+      return block(`\`\`\`\n${element.textContent || ''}\n\`\`\``);
+    case 'hr':
+      return block('---');
+    case 'ul':
+    case 'ol': {
+      const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
+      return block(items.map((item, index) => {
+        const marker = tag === 'ol' ? `${index + 1}. ` : '- ';
+        const content = elementToMarkdown(item, inPre).trim().replace(/\n{2,}/g, '\n');
+        return prefixLines(content, marker, ' '.repeat(marker.length));
+      }).join('\n'));
+    }
+    case 'li':
+      return inner();
+    case 'p':
+    case 'div':
+      return block(inner());
+    default:
+      return inner();
+  }
+};
+
+const domToMarkdown = (node: ChildNode, inPre = false): string => {
+  if (node.nodeType === 3) {
+    const text = node.textContent || '';
+    return inPre ? text : escapeMarkdown(text.replace(/\s+/g, ' '));
+  }
+  return node.nodeType === 1 ? elementToMarkdown(node as Element, inPre) : '';
+};
+
+/**
+ * Convert text node HTML to Markdown: paragraphs, line breaks, emphasis,
+ * links, quotes, code and lists.
+ */
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.childNodes)
+    .map(child => domToMarkdown(child))
+    .join('')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Inline Markdown to HTML: code, links, bold, italic and strikethrough
+const inlineMarkdownToHtml = (text: string) => {
+  // Set escaped characters and code aside so the patterns below leave them alone
+  const saved: string[] = [];
+  const save = (html: string) => `\u0000${saved.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/\\([\\`*_{}[\]()#+\-.!~>])/g, (_, char) => save(escapeHtml(char)))
+    .replace(/`([^`]+)`/g, (_, code) => save(`<code>${escapeHtml(code)}</code>`));
+  html = escapeHtml(html)
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, label, url) => `<a href="${url}">${label || url}</a>`)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, '<s>$1</s>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => saved[Number(index)]);
+};
+
+/**
+ * Convert Markdown text to text node HTML, one paragraph per block with line
+ * breaks kept. Block-level syntax other than paragraphs is kept as text.
+ */
+export const markdownToHtml = (markdown: string): string =>
+  sanitizeHtml(markdown
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p style="${TEXT_NODE_PARAGRAPH_STYLE}">${paragraph.split('\n').map(line => inlineMarkdownToHtml(line.trim())).join('<br>')}</p>`)
+    .join(''));
+
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const paragraphToHtml = (lines: string[]) =>
+  `<p style="${TEXT_NODE_PARAGRAPH_STYLE}">${lines.map(line => inlineMarkdownToHtml(line.trim())).join('<br>')}</p>`;
+
+// A list and the lists nested in it; lines indented under an item belong to that item
+const listToHtml = (lines: string[]): string => {
+  const indent = indentOf(lines[0]);
+  const items: Array<{ text: string; children: string[] }> = [];
+  lines.forEach(line => {
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length <= indent) {
+      items.push({ text: item[3], children: [] });
+    } else {
+      items[items.length - 1].children.push(line);
+    }
+  });
+
+  const tag = /^\s*\d/.test(lines[0]) ? 'ol' : 'ul';
+  const html = items.map(({ text, children }) => {
+    // Task list checkboxes are kept as characters, since text nodes have no inputs
+    const label = text.replace(TASK, (_, mark) => (mark === ' ' ? '☐ ' : '☑ '));
+    const nested = children.filter(line => line.trim());
+    const depth = nested.length ? Math.min(...nested.map(indentOf)) : 0;
+    return `<li>${inlineMarkdownToHtml(label)}${blocksToHtml(children.map(line => line.slice(Math.min(depth, indentOf(line)))))}</li>`;
+  });
+  return `<${tag}>${html.join('')}</${tag}>`;
+};
+
+// Block-level Markdown to HTML: headings, paragraphs, lists, quotes, code blocks and rules
+const blocksToHtml = (lines: string[]): string => {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) html.push(paragraphToHtml(paragraph));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+    const heading = line.match(HEADING);
+
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+    } else if (!line.trim()) {
+      flush();
+    } else if (heading && indentOf(line) === 0) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${inlineMarkdownToHtml(heading[2])}</h${level}>`);
+    } else if (RULE.test(line)) {
+      flush();
+      html.push('<hr>');
+    } else if (line.trimStart().startsWith('>')) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].trimStart().startsWith('>'); i++) {
+        quoted.push(lines[i].trimStart().replace(/^>\s?/, ''));
+      }
+      i--;
+      html.push(`<blockquote>${blocksToHtml(quoted)}</blockquote>`);
+    } else if (LIST_ITEM.test(line)) {
+      flush();
+      const indent = indentOf(line);
+      const list: string[] = [];
+      // The list goes on through blank lines as long as more of it follows
+      const continuesList = (next?: string) =>
+        next !== undefined && next.trim() !== '' && (indentOf(next) > indent || LIST_ITEM.test(next));
+      for (; i < lines.length; i++) {
+        if (!lines[i].trim() ? !continuesList(lines.slice(i).find(next => next.trim())) : !continuesList(lines[i])) break;
+        list.push(lines[i]);
+      }
+      i--;
+      html.push(listToHtml(list));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return html.join('');
+};
+
+/**
+ * Convert a whole Markdown document, such as a note, to text node HTML. Unlike
+ * markdownToHtml, headings, lists, quotes and code blocks keep their structure.
+ */
+export const markdownDocumentToHtml = (markdown: string): string =>
+  sanitizeHtml(blocksToHtml(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')));
+
+// Markdown tags can't contain spaces
+export const toHashtag = (tag: string) => `#${tag.trim().replace(/\s+/g, '-')}`;
+
+// Lines describing a node's content, before its tags, comment and children are added
+export const nodeMarkdownLines = (node: CanvasNode): string[] => {
+  const { content } = node;
+  const title = content.title ? [`**${escapeMarkdown(content.title)}**`] : [];
+  const isEmbeddable = (url: string) => !!url && !url.startsWith('data:'); // Pasted media would swamp the outline
+
+  switch (content.type) {
+    case 'text': {
+      const body = htmlToMarkdown(content.value);
+      return [...title, ...(body ? body.split('\n') : [])];
+    }
+    case 'image': {
+      const images = (content.images?.length ? content.images : [content.value]).filter(isEmbeddable);
+      return [...title, ...(images.length > 0 ? images.map(url => `![](${url})`) : ['*Image*'])];
+    }
+    case 'link': {
+      const links = content.links?.length ? content.links : [{ url: content.value, title: content.title || content.value }];
+      return links.filter(link => link.url).map(link => `[${escapeMarkdown(link.title || link.url)}](${link.url})`);
+    }
+    case 'video': {
+      const videos = (content.videos?.length ? content.videos : [content.value]).filter(isEmbeddable);
+      return [...title, ...(videos.length > 0 ? videos.map(url => `[Video](${url})`) : ['*Video*'])];
+    }
+  }
+};
+
+const treeToMarkdown = ({ node, children }: CanvasTree, indent: string): string[] => {
+  const [first = '', ...rest] = nodeMarkdownLines(node);
+  const tags = (node.tags ?? []).map(toHashtag).join(' ');
+  const firstLine = [first, tags].filter(Boolean).join(' ');
+  const childIndent = `${indent}  `;
+
+  return [
+    `${indent}-${firstLine ? ` ${firstLine}` : ''}`,
+    ...rest.map(line => (line ? childIndent + line : '')),
+    ...(node.comment ? node.comment.split('\n').map(line => `${childIndent}> ${line}`.trimEnd()) : []),
+    ...children.flatMap(child => treeToMarkdown(child, childIndent)),
+  ];
+};
+
+/**
+ * Write nodes as a Markdown outline: a title, the ungrouped trees, then a
+ * second-level heading for each group with its trees.
+ */
+export const canvasToMarkdown = (canvasName: string, content: CanvasFragment): string => {
+  const parts = [`# ${canvasName}`];
+  buildCanvasOutline(content).forEach(section => {
+    if (section.group) parts.push(`## ${section.group.name}`);
+    parts.push(section.trees.flatMap(tree => treeToMarkdown(tree, '')).join('\n'));
+  });
+  return `${parts.join('\n\n')}\n`;
+};
+
+interface RawItem {
+  lines: string[];
+  children: RawItem[];
+}
+
+const BULLET = /^(\s*)([-*+]|\d+[.)])(?:\s+(.*))?$/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const IMAGE_LINE = /^!\[[^\]]*\]\(([^)\s]+)[^)]*\)$/;
+const LINK_LINE = /^\[([^\]]*)\]\(([^)\s]+)[^)]*\)$/;
+const URL_LINE = /^https?:\/\/\S+$/;
+const TAG = /^#[\p{L}\p{N}_\-/]*\p{L}[\p{L}\p{N}_\-/]*$/u;
+const BOLD_LINE = /^(?:\*\*(.+)\*\*|__(.+)__)$/;
+
+// Hashtags at the end of a line, as long as nothing but tags follows them
+export const splitTags = (line: string) => {
+  const words = line.trim().split(/\s+/).filter(Boolean);
+  let start = words.length;
+  while (start > 0 && TAG.test(words[start - 1])) start--;
+  return {
+    text: words.slice(0, start).join(' '),
+    tags: words.slice(start).map(word => word.slice(1)),
+  };
+};
+
+const trimBlankLines = (lines: string[]) => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+};
+
+const rawToItem = (raw: RawItem): OutlineItem => {
+  const [first = '', ...rest] = raw.lines;
+  const { text, tags } = splitTags(first);
+  const comment = rest.filter(line => line.trim().startsWith('>')).map(line => line.trim().replace(/^>\s?/, ''));
+  let body = trimBlankLines([text, ...rest.filter(line => !line.trim().startsWith('>'))]);
+
+  let title: string | undefined;
+  const bold = body[0]?.match(BOLD_LINE);
+  if (bold) {
+    title = unescapeMarkdown(bold[1] ?? bold[2]);
+    body = trimBlankLines(body.slice(1));
+  }
+
+  const item: OutlineItem = {
+    title,
+    tags: tags.length > 0 ? tags : undefined,
+    comment: comment.length > 0 ? comment.join('\n') : undefined,
+    children: raw.children.map(rawToItem),
+  };
+
+  // Items made only of images or only of links become media and link nodes
+  const lines = body.filter(line => line.trim()).map(line => line.trim());
+  if (lines.length > 0 && lines.every(line => IMAGE_LINE.test(line))) {
+    item.images = lines.map(line => line.match(IMAGE_LINE)![1]);
+  } else if (lines.length > 0 && lines.every(line => LINK_LINE.test(line) || URL_LINE.test(line))) {
+    item.links = lines.map(line => {
+      const link = line.match(LINK_LINE);
+      return link ? { url: link[2], title: unescapeMarkdown(link[1]) || link[2] } : { url: line, title: line };
+    });
+  } else if (lines.length > 0) {
+    item.html = markdownToHtml(body.join('\n'));
+  }
+  return item;
+};
+
+/**
+ * Read a Markdown document as an outline. Nested bullets become children of
+ * the bullet above them, text indented under a bullet belongs to it, and every
+ * heading starts a new section. A leading top-level heading is the title.
+ */
+export const parseMarkdownOutline = (markdown: string): OutlineDocument => {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+
+  // Skip YAML front matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) lines.splice(0, end + 1);
+  }
+
+  let title: string | undefined;
+  const rawSections: Array<{ heading?: string; items: RawItem[] }> = [{ items: [] }];
+  let stack: Array<{ indent: number; item: RawItem }> = [];
+  let paragraph: RawItem | null = null; // Top-level paragraph being read
+  let inFence = false;
+  let previousBlank = true;
+
+  lines.forEach(line => {
+    const section = rawSections[rawSections.length - 1];
+    const top = stack[stack.length - 1];
+
+    if (line.trim().startsWith('```')) inFence = !inFence;
+    if (inFence || line.trim().startsWith('```')) {
+      (top?.item ?? paragraph)?.lines.push(line.trim());
+      previousBlank = false;
+      return;
+    }
+
+    if (!line.trim()) {
+      top?.item.lines.push('');
+      paragraph = null;
+      previousBlank = true;
+      return;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const text = unescapeMarkdown(heading[2]);
+      const isFirst = rawSections.length === 1 && section.items.length === 0;
+      if (heading[1].length === 1 && title === undefined && isFirst) {
+        title = text;
+      } else {
+        rawSections.push({ heading: text, items: [] });
+      }
+      stack = [];
+      paragraph = null;
+      previousBlank = true;
+      return;
+    }
+
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      const indent = bullet[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+      const item: RawItem = { lines: [(bullet[3] ?? '').replace(/^\[[ xX]\]\s+/, '')], children: [] };
+      if (stack.length > 0) stack[stack.length - 1].item.children.push(item);
+      else section.items.push(item);
+      stack.push({ indent, item });
+      paragraph = null;
+      previousBlank = false;
+      return;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (top && (indent > top.indent || !previousBlank)) {
+      // Continuation of the current bullet
+      top.item.lines.push(line.trim());
+    } else {
+      stack = [];
+      if (paragraph) {
+        paragraph.lines.push(line.trim());
+      } else {
+        paragraph = { lines: [line.trim()], children: [] };
+        section.items.push(paragraph);
+      }
+    }
+    previousBlank = false;
+  });
+
+  return {
+    title,
+    sections: rawSections
+      .map(section => ({ heading: section.heading, items: section.items.map(rawToItem) }))
+      .filter(section => section.items.length > 0),
+  };
+};
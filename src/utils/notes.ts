@@ -0,0 +1,218 @@
+import type { Connection, Node } from '../store/canvasStore';
+import { createEntityId, type CanvasFragment } from '../store/canvasMerge';
+import { gridLayout } from '../store/layout';
+import { TEXT_NODE_PARAGRAPH_STYLE } from './html';
+import { markdownDocumentToHtml } from './markdown';
+import { readZip } from './zip';
+
+/**
+ * Note vaults: folders of Markdown files as Obsidian and Notion keep them.
+ * Every note becomes a text node, and its [[wiki-links]] and relative links
+ * to other notes become connections. Front matter supplies tags, a title,
+ * aliases to link by and a creation date. Other files are left out.
+ */
+
+export interface NoteFile {
+  path: string; // Relative to the vault, with forward slashes
+  content: string;
+}
+
+type FrontMatter = Record<string, string | string[]>;
+
+const NODE_WIDTH = 240;
+const MIN_NODE_HEIGHT = 120;
+const MAX_NODE_HEIGHT = 360;
+const CHARS_PER_LINE = 30;
+
+const NOTE_EXTENSION = /\.(md|markdown)$/i;
+// Notion exports add a 32-digit ID to every file name
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+const WIKI_LINK = /!?\[\[([^\]|#^]*)([#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+const MARKDOWN_LINK = /\[[^\]]*\]\(<?([^)>\s]+)>?[^)]*\)/g;
+const CODE_BLOCK = /(^(?:```|~~~)[\s\S]*?^(?:```|~~~)[ \t]*$)/m;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+// Settings folders (.obsidian, .trash) and archive metadata aren't notes
+export const isNotePath = (path: string) =>
+  NOTE_EXTENSION.test(path) && !path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+/**
+ * Read the notes in a ZIP archive. Throws when the file isn't a ZIP archive.
+ */
+export const readNotesArchive = async (archive: Blob): Promise<NoteFile[]> => {
+  const decoder = new TextDecoder();
+  return (await readZip(archive))
+    .filter(entry => isNotePath(entry.name))
+    .map(entry => ({ path: entry.name, content: decoder.decode(entry.data) }));
+};
+
+// Files picked as a folder carry their path inside it
+export const readNotesFolder = (files: File[]): Promise<NoteFile[]> =>
+  Promise.all(files
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .filter(({ path }) => isNotePath(path))
+    .map(async ({ file, path }) => ({ path, content: await file.text() })));
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+// The simple YAML that note apps write: scalars, inline lists and dash lists
+const parseFrontMatter = (markdown: string): { data: FrontMatter; body: string } => {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: markdown };
+
+  const data: FrontMatter = {};
+  let listKey: string | undefined;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    const list = listKey ? data[listKey] : undefined;
+    if (item && Array.isArray(list)) {
+      list.push(unquote(item[1]));
+      return;
+    }
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) return;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = value ? undefined : key;
+    data[key] = !value
+      ? []
+      : /^\[.*\]$/.test(value)
+        ? value.slice(1, -1).split(',').map(unquote).filter(Boolean)
+        : unquote(value);
+  });
+  return { data, body: markdown.slice(match[0].length) };
+};
+
+const listField = (data: FrontMatter, ...keys: string[]) =>
+  keys.flatMap(key => {
+    const value = data[key];
+    return Array.isArray(value) ? value : value ? value.split(',') : [];
+  }).map(item => item.trim()).filter(Boolean);
+
+const stringField = (data: FrontMatter, ...keys: string[]) =>
+  keys.map(key => data[key]).find((value): value is string => typeof value === 'string' && value !== '');
+
+const parseDate = (value?: string) => {
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+const fileName = (path: string) => path.split('/').pop()!.replace(NOTE_EXTENSION, '');
+
+// Links compare without case, extension or Notion ID
+const linkKey = (target: string) => target.trim().replace(NOTE_EXTENSION, '').replace(NOTION_ID, '').toLowerCase();
+
+// Resolve a relative link against the folder of the note it's in
+const resolvePath = (from: string, target: string) => {
+  const parts = from.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const decodeLink = (target: string) => {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+};
+
+// Roughly size a node to its text, so long notes aren't cut off
+const estimateHeight = (html: string) => {
+  const lines = Math.ceil(html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').length / CHARS_PER_LINE)
+    + (html.match(/<(p|li|h\d|pre)\b/g)?.length ?? 0);
+  return Math.min(MAX_NODE_HEIGHT, Math.max(MIN_NODE_HEIGHT, 60 + lines * 20));
+};
+
+/**
+ * Turn notes into text nodes connected along their links, laid out as a grid
+ * for the force-directed layout to start from once they're on the canvas.
+ * Links to notes that aren't part of the import are kept as text. The
+ * fragment's IDs are placeholders, like any import.
+ */
+export const notesToFragment = (notes: NoteFile[]): CanvasFragment => {
+  const now = new Date();
+  const nodeIdsByPath = new Map<string, string>(); // Full path without extension
+  const nodeIdsByName = new Map<string, string>(); // File name, title or alias
+  const outgoing: Array<{ note: NoteFile; fromNodeId: string; wikiTargets: string[]; pathTargets: string[] }> = [];
+
+  const nodes: Node[] = notes.map(note => {
+    const { data, body } = parseFrontMatter(note.content.replace(/^\uFEFF/, ''));
+    const name = fileName(note.path).replace(NOTION_ID, '');
+    const title = stringField(data, 'title') ?? name;
+    const tags = Array.from(new Set(listField(data, 'tags', 'tag').map(tag => tag.replace(/^#/, '')).filter(Boolean)));
+    const createdAt = parseDate(stringField(data, 'created', 'date', 'created_at')) ?? now;
+
+    const wikiTargets: string[] = [];
+    const pathTargets: string[] = [];
+    const text = body
+      // Notion starts each page with its title as a heading, which the node title already shows
+      .replace(/^\s*#\s+(.*)\n?/, (heading, text: string) => (text.trim().toLowerCase() === title.toLowerCase() ? '' : heading))
+      // Code blocks are left alone, since brackets in code aren't links
+      .split(CODE_BLOCK)
+      .map((part, index) => (index % 2 === 1 ? part : part.replace(WIKI_LINK, (_, target: string, _anchor: string | undefined, label: string | undefined) => {
+        if (target.trim()) wikiTargets.push(target);
+        return (label ?? target).trim() || target;
+      })))
+      .join('');
+    for (const [, target] of text.matchAll(MARKDOWN_LINK)) {
+      if (!URL_SCHEME.test(target) && !target.startsWith('#')) pathTargets.push(decodeLink(target.replace(/#.*$/, '')));
+    }
+
+    const html = text.trim() ? markdownDocumentToHtml(text) : `<p style="${TEXT_NODE_PARAGRAPH_STYLE}"></p>`;
+    const node: Node = {
+      id: createEntityId('node'),
+      x: 0,
+      y: 0,
+      width: NODE_WIDTH,
+      height: estimateHeight(html),
+      content: { type: 'text', value: html, title },
+      color: '#ffffff',
+      selected: false,
+      createdAt,
+      updatedAt: createdAt,
+      ...(tags.length ? { tags } : {}),
+    };
+
+    nodeIdsByPath.set(linkKey(note.path), node.id);
+    [fileName(note.path), title, ...listField(data, 'aliases', 'alias')].forEach(key => {
+      if (!nodeIdsByName.has(linkKey(key))) nodeIdsByName.set(linkKey(key), node.id);
+    });
+    outgoing.push({ note, fromNodeId: node.id, wikiTargets, pathTargets });
+    return node;
+  });
+
+  // Wiki-links name a note, optionally with the folders above it
+  const findByName = (target: string) => {
+    const key = linkKey(target);
+    if (!key.includes('/')) return nodeIdsByName.get(key);
+    return Array.from(nodeIdsByPath).find(([path]) => path === key || path.endsWith(`/${key}`))?.[1];
+  };
+
+  const connections: Connection[] = [];
+  const seen = new Set<string>();
+  outgoing.forEach(({ note, fromNodeId, wikiTargets, pathTargets }) => {
+    const targets = [
+      ...wikiTargets.map(findByName),
+      ...pathTargets.filter(target => NOTE_EXTENSION.test(target)).map(target =>
+        nodeIdsByPath.get(linkKey(resolvePath(note.path, target))) ?? findByName(target.split('/').pop()!)),
+    ];
+    targets.forEach(toNodeId => {
+      const pair = `${fromNodeId}>${toNodeId}`;
+      if (toNodeId && toNodeId !== fromNodeId && !seen.has(pair)) {
+        seen.add(pair);
+        connections.push({ id: createEntityId('conn'), fromNodeId, toNodeId, color: '#000000' });
+      }
+    });
+  });
+
+  const positions = gridLayout(nodes);
+  return {
+    nodes: nodes.map(node => ({ ...node, ...(positions.get(node.id) ?? {}) })),
+    connections,
+    groups: [],
+  };
+};
@@ -0,0 +1,95 @@
+import type { CanvasFragment } from '../store/canvasMerge';
+import { buildCanvasOutline, nodeLabel, nodeUrl, type CanvasTree, type OutlineDocument, type OutlineItem } from '../store/outline';
+import { escapeHtml, escapeXmlAttribute, sanitizeHtml, textToHtml } from './html';
+
+/**
+ * OPML outlines, as written by outliners and most mind-mapping tools. Each
+ * outline element is a node; its `_note` is the node's comment and its
+ * `category` list holds the tags. Groups are written as top-level outlines
+ * marked with a `_group` color, holding the group's trees.
+ */
+
+const outlineElement = ({ node, children }: CanvasTree, indent: string): string => {
+  const url = nodeUrl(node);
+  const attributes = [
+    `text="${escapeXmlAttribute(nodeLabel(node))}"`,
+    ...(node.content.type === 'link' && url ? [`type="link" url="${escapeXmlAttribute(url)}"`] : []),
+    ...(node.comment ? [`_note="${escapeXmlAttribute(node.comment)}"`] : []),
+    ...(node.tags?.length ? [`category="${escapeXmlAttribute(node.tags.join(','))}"`] : []),
+  ].join(' ');
+
+  if (children.length === 0) return `${indent}<outline ${attributes}/>`;
+  return [
+    `${indent}<outline ${attributes}>`,
+    ...children.map(child => outlineElement(child, `${indent}  `)),
+    `${indent}</outline>`,
+  ].join('\n');
+};
+
+export const canvasToOpml = (canvasName: string, content: CanvasFragment): string => {
+  const body = buildCanvasOutline(content).flatMap(section => {
+    if (!section.group) return section.trees.map(tree => outlineElement(tree, '    '));
+    return [
+      `    <outline text="${escapeXmlAttribute(section.group.name)}" _group="${escapeXmlAttribute(section.group.color)}">`,
+      ...section.trees.map(tree => outlineElement(tree, '      ')),
+      '    </outline>',
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeHtml(canvasName)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...body,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+};
+
+// Outline text is plain text, though some tools put inline HTML in it
+const textContentToHtml = (text: string) => /<[a-z][\s\S]*>/i.test(text) ? sanitizeHtml(text) : textToHtml(text);
+
+const childOutlines = (element: Element) => Array.from(element.children).filter(child => child.tagName === 'outline');
+
+const outlineToItem = (element: Element): OutlineItem => {
+  const text = element.getAttribute('text') ?? element.getAttribute('title') ?? '';
+  const url = element.getAttribute('url') || element.getAttribute('htmlUrl') || element.getAttribute('xmlUrl');
+  const note = element.getAttribute('_note');
+  const tags = (element.getAttribute('category') ?? '')
+    .split(',')
+    .map(tag => tag.trim().replace(/^\/+/, ''))
+    .filter(Boolean);
+
+  return {
+    ...(url ? { title: text || undefined, links: [{ url, title: text || url }] } : { html: text.trim() ? textContentToHtml(text) : undefined }),
+    tags: tags.length > 0 ? tags : undefined,
+    comment: note?.trim() || undefined,
+    children: childOutlines(element).map(outlineToItem),
+  };
+};
+
+export const parseOpml = (xml: string): OutlineDocument => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const body = doc.querySelector('opml > body');
+  if (doc.querySelector('parsererror') || !body) {
+    throw new Error('Not a valid OPML file');
+  }
+
+  const items = childOutlines(body).flatMap(element => {
+    const groupColor = element.getAttribute('_group');
+    if (groupColor === null) return [outlineToItem(element)];
+    // A group outline stands for its trees, which start the group
+    const group = { name: element.getAttribute('text') || 'Group', color: groupColor || undefined };
+    return childOutlines(element).map(child => ({ ...outlineToItem(child), group }));
+  });
+
+  return {
+    title: doc.querySelector('opml > head > title')?.textContent?.trim() || undefined,
+    sections: [{ items }],
+  };
+};
@@ -0,0 +1,195 @@
+import { jsPDF } from 'jspdf';
+import { SCENE_FONT_FAMILY, type CanvasScene, type ScenePrimitive } from './canvasScene';
+
+// Longest page side in points (the long side of A4)
+const PAGE_LONG_SIDE = 842;
+// Images are drawn at this many pixels per point, enough to stay sharp when printed
+const IMAGE_RESOLUTION = 2;
+const IMAGE_PLACEHOLDER = '#e5e7eb';
+// Text the built-in font can't show is drawn as an image, at this many pixels per point
+const TEXT_RESOLUTION = 4;
+
+// The built-in PDF fonts only cover the Windows-1252 characters
+const BUILT_IN_FONT_TEXT = /^[\u0020-\u007e\u00a0-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]*$/;
+
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+// jsPDF only takes hex colors; let the browser normalize named and rgb() colors
+const toHexColor = (color: string | undefined, fallback = '#000000') => {
+  if (!color) return fallback;
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+  if (colorContext === undefined) colorContext = document.createElement('canvas').getContext('2d');
+  if (!colorContext) return fallback;
+  colorContext.fillStyle = fallback;
+  colorContext.fillStyle = color;
+  const normalized = colorContext.fillStyle;
+  return normalized.startsWith('#') ? normalized : fallback;
+};
+
+const loadImage = (href: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load image ${href}`));
+  image.src = href;
+});
+
+// Crop an image to fill the box, like object-fit: cover, at print resolution
+const coverImage = (image: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * IMAGE_RESOLUTION));
+  canvas.height = Math.max(1, Math.round(height * IMAGE_RESOLUTION));
+  const ctx = canvas.getContext('2d')!;
+  const scale = Math.max(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, (canvas.width - drawWidth) / 2, (canvas.height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas.toDataURL('image/jpeg', 0.9); // Throws when the image came from a site that blocks reuse
+};
+
+// Draw a line of text with the browser's fonts, which cover every script and emoji
+const rasterizeText = (text: string, fontSize: number, bold: boolean | undefined, color: string) => {
+  const font = `${bold ? 'bold ' : ''}${fontSize}px ${SCENE_FONT_FAMILY}`;
+  const measure = document.createElement('canvas').getContext('2d')!;
+  measure.font = font;
+  const metrics = measure.measureText(text);
+  const ascent = Math.max(fontSize, metrics.actualBoundingBoxAscent || 0);
+  const descent = Math.max(fontSize * 0.3, metrics.actualBoundingBoxDescent || 0);
+  const width = Math.max(1, metrics.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * TEXT_RESOLUTION);
+  canvas.height = Math.ceil((ascent + descent) * TEXT_RESOLUTION);
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(TEXT_RESOLUTION, TEXT_RESOLUTION);
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.fillText(text, 0, ascent);
+  return { data: canvas.toDataURL('image/png'), width, height: ascent + descent, ascent };
+};
+
+const drawPrimitive = async (
+  pdf: jsPDF,
+  primitive: ScenePrimitive,
+  toX: (x: number) => number,
+  toY: (y: number) => number,
+  scale: number,
+) => {
+  switch (primitive.kind) {
+    case 'rect': {
+      const style = primitive.fill && primitive.stroke ? 'FD' : primitive.stroke ? 'S' : 'F';
+      if (primitive.fill) pdf.setFillColor(toHexColor(primitive.fill, '#ffffff'));
+      if (primitive.stroke) {
+        pdf.setDrawColor(toHexColor(primitive.stroke));
+        pdf.setLineWidth((primitive.strokeWidth ?? 1) * scale);
+      }
+      const radius = primitive.radius * scale;
+      const x = toX(primitive.x), y = toY(primitive.y), width = primitive.width * scale, height = primitive.height * scale;
+      if (radius > 0) pdf.roundedRect(x, y, width, height, radius, radius, style);
+      else pdf.rect(x, y, width, height, style);
+      break;
+    }
+
+    case 'curve': {
+      const { from, control1, control2, to } = primitive.curve;
+      pdf.setDrawColor(toHexColor(primitive.stroke));
+      pdf.setLineWidth(primitive.strokeWidth * scale);
+      pdf.moveTo(toX(from.x), toY(from.y));
+      pdf.curveTo(toX(control1.x), toY(control1.y), toX(control2.x), toY(control2.y), toX(to.x), toY(to.y));
+      pdf.stroke();
+      break;
+    }
+
+    case 'polygon': {
+      const [first, ...rest] = primitive.points;
+      pdf.setFillColor(toHexColor(primitive.fill));
+      pdf.moveTo(toX(first.x), toY(first.y));
+      rest.forEach(point => pdf.lineTo(toX(point.x), toY(point.y)));
+      pdf.close();
+      pdf.fill();
+      break;
+    }
+
+    case 'text': {
+      const fontSize = primitive.fontSize * scale;
+      const color = toHexColor(primitive.color);
+      pdf.setFont('helvetica', primitive.bold ? 'bold' : 'normal');
+      pdf.setFontSize(fontSize);
+      pdf.setTextColor(color);
+      primitive.lines.forEach((line, index) => {
+        const x = toX(primitive.x), baseline = toY(primitive.y + index * primitive.lineHeight);
+        if (BUILT_IN_FONT_TEXT.test(line)) {
+          pdf.text(line, x, baseline);
+        } else {
+          // Stays readable, though it can't be selected or searched
+          const image = rasterizeText(line, fontSize, primitive.bold, color);
+          pdf.addImage(image.data, 'PNG', x, baseline - image.ascent, image.width, image.height);
+        }
+      });
+      break;
+    }
+
+    case 'image': {
+      const x = toX(primitive.x), y = toY(primitive.y), width = primitive.width * scale, height = primitive.height * scale;
+      const radius = primitive.radius * scale;
+      try {
+        const data = coverImage(await loadImage(primitive.href), width, height);
+        pdf.saveGraphicsState();
+        pdf.roundedRect(x, y, width, height, radius, radius, null);
+        pdf.clip();
+        pdf.discardPath();
+        pdf.addImage(data, 'JPEG', x, y, width, height);
+        pdf.restoreGraphicsState();
+      } catch {
+        pdf.setFillColor(IMAGE_PLACEHOLDER);
+        pdf.roundedRect(x, y, width, height, radius, radius, 'F');
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Draw scenes as vector pages of a PDF, one page per scene. Pages keep each
+ * scene's proportions with the long side the length of A4, and anything
+ * outside a scene's area is cut off by the page edge.
+ */
+export const scenesToPdf = async (
+  scenes: CanvasScene[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<jsPDF> => {
+  let pdf: jsPDF | null = null;
+
+  for (let index = 0; index < scenes.length; index++) {
+    const { bounds, background, primitives } = scenes[index];
+    const width = Math.max(1, bounds.maxX - bounds.minX);
+    const height = Math.max(1, bounds.maxY - bounds.minY);
+    const orientation = width >= height ? 'landscape' : 'portrait';
+    const scale = PAGE_LONG_SIDE / Math.max(width, height);
+    const pageWidth = width * scale;
+    const pageHeight = height * scale;
+
+    if (!pdf) {
+      pdf = new jsPDF({ orientation, unit: 'pt', format: [pageWidth, pageHeight] });
+    } else {
+      pdf.addPage([pageWidth, pageHeight], orientation);
+    }
+
+    pdf.setFillColor(toHexColor(background, '#ffffff'));
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+
+    const toX = (x: number) => (x - bounds.minX) * scale;
+    const toY = (y: number) => (y - bounds.minY) * scale;
+    for (const primitive of primitives) {
+      await drawPrimitive(pdf, primitive, toX, toY, scale);
+    }
+    onProgress?.(index + 1, scenes.length);
+  }
+
+  if (!pdf) {
+    throw new Error('Nothing to export');
+  }
+  return pdf;
+};
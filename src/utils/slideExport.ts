@@ -0,0 +1,25 @@
+import { useCanvasStore } from '../store/canvasStore';
+import { buildCanvasScene, embedSceneImages } from './canvasScene';
+import { scenesToPdf } from './pdfExport';
+import { nodeRect } from './viewport';
+
+/**
+ * Export the presentation frames as a PDF with one vector page per frame, in
+ * slide order. Pages are drawn from the canvas data, so the view doesn't move
+ * and frame outlines and other canvas chrome never end up on the slides.
+ */
+export const exportFramesToPdf = async (
+  filename: string,
+  onProgress?: (done: number, total: number) => void,
+) => {
+  const { frames, nodes, connections, groups } = useCanvasStore.getState();
+  if (frames.length === 0) {
+    throw new Error('There are no frames to export');
+  }
+
+  const scenes = await Promise.all(frames.map(frame =>
+    embedSceneImages(buildCanvasScene(nodes, connections, groups, { area: nodeRect(frame) }))
+  ));
+  const pdf = await scenesToPdf(scenes, onProgress);
+  pdf.save(`${filename}.pdf`);
+};
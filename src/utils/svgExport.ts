@@ -0,0 +1,95 @@
+import { escapeHtml } from './html';
+import { curveToPathData } from './connectionPath';
+import { SCENE_FONT_FAMILY, type CanvasScene, type ScenePrimitive } from './canvasScene';
+
+// Raster exports are drawn at up to twice the canvas size, but no side larger than this
+const MAX_RASTER_SIDE = 8192;
+const RASTER_SCALE = 2;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const primitiveToSvg = (primitive: ScenePrimitive, index: number): string => {
+  switch (primitive.kind) {
+    case 'rect':
+      return `<rect x="${round(primitive.x)}" y="${round(primitive.y)}" width="${round(primitive.width)}" height="${round(primitive.height)}" rx="${primitive.radius}"`
+        + ` fill="${escapeHtml(primitive.fill ?? 'none')}"`
+        + (primitive.stroke ? ` stroke="${escapeHtml(primitive.stroke)}" stroke-width="${primitive.strokeWidth ?? 1}"` : '')
+        + '/>';
+
+    case 'curve':
+      return `<path d="${curveToPathData(primitive.curve)}" fill="none" stroke="${escapeHtml(primitive.stroke)}" stroke-width="${primitive.strokeWidth}"/>`;
+
+    case 'polygon':
+      return `<polygon points="${primitive.points.map(point => `${round(point.x)},${round(point.y)}`).join(' ')}" fill="${escapeHtml(primitive.fill)}"/>`;
+
+    case 'text': {
+      const spans = primitive.lines
+        .map((line, lineIndex) => `<tspan x="${round(primitive.x)}" y="${round(primitive.y + lineIndex * primitive.lineHeight)}">${escapeHtml(line)}</tspan>`)
+        .join('');
+      return `<text font-size="${primitive.fontSize}"${primitive.bold ? ' font-weight="bold"' : ''} fill="${escapeHtml(primitive.color)}">${spans}</text>`;
+    }
+
+    case 'image': {
+      const clipId = `clip-${index}`;
+      const href = escapeHtml(primitive.href);
+      return `<clipPath id="${clipId}"><rect x="${round(primitive.x)}" y="${round(primitive.y)}" width="${round(primitive.width)}" height="${round(primitive.height)}" rx="${primitive.radius}"/></clipPath>`
+        + `<image x="${round(primitive.x)}" y="${round(primitive.y)}" width="${round(primitive.width)}" height="${round(primitive.height)}"`
+        + ` href="${href}" xlink:href="${href}" preserveAspectRatio="xMidYMid slice" clip-path="url(#${clipId})"/>`;
+    }
+  }
+};
+
+/**
+ * Write a scene as a standalone SVG document. The viewBox is the scene's area
+ * in canvas coordinates, so the drawing scales without losing detail.
+ */
+export const sceneToSvg = (scene: CanvasScene): string => {
+  const { minX, minY, maxX, maxY } = scene.bounds;
+  const width = round(maxX - minX);
+  const height = round(maxY - minY);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${round(minX)} ${round(minY)} ${width} ${height}" font-family="${SCENE_FONT_FAMILY}">`,
+    `<rect x="${round(minX)}" y="${round(minY)}" width="${width}" height="${height}" fill="${escapeHtml(scene.background)}"/>`,
+    ...scene.primitives.map(primitiveToSvg),
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Draw an SVG document into a PNG or JPEG. Images from other sites that don't
+ * allow cross-origin use leave the browser unable to read the result back.
+ */
+export const rasterizeSvg = (svg: string, width: number, height: number, format: 'png' | 'jpeg'): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const scale = Math.min(RASTER_SCALE, MAX_RASTER_SIDE / Math.max(width, height, 1));
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not create drawing context'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob(blob => {
+          if (blob) resolve(blob);
+          else reject(new Error('Could not encode image'));
+        }, `image/${format}`, 0.92);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw SVG'));
+    };
+    image.src = url;
+  });
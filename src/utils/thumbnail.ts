@@ -0,0 +1,71 @@
+import type { Node, Connection, NodeGroup } from '../store/canvasStore';
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 150;
+const THUMBNAIL_PADDING = 12;
+
+/**
+ * Draw a small overview of the canvas from store data: node boxes in their
+ * fill colors, outlined with their group color, and straight connection lines.
+ * Returns a PNG data URL, or undefined when there is nothing to draw.
+ */
+export const createCanvasThumbnail = (
+  nodes: Node[],
+  connections: Connection[],
+  groups: NodeGroup[],
+): string | undefined => {
+  if (nodes.length === 0 || typeof document === 'undefined') return undefined;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+
+  const scale = Math.min(
+    (THUMBNAIL_WIDTH - THUMBNAIL_PADDING * 2) / Math.max(1, maxX - minX),
+    (THUMBNAIL_HEIGHT - THUMBNAIL_PADDING * 2) / Math.max(1, maxY - minY),
+    0.5 // Don't blow up small canvases
+  );
+  const offsetX = (THUMBNAIL_WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (THUMBNAIL_HEIGHT - (maxY - minY) * scale) / 2;
+  const toX = (x: number) => offsetX + (x - minX) * scale;
+  const toY = (y: number) => offsetY + (y - minY) * scale;
+
+  ctx.fillStyle = '#f9fafb';
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  ctx.strokeStyle = '#9ca3af';
+  ctx.lineWidth = 1;
+  connections.forEach(conn => {
+    const from = nodeMap.get(conn.fromNodeId);
+    const to = nodeMap.get(conn.toNodeId);
+    if (!from || !to) return;
+    ctx.beginPath();
+    ctx.moveTo(toX(from.x + from.width / 2), toY(from.y + from.height / 2));
+    ctx.lineTo(toX(to.x + to.width / 2), toY(to.y + to.height / 2));
+    ctx.stroke();
+  });
+
+  const groupColors = new Map(groups.map(group => [group.id, group.color]));
+  nodes.forEach(node => {
+    const x = toX(node.x);
+    const y = toY(node.y);
+    const width = Math.max(2, node.width * scale);
+    const height = Math.max(2, node.height * scale);
+
+    ctx.fillStyle = node.color || '#ffffff';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = (node.groupId && groupColors.get(node.groupId)) || '#d1d5db';
+    ctx.lineWidth = node.groupId ? 1.5 : 1;
+    ctx.strokeRect(x, y, width, height);
+  });
+
+  return canvas.toDataURL('image/png');
+};
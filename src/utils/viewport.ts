@@ -0,0 +1,46 @@
+import type { CanvasTransform } from '../store/canvasStore';
+
+/**
+ * Geometry helpers for working out which part of the canvas is on screen.
+ * Rectangles are in canvas coordinates unless noted otherwise.
+ */
+
+export interface Rect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Canvas area covered by a screen-sized viewport, grown by `overscan` screen pixels on every side
+export const getVisibleBounds = (transform: CanvasTransform, viewport: Size, overscan = 0): Rect => {
+  const margin = overscan / transform.scale;
+  return {
+    minX: -transform.x / transform.scale - margin,
+    minY: -transform.y / transform.scale - margin,
+    maxX: (viewport.width - transform.x) / transform.scale + margin,
+    maxY: (viewport.height - transform.y) / transform.scale + margin,
+  };
+};
+
+export const nodeRect = (node: { x: number; y: number; width: number; height: number }): Rect => ({
+  minX: node.x,
+  minY: node.y,
+  maxX: node.x + node.width,
+  maxY: node.y + node.height,
+});
+
+export const unionRects = (a: Rect, b: Rect): Rect => ({
+  minX: Math.min(a.minX, b.minX),
+  minY: Math.min(a.minY, b.minY),
+  maxX: Math.max(a.maxX, b.maxX),
+  maxY: Math.max(a.maxY, b.maxY),
+});
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
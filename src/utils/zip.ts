@@ -0,0 +1,180 @@
+/**
+ * Minimal ZIP archives: enough to write IdeaScape bundles and to read them
+ * back after other tools have repacked them. Entries are stored as they are
+ * or deflated with the browser's built-in compression streams. ZIP64,
+ * encrypted and multi-part archives are not supported.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, with forward slashes
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const transform = async (data: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Timestamps in the MS-DOS format ZIP uses, in local time
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Pack entries into a ZIP archive. Entries marked `compress` are deflated
+ * when the browser can; media that is already compressed is best stored.
+ */
+export const createZip = async (entries: Array<ZipEntry & { compress?: boolean }>): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const files: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const deflate = !!entry.compress && typeof CompressionStream !== 'undefined';
+    const body = deflate ? await transform(entry.data, new CompressionStream('deflate-raw')) : entry.data;
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER, true);
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, UTF8_NAMES, true);
+    localView.setUint16(8, deflate ? DEFLATED : STORED, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_NAMES, true);
+    centralView.setUint16(10, deflate ? DEFLATED : STORED, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    files.push(local, body);
+    directory.push(central);
+    offset += local.length + body.length;
+    if (offset > MAX_SIZE) {
+      throw new Error('The archive is too large');
+    }
+  }
+
+  const directorySize = directory.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...files, ...directory, end], { type: 'application/zip' });
+};
+
+/**
+ * Unpack the files of a ZIP archive, leaving out folders. Throws when the
+ * data isn't a ZIP archive or uses features this reader doesn't support.
+ */
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, before an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  if (count === 0xffff || pointer === MAX_SIZE) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(pointer, true) !== CENTRAL_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const flags = view.getUint16(pointer + 8, true);
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+
+    // The local header's name and extra field can differ in length from the central one
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === STORED) {
+      entries.push({ name, data: raw });
+    } else if (method === DEFLATED) {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot read compressed ZIP archives');
+      }
+      entries.push({ name, data: await transform(raw, new DecompressionStream('deflate-raw')) });
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+  }
+  return entries;
+};